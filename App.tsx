@@ -1,16 +1,34 @@
 
-import React, { useState } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { Header } from './components/Header';
 import { InputForm } from './components/InputForm';
 import { ResultDisplay } from './components/ResultDisplay';
 import { MasterReport } from './components/MasterReport';
-import { generateWateringPlan, estimateLocationWeather } from './services/geminiService';
-import { AppState, PlantFormData, LiveCalculation, SavedZone } from './types';
+import { ProjectPicker } from './components/ProjectPicker';
+import { generateWateringPlan, analyzeZonePhoto, getAdvisorProvider, loadAdvisorProviderId, saveAdvisorProviderId } from './services/advisorProvider';
+import { fetchWeeklyClimate } from './services/climateProvider';
+import { createPhotoThumbnail } from './services/photoAnalysis';
+import { AdvisorError, ADVISOR_ERROR_TITLES, ADVISOR_ERROR_HINTS, classifyAdvisorError } from './services/advisorErrors';
+import { loadCustomNozzles, saveCustomNozzles } from './services/nozzleLibrary';
+import { calculateZone, hasRequiredZoneInputs } from './services/zoneCalculator';
+import { getZoneNozzleIds } from './services/headInventory';
+import {
+  loadProjects,
+  saveProjects,
+  loadActiveProjectId,
+  saveActiveProjectId,
+  createProject,
+  duplicateProject,
+  getProjectLocation,
+  DEFAULT_PROJECT_NAME
+} from './services/projectStorage';
+import { AppState, PlantFormData, LiveCalculation, SavedZone, Project, NozzleProduct, AdvisorProviderId, AdvisorErrorCategory, PhotoSuggestion } from './types';
 
 const INITIAL_FORM_STATE: PlantFormData = {
   customZoneName: '',
   zoneType: '',
   zoneAreaSqFt: '',
+  frequencyMode: 'soil', // Set explicitly; zones saved without one are legacy
   location: '',
   zipCode: '',
   month: '',
@@ -25,50 +43,270 @@ const INITIAL_FORM_STATE: PlantFormData = {
   image: null
 };
 
-const App: React.FC = () => {
-  const [formData, setFormData] = useState<PlantFormData>(INITIAL_FORM_STATE);
-  const [state, setState] = useState<Omit<AppState, 'formData'>>({
-    savedZones: [],
+// Cancellations are routine, so they get a quieter banner than failures
+const ERROR_BANNER_STYLES: Record<AdvisorErrorCategory, string> = {
+  'quota': 'bg-amber-50 border-amber-500 text-amber-800',
+  'network': 'bg-orange-50 border-orange-500 text-orange-800',
+  'timeout': 'bg-orange-50 border-orange-500 text-orange-800',
+  'invalid-response': 'bg-red-50 border-red-500 text-red-700',
+  'safety': 'bg-purple-50 border-purple-500 text-purple-800',
+  'unavailable': 'bg-amber-50 border-amber-500 text-amber-800',
+  'cancelled': 'bg-slate-50 border-slate-400 text-slate-600',
+  'unknown': 'bg-red-50 border-red-500 text-red-700'
+};
+
+// Restores the last opened project, or starts a fresh one on first visit
+const loadInitialState = (): Omit<AppState, 'formData'> => {
+  let projects = loadProjects();
+  if (projects.length === 0) {
+    projects = [createProject(DEFAULT_PROJECT_NAME, getProjectLocation(INITIAL_FORM_STATE))];
+  }
+  const storedId = loadActiveProjectId();
+  const active = projects.find(p => p.id === storedId) || projects[0];
+
+  return {
+    projects,
+    activeProjectId: active.id,
+    savedZones: active.zones,
     loading: false,
     weatherLoading: false,
-    result: null,
+    aiClimateFallback: false, // Opt-in: the advisor is only asked once the user ticks "AI fallback"
+    advisorProviderId: loadAdvisorProviderId(),
+    customNozzles: loadCustomNozzles(),
+    result: active.lastResult,
+    photoAnalysis: null,
+    photoAnalyzing: false,
     error: null,
     editingId: null
+  };
+};
+
+const App: React.FC = () => {
+  const [state, setState] = useState<Omit<AppState, 'formData'>>(loadInitialState);
+  const [formData, setFormData] = useState<PlantFormData>(() => {
+    const active = state.projects.find(p => p.id === state.activeProjectId);
+    return { ...INITIAL_FORM_STATE, ...active?.location };
   });
+  const planRequestRef = useRef<AbortController | null>(null);
+  const weatherRequestRef = useRef<AbortController | null>(null);
+  const photoRequestRef = useRef<AbortController | null>(null);
+
+  // A plan written for inputs the user has since changed is stale; stop waiting for it
+  useEffect(() => {
+    planRequestRef.current?.abort();
+  }, [formData]);
+
+  useEffect(() => {
+    weatherRequestRef.current?.abort();
+  }, [formData.zipCode, formData.month]);
+
+  // Suggestions belong to one photo
+  useEffect(() => {
+    photoRequestRef.current?.abort();
+    setState(prev => ({ ...prev, photoAnalysis: null, photoAnalyzing: false }));
+  }, [formData.image]);
+
+  // Keep the active project in sync with the working zones, location and last plan
+  useEffect(() => {
+    const location = getProjectLocation(formData);
+    setState(prev => ({
+      ...prev,
+      projects: prev.projects.map(p =>
+        p.id === prev.activeProjectId
+          ? { ...p, zones: prev.savedZones, location, lastResult: prev.result, updatedAt: Date.now() }
+          : p
+      )
+    }));
+  }, [state.savedZones, state.result, formData.location, formData.zipCode, formData.month, formData.estWeeklyEt, formData.estWeeklyRain, formData.climateSource, formData.waterSource, formData.waterPrice, formData.rateSchedule, formData.restrictions, formData.supply]);
+
+  useEffect(() => {
+    saveProjects(state.projects);
+  }, [state.projects]);
+
+  useEffect(() => {
+    saveActiveProjectId(state.activeProjectId);
+  }, [state.activeProjectId]);
+
+  const openProject = (project: Project) => {
+    setFormData({ ...INITIAL_FORM_STATE, ...project.location });
+    setState(prev => ({
+      ...prev,
+      activeProjectId: project.id,
+      savedZones: project.zones,
+      result: project.lastResult,
+      editingId: null,
+      error: null
+    }));
+  };
+
+  const handleOpenProject = (id: string) => {
+    const project = state.projects.find(p => p.id === id);
+    if (project) openProject(project);
+  };
+
+  const handleCreateProject = () => {
+    // New projects inherit the current location so a neighbouring property starts pre-filled
+    const project = createProject(`Project ${state.projects.length + 1}`, getProjectLocation(formData));
+    setState(prev => ({ ...prev, projects: [...prev.projects, project] }));
+    openProject(project);
+  };
+
+  const handleRenameProject = (id: string, name: string) => {
+    setState(prev => ({
+      ...prev,
+      projects: prev.projects.map(p => p.id === id ? { ...p, name, updatedAt: Date.now() } : p)
+    }));
+  };
+
+  const handleDuplicateProject = (id: string) => {
+    const source = state.projects.find(p => p.id === id);
+    if (!source) return;
+    const copy = duplicateProject(source);
+    setState(prev => ({ ...prev, projects: [...prev.projects, copy] }));
+    openProject(copy);
+  };
+
+  // Library entries are shared by reference, so saved zones using them are recalculated
+  const handleSaveCustomNozzles = (nozzles: NozzleProduct[]) => {
+    saveCustomNozzles(nozzles);
+    const findJson = (list: NozzleProduct[], id: string) => JSON.stringify(list.find(n => n.id === id));
+    const changedIds = new Set([...state.customNozzles, ...nozzles].map(n => n.id)
+      .filter(id => findJson(state.customNozzles, id) !== findJson(nozzles, id)));
+    const recalculate = (zone: SavedZone): SavedZone => {
+      if (!getZoneNozzleIds(zone.formData).some(id => changedIds.has(id))) return zone;
+      // Keeping the old stats quietly would report nozzles the library no longer has
+      if (!hasRequiredZoneInputs(zone.formData)) {
+        return { ...zone, invalidReason: "A nozzle this zone uses is no longer in the library. Edit the zone and pick another." };
+      }
+      return { ...zone, stats: calculateZone(zone.formData), invalidReason: undefined };
+    };
+    setState(prev => ({
+      ...prev,
+      customNozzles: nozzles,
+      savedZones: prev.savedZones.map(recalculate),
+      projects: prev.projects.map(p => p.id === prev.activeProjectId ? p : { ...p, zones: p.zones.map(recalculate) })
+    }));
+  };
+
+  // Zones in every project, so a nozzle one of them needs cannot be deleted
+  const getNozzleUsage = (nozzleId: string) =>
+    [...state.savedZones, ...state.projects.filter(p => p.id !== state.activeProjectId).flatMap(p => p.zones)]
+      .filter(z => getZoneNozzleIds(z.formData).includes(nozzleId))
+      .map(z => z.name);
+
+  const handleImportProject = (project: Project, nozzles: NozzleProduct[]) => {
+    // Entries already in the library win; the file copy only fills gaps
+    const missing = nozzles.filter(n => !state.customNozzles.some(c => c.id === n.id));
+    if (missing.length > 0) {
+      const merged = [...state.customNozzles, ...missing];
+      saveCustomNozzles(merged);
+      setState(prev => ({ ...prev, customNozzles: merged }));
+    }
+    setState(prev => ({ ...prev, projects: [...prev.projects, project] }));
+    openProject(project);
+  };
+
+  const handleDeleteProject = (id: string) => {
+    const remaining = state.projects.filter(p => p.id !== id);
+    if (remaining.length === 0) return;
+    setState(prev => ({ ...prev, projects: prev.projects.filter(p => p.id !== id) }));
+    if (id === state.activeProjectId) {
+      openProject(remaining[0]);
+    }
+  };
+
+  const handleAdvisorProviderChange = (advisorProviderId: AdvisorProviderId) => {
+    saveAdvisorProviderId(advisorProviderId);
+    setState(prev => ({ ...prev, advisorProviderId }));
+  };
 
   const handleFetchWeather = async () => {
     if (!formData.zipCode || !formData.month) {
-       setState(prev => ({ ...prev, error: "Please enter a Zip Code and Month first." }));
+       setState(prev => ({ ...prev, error: { message: "Please enter a Zip Code and Month first." } }));
        return;
     }
     
+    weatherRequestRef.current?.abort();
+    const controller = new AbortController();
+    weatherRequestRef.current = controller;
     setState(prev => ({ ...prev, weatherLoading: true, error: null }));
     
     try {
-      const data = await estimateLocationWeather(formData.zipCode, formData.month);
+      const data = await fetchWeeklyClimate(
+        formData.zipCode,
+        formData.month,
+        state.aiClimateFallback ? getAdvisorProvider(state.advisorProviderId) : null,
+        { signal: controller.signal }
+      );
       // Explicitly convert numbers to strings for form inputs
       setFormData(prev => ({
         ...prev,
         estWeeklyEt: String(data.estWeeklyEt),
-        estWeeklyRain: String(data.estWeeklyRain)
+        estWeeklyRain: String(data.estWeeklyRain),
+        climateSource: data.source
       }));
       setState(prev => ({ ...prev, weatherLoading: false }));
-    } catch (err: any) {
+    } catch (err: unknown) {
+      if (err instanceof AdvisorError) {
+        if (err.category === 'cancelled') {
+          // A newer fetch owns the spinner; a location edit leaves nothing loading
+          if (weatherRequestRef.current === controller) setState(prev => ({ ...prev, weatherLoading: false }));
+          return;
+        }
+        setState(prev => ({
+          ...prev,
+          weatherLoading: false,
+          error: { message: `Failed to fetch weather data: ${err.message} You can also enter values manually.`, category: err.category }
+        }));
+        return;
+      }
       setState(prev => ({ 
         ...prev, 
         weatherLoading: false, 
-        error: "Failed to fetch weather data. You can enter values manually." 
+        error: { message: "No bundled climate data for this zip code. Enable AI fallback or enter values manually." }
       }));
     }
   };
 
+  const handleAnalyzePhoto = async () => {
+    if (!formData.image) return;
+    photoRequestRef.current?.abort();
+    const controller = new AbortController();
+    photoRequestRef.current = controller;
+    setState(prev => ({ ...prev, photoAnalyzing: true, error: null }));
+
+    try {
+      const analysis = await analyzeZonePhoto(getAdvisorProvider(state.advisorProviderId), formData.image, formData, { signal: controller.signal });
+      setState(prev => ({ ...prev, photoAnalyzing: false, photoAnalysis: analysis }));
+    } catch (err: unknown) {
+      const advisorError = classifyAdvisorError(err);
+      // A new photo or a second analysis replaced this one
+      if (advisorError.category === 'cancelled') return;
+      setState(prev => ({
+        ...prev,
+        photoAnalyzing: false,
+        error: { message: advisorError.message, category: advisorError.category }
+      }));
+    }
+  };
+
+  const handlePhotoSuggestionResolved = (suggestion: PhotoSuggestion) => {
+    setState(prev => prev.photoAnalysis ? {
+      ...prev,
+      photoAnalysis: { ...prev.photoAnalysis, suggestions: prev.photoAnalysis.suggestions.filter(s => s.field !== suggestion.field) }
+    } : prev);
+  };
+
   const handleEditZone = (zone: SavedZone) => {
     setFormData(zone.formData);
     setState(prev => ({ ...prev, editingId: zone.id, result: null }));
     window.scrollTo({ top: 0, behavior: 'smooth' });
   };
 
-  const handleSaveAndNext = (stats: LiveCalculation) => {
+  const handleSaveAndNext = async (stats: LiveCalculation) => {
+    // The photo itself is not saved; a zone without a readable one just has no thumbnail
+    const thumbnail = formData.image ? await createPhotoThumbnail(formData.image).catch(() => undefined) : undefined;
+
     if (state.editingId) {
        // Update existing zone
        setState(prev => {
@@ -79,7 +317,9 @@ const App: React.FC = () => {
                name: formData.customZoneName || z.name, 
                stats: stats, 
                formData: { ...formData }, 
-               timestamp: Date.now() 
+               timestamp: Date.now(),
+               thumbnail: thumbnail || z.thumbnail,
+               invalidReason: undefined
              } 
            : z
          );
@@ -92,7 +332,8 @@ const App: React.FC = () => {
          name: formData.customZoneName || `Zone ${state.savedZones.length + 1}`,
          stats: stats,
          formData: { ...formData },
-         timestamp: Date.now()
+         timestamp: Date.now(),
+         ...(thumbnail && { thumbnail })
        };
    
        setState(prev => ({
@@ -113,6 +354,12 @@ const App: React.FC = () => {
       // pressure might be constant for system, but resetting just in case
       // soil might vary, slope might vary
       // Keep zip, month, ET, Rain, Water Source, Water Price
+      audit: undefined,
+      heads: [],
+      drip: undefined,
+      species: [],
+      frequencyMode: 'soil',
+      zoneHydraulics: undefined,
       image: null
     }));
     
@@ -128,6 +375,12 @@ const App: React.FC = () => {
         zoneAreaSqFt: '',
         nozzleType: '',
         efficiency: '',
+        audit: undefined,
+        heads: [],
+        drip: undefined,
+        species: [],
+        frequencyMode: 'soil',
+        zoneHydraulics: undefined,
         image: null
       }));
       setState(prev => ({ ...prev, result: null, editingId: null }));
@@ -135,25 +388,36 @@ const App: React.FC = () => {
 
   const handleSubmit = async (stats: LiveCalculation | null) => {
     if (!formData.image && !formData.zoneType) {
-      setState(prev => ({ ...prev, error: "Please select a zone type or upload a photo." }));
+      setState(prev => ({ ...prev, error: { message: "Please select a zone type or upload a photo." } }));
       return;
     }
     if (!formData.zipCode) {
-      setState(prev => ({ ...prev, error: "Please enter a valid Zip Code." }));
+      setState(prev => ({ ...prev, error: { message: "Please enter a valid Zip Code." } }));
       return;
     }
 
+    planRequestRef.current?.abort();
+    const controller = new AbortController();
+    planRequestRef.current = controller;
     setState(prev => ({ ...prev, loading: true, error: null, result: null }));
 
     try {
-      const schedule = await generateWateringPlan(formData, stats);
+      const schedule = await generateWateringPlan(getAdvisorProvider(state.advisorProviderId), formData, stats, { signal: controller.signal });
       setState(prev => ({ ...prev, loading: false, result: schedule }));
-    } catch (err: any) {
+    } catch (err: unknown) {
+      const advisorError = classifyAdvisorError(err);
+      if (advisorError.category === 'cancelled') {
+        // A newer request owns the spinner; a form edit leaves nothing loading
+        if (planRequestRef.current === controller) setState(prev => ({ ...prev, loading: false }));
+        return;
+      }
       setState(prev => ({ 
         ...prev, 
         loading: false, 
-        error: err.message || "An unexpected error occurred." 
+        error: { message: advisorError.message || "An unexpected error occurred.", category: advisorError.category }
       }));
+    } finally {
+      if (planRequestRef.current === controller) planRequestRef.current = null;
     }
   };
 
@@ -161,6 +425,17 @@ const App: React.FC = () => {
     <div className="min-h-screen py-8 px-4 flex justify-center items-start">
       <main className="w-full max-w-4xl bg-white rounded-2xl shadow-[0_20px_50px_-12px_rgba(0,0,0,0.1)] p-6 md:p-10 border border-slate-100">
         <Header />
+
+        <ProjectPicker
+          projects={state.projects}
+          activeProjectId={state.activeProjectId}
+          onOpen={handleOpenProject}
+          onCreate={handleCreateProject}
+          onRename={handleRenameProject}
+          onDuplicate={handleDuplicateProject}
+          onDelete={handleDeleteProject}
+          onImport={handleImportProject}
+        />
         
         <div className="space-y-8">
           <InputForm 
@@ -175,19 +450,36 @@ const App: React.FC = () => {
             editingId={state.editingId}
             loading={state.loading}
             weatherLoading={state.weatherLoading}
+            aiClimateFallback={state.aiClimateFallback}
+            onToggleAiClimateFallback={() => setState(prev => ({ ...prev, aiClimateFallback: !prev.aiClimateFallback }))}
+            advisorProviderId={state.advisorProviderId}
+            onAdvisorProviderChange={handleAdvisorProviderChange}
+            photoAnalysis={state.photoAnalysis}
+            photoAnalyzing={state.photoAnalyzing}
+            onAnalyzePhoto={handleAnalyzePhoto}
+            onPhotoSuggestionResolved={handlePhotoSuggestionResolved}
+            customNozzles={state.customNozzles}
+            onSaveCustomNozzles={handleSaveCustomNozzles}
+            getNozzleUsage={getNozzleUsage}
           />
 
           {state.error && (
-             <div className="p-4 bg-red-50 border-l-4 border-red-500 text-red-700 rounded-md flex items-center gap-3 animate-pulse">
-                <span className="text-sm font-medium">{state.error}</span>
+             <div className={`p-4 border-l-4 rounded-md flex items-start gap-3 ${ERROR_BANNER_STYLES[state.error.category || 'unknown']}`}>
+                <div className="text-sm">
+                  {state.error.category && <p className="font-bold">{ADVISOR_ERROR_TITLES[state.error.category]}</p>}
+                  <p className="font-medium">{state.error.category ? ADVISOR_ERROR_HINTS[state.error.category] : state.error.message}</p>
+                  {state.error.category && state.error.message && (
+                    <p className="text-xs opacity-75 mt-1 break-words">{state.error.message}</p>
+                  )}
+                </div>
              </div>
           )}
 
-          {state.result && <ResultDisplay data={state.result} />}
+          {state.result && <ResultDisplay data={state.result} restrictions={formData.restrictions} />}
           
           {/* Master Report (Cumulative) */}
           {state.savedZones.length > 0 && (
-             <MasterReport zones={state.savedZones} currentZone={state.result} />
+             <MasterReport zones={state.savedZones} restrictions={formData.restrictions} location={getProjectLocation(formData)} />
           )}
         </div>
         
@@ -0,0 +1,121 @@
+import React, { useState } from 'react';
+import { CatchCanAudit } from '../types';
+import { calculateCatchCanAudit, DEFAULT_CUP_DIAMETER_IN, DEFAULT_TEST_MINUTES, MIN_AUDIT_CUPS } from '../services/catchCanAudit';
+
+interface CatchCanAuditPanelProps {
+  audit?: CatchCanAudit;
+  onApply: (audit: CatchCanAudit) => void;
+  onClear: () => void;
+}
+
+const GRID_SIZES = [3, 4, 5, 6];
+
+export const CatchCanAuditPanel: React.FC<CatchCanAuditPanelProps> = ({ audit, onApply, onClear }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const [rows, setRows] = useState(4);
+  const [cols, setCols] = useState(4);
+  const [cupDiameter, setCupDiameter] = useState(String(audit?.cupDiameterIn || DEFAULT_CUP_DIAMETER_IN));
+  const [testMinutes, setTestMinutes] = useState(String(audit?.testMinutes || DEFAULT_TEST_MINUTES));
+  const [volumes, setVolumes] = useState<string[]>(() => audit ? audit.cupVolumesMl.map(String) : []);
+
+  const cupCount = rows * cols;
+  const filled = volumes.slice(0, cupCount).filter(v => v.trim() !== '').map(v => parseFloat(v));
+  const result = calculateCatchCanAudit(filled, parseFloat(cupDiameter), parseFloat(testMinutes));
+
+  const handleVolumeChange = (idx: number, value: string) => {
+    setVolumes(prev => {
+      const next = [...prev];
+      next[idx] = value;
+      return next;
+    });
+  };
+
+  const handleApply = () => {
+    if (!result) return;
+    onApply(result);
+    setIsOpen(false);
+  };
+
+  return (
+    <div className="md:col-span-2 bg-slate-50 rounded-lg border border-slate-200 p-3">
+      <div className="flex flex-wrap justify-between items-center gap-2">
+        <div className="text-sm">
+          {audit ? (
+            <span className="text-green-700">
+              <strong>Audited:</strong> {audit.measuredPrecipRate}"/hr &middot; DU(lq) {Math.round(audit.duLq * 100)}% &middot; SM {audit.schedulingMultiplier}x
+              <span className="text-[10px] text-slate-400 ml-2">{new Date(audit.auditedAt).toLocaleDateString()}</span>
+            </span>
+          ) : (
+            <span className="text-slate-500">Using catalog precipitation rate and efficiency.</span>
+          )}
+        </div>
+        <div className="flex gap-3">
+          {audit && (
+            <button onClick={onClear} className="text-xs font-semibold text-red-600 hover:underline">Remove audit</button>
+          )}
+          <button onClick={() => setIsOpen(!isOpen)} className="text-xs font-semibold text-brand-700 hover:underline">
+            {isOpen ? '▲ Close' : audit ? '▼ Re-run catch-can audit' : '▼ Catch-can audit'}
+          </button>
+        </div>
+      </div>
+
+      {isOpen && (
+        <div className="mt-3 pt-3 border-t border-slate-200">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-3">
+            <div>
+              <label className="block text-[10px] font-bold text-slate-500 uppercase mb-1">Rows</label>
+              <select value={rows} onChange={(e) => setRows(parseInt(e.target.value))} className="w-full px-2 py-1.5 rounded-lg border border-gray-300 text-sm outline-none">
+                {GRID_SIZES.map(n => <option key={n} value={n}>{n}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="block text-[10px] font-bold text-slate-500 uppercase mb-1">Columns</label>
+              <select value={cols} onChange={(e) => setCols(parseInt(e.target.value))} className="w-full px-2 py-1.5 rounded-lg border border-gray-300 text-sm outline-none">
+                {GRID_SIZES.map(n => <option key={n} value={n}>{n}</option>)}
+              </select>
+            </div>
+            <div>
+              <label className="block text-[10px] font-bold text-slate-500 uppercase mb-1">Cup Opening (in)</label>
+              <input type="number" step="0.1" value={cupDiameter} onChange={(e) => setCupDiameter(e.target.value)} className="w-full px-2 py-1.5 rounded-lg border border-gray-300 text-sm outline-none" />
+            </div>
+            <div>
+              <label className="block text-[10px] font-bold text-slate-500 uppercase mb-1">Test Run (min)</label>
+              <input type="number" value={testMinutes} onChange={(e) => setTestMinutes(e.target.value)} className="w-full px-2 py-1.5 rounded-lg border border-gray-300 text-sm outline-none" />
+            </div>
+          </div>
+
+          <p className="text-[10px] text-slate-400 mb-1">Catch volume per cup (mL), laid out as placed in the zone:</p>
+          <div className="grid gap-1 mb-3" style={{ gridTemplateColumns: `repeat(${cols}, minmax(0, 1fr))` }}>
+            {Array.from({ length: cupCount }, (_, idx) => (
+              <input
+                key={idx}
+                type="number"
+                value={volumes[idx] || ''}
+                placeholder={`#${idx + 1}`}
+                onChange={(e) => handleVolumeChange(idx, e.target.value)}
+                className="w-full px-2 py-1 rounded border border-gray-300 text-sm text-center outline-none focus:ring-2 focus:ring-brand-500"
+              />
+            ))}
+          </div>
+
+          {result ? (
+            <div className="flex flex-wrap justify-between items-center gap-2">
+              <span className="text-sm text-slate-700">
+                Net PR <strong>{result.measuredPrecipRate}"/hr</strong> &middot; DU(lq) <strong>{Math.round(result.duLq * 100)}%</strong> &middot; Scheduling multiplier <strong>{result.schedulingMultiplier}x</strong>
+              </span>
+              <button onClick={handleApply} className="text-xs px-3 py-1 rounded bg-brand-600 text-white font-semibold hover:bg-brand-700">
+                Apply to Zone
+              </button>
+            </div>
+          ) : (
+            <p className="text-xs text-slate-400">
+              {filled.length < MIN_AUDIT_CUPS
+                ? `Enter at least ${MIN_AUDIT_CUPS} cup volumes to calculate.`
+                : 'The driest quarter of cups caught no water, so DU(lq) cannot be measured. Fix coverage and re-test.'}
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
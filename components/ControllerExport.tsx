@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import { SavedZone, WateringRestrictions } from '../types';
+import { buildControllerProgram, getProgramRunMinutes, CONTROLLER_ADAPTERS } from '../services/controllerProgram';
+import { downloadTextFile } from '../services/download';
+import { checkNoWaterHours, getAllowedWeekdays, getUnmetRestrictionWarning } from '../services/wateringRestrictions';
+
+interface ControllerExportProps {
+  zones: SavedZone[];
+  restrictions?: WateringRestrictions;
+}
+
+const NEUTRAL_FORMAT = 'neutral';
+
+export const ControllerExport: React.FC<ControllerExportProps> = ({ zones, restrictions }) => {
+  const [startTime, setStartTime] = useState('04:00');
+  const [format, setFormat] = useState(NEUTRAL_FORMAT);
+
+  const baseProgram = buildControllerProgram(zones, { startTime, allowedDays: getAllowedWeekdays(restrictions) });
+  const restrictionWarnings = [
+    getUnmetRestrictionWarning(restrictions),
+    checkNoWaterHours(restrictions, startTime, getProgramRunMinutes(baseProgram))
+  ].filter(Boolean);
+  const program = restrictionWarnings.length > 0 ? { ...baseProgram, restrictionWarnings } : baseProgram;
+
+  const handleDownload = () => {
+    const adapter = CONTROLLER_ADAPTERS.find(a => a.id === format);
+    const payload = adapter ? adapter.toLayout(program) : program;
+    downloadTextFile(JSON.stringify(payload, null, 2), `controller-program-${format}.json`, 'application/json');
+  };
+
+  return (
+    <div className="p-6 border-t border-slate-200 print:break-inside-avoid">
+      <div className="flex flex-col md:flex-row md:justify-between md:items-end gap-4 mb-4">
+        <div>
+          <h3 className="text-lg font-bold text-slate-700">Controller Programming</h3>
+          <p className="text-xs text-slate-500">What will be programmed per station.</p>
+        </div>
+        <div className="flex items-end gap-3 print:hidden">
+          <div>
+            <label className="block text-[10px] font-bold text-slate-400 uppercase mb-1">First Start</label>
+            <input
+              type="time"
+              value={startTime}
+              onChange={(e) => setStartTime(e.target.value)}
+              className="px-2 py-1.5 rounded-lg border border-gray-300 text-sm outline-none focus:ring-2 focus:ring-brand-500"
+            />
+          </div>
+          <div>
+            <label className="block text-[10px] font-bold text-slate-400 uppercase mb-1">Format</label>
+            <select
+              value={format}
+              onChange={(e) => setFormat(e.target.value)}
+              className="px-2 py-1.5 rounded-lg border border-gray-300 text-sm outline-none focus:ring-2 focus:ring-brand-500"
+            >
+              <option value={NEUTRAL_FORMAT}>Neutral JSON</option>
+              {CONTROLLER_ADAPTERS.map(a => <option key={a.id} value={a.id}>{a.label}</option>)}
+            </select>
+          </div>
+          <button
+            onClick={handleDownload}
+            className="bg-slate-800 text-white px-4 py-2 rounded-lg font-semibold text-sm hover:bg-slate-700"
+          >
+            Download
+          </button>
+        </div>
+      </div>
+
+      {program.restrictionWarnings && (
+        <ul className="mb-4 p-3 bg-amber-50 border-l-4 border-amber-400 text-amber-800 rounded-md text-xs space-y-1">
+          {program.restrictionWarnings.map((w, idx) => <li key={idx}>{w}</li>)}
+        </ul>
+      )}
+
+      <div className="overflow-x-auto border border-slate-100 rounded-xl">
+        <table className="w-full text-sm text-left">
+          <thead className="bg-slate-50 text-slate-500 font-semibold uppercase text-xs border-b">
+            <tr>
+              <th className="px-4 py-2">Station</th>
+              <th className="px-4 py-2">Zone</th>
+              <th className="px-4 py-2">Days</th>
+              <th className="px-4 py-2">Start</th>
+              <th className="px-4 py-2">Run x Cycles</th>
+              <th className="px-4 py-2">Soak</th>
+              <th className="px-4 py-2">Daily Total</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {program.stations.map(s => (
+              <tr key={s.station} className="hover:bg-slate-50/50">
+                <td className="px-4 py-2 font-mono text-slate-500">{s.station}</td>
+                <td className="px-4 py-2 font-medium text-slate-800">{s.zoneName}</td>
+                <td className="px-4 py-2 text-slate-600">{s.wateringDays.join(' ')}</td>
+                <td className="px-4 py-2 text-slate-600">{s.startTime}</td>
+                <td className="px-4 py-2 text-brand-600 font-medium">{s.runMinutesPerCycle}m x {s.cycles}</td>
+                <td className="px-4 py-2 text-slate-600">{s.soakMinutes > 0 ? `${s.soakMinutes}m` : '-'}</td>
+                <td className="px-4 py-2 font-bold text-slate-700">{s.totalMinutesPerDay} m</td>
+              </tr>
+            ))}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
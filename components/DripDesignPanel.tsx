@@ -0,0 +1,150 @@
+import React from 'react';
+import { DripDesign, DripPlant, DripPlantResult, DripResult } from '../types';
+import { createDripPlant } from '../services/dripDesign';
+import { WATER_USE_FACTORS, PLANT_SPECIES, getPlantRegion, getSpeciesWaterUse } from '../services/plantDatabase';
+
+interface DripDesignPanelProps {
+  design?: DripDesign;
+  result?: DripResult;
+  zipCode: string;
+  onChange: (design: DripDesign) => void;
+}
+
+const EMPTY_DESIGN: DripDesign = { layout: 'emitters', plants: [] };
+
+const cellInput = "w-full px-2 py-1 rounded border border-gray-300 text-sm outline-none focus:ring-2 focus:ring-brand-500";
+const labelClass = "block text-[10px] font-bold text-slate-500 uppercase mb-1";
+
+export const DripDesignPanel: React.FC<DripDesignPanelProps> = ({ design = EMPTY_DESIGN, result, zipCode, onChange }) => {
+  const resultsById = new Map<string, DripPlantResult>((result?.plants || []).map(p => [p.id, p]));
+
+  const region = getPlantRegion(zipCode);
+
+  // Picking a known species fills in its regional water use class
+  const handleNameChange = (id: string, name: string) => {
+    const species = PLANT_SPECIES.find(s => s.commonName.toLowerCase() === name.trim().toLowerCase());
+    updatePlant(id, species ? { name, waterUse: getSpeciesWaterUse(species, region) } : { name });
+  };
+
+  const update = (changes: Partial<DripDesign>) => onChange({ ...design, ...changes });
+  const updatePlant = (id: string, changes: Partial<DripPlant>) =>
+    update({ plants: design.plants.map(p => p.id === id ? { ...p, ...changes } : p) });
+
+  const layoutButton = (layout: DripDesign['layout'], label: string) => (
+    <button
+      onClick={() => update({ layout })}
+      className={`text-xs px-3 py-1 rounded font-semibold ${design.layout === layout ? 'bg-brand-600 text-white' : 'border border-gray-300 text-slate-600 hover:bg-slate-50'}`}
+    >
+      {label}
+    </button>
+  );
+
+  return (
+    <div className="md:col-span-2 bg-slate-50 rounded-lg border border-slate-200 p-3">
+      <div className="flex flex-wrap justify-between items-center gap-2 mb-2">
+        <div>
+          <h4 className="text-sm font-semibold text-gray-700">Drip Design</h4>
+          <p className="text-[10px] text-gray-500">Sizes the run time from plant water use. Overrides the nozzle below.</p>
+        </div>
+        <div className="flex gap-2">
+          {layoutButton('emitters', 'Emitters per plant')}
+          {layoutButton('dripline', 'Inline dripline')}
+        </div>
+      </div>
+
+      {design.layout === 'emitters' ? (
+        <>
+          {design.plants.length > 0 && (
+            <table className="w-full text-sm">
+              <thead className="text-[10px] text-slate-400 uppercase">
+                <tr>
+                  <th className="text-left font-bold pb-1">Plant</th>
+                  <th className="text-left font-bold pb-1 w-14">Count</th>
+                  <th className="text-left font-bold pb-1 w-16">Canopy (ft)</th>
+                  <th className="text-left font-bold pb-1 w-24">Water Use</th>
+                  <th className="text-left font-bold pb-1 w-16">GPH</th>
+                  <th className="text-left font-bold pb-1 w-16">Emitters</th>
+                  <th className="text-right font-bold pb-1 w-28">Gal / Hrs (wk)</th>
+                  <th className="w-6"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {design.plants.map(p => {
+                  const plantResult = resultsById.get(p.id);
+                  return (
+                    <tr key={p.id}>
+                      <td className="pr-2 pb-1">
+                        <input list="drip-species" placeholder="e.g. English Lavender" value={p.name || ''} onChange={(e) => handleNameChange(p.id, e.target.value)} className={cellInput} />
+                      </td>
+                      <td className="pr-2 pb-1">
+                        <input type="number" min="1" value={p.count || ''} onChange={(e) => updatePlant(p.id, { count: parseInt(e.target.value) || 0 })} className={cellInput} />
+                      </td>
+                      <td className="pr-2 pb-1">
+                        <input type="number" step="0.5" value={p.canopyDiameterFt || ''} onChange={(e) => updatePlant(p.id, { canopyDiameterFt: parseFloat(e.target.value) || 0 })} className={cellInput} />
+                      </td>
+                      <td className="pr-2 pb-1">
+                        <select value={p.waterUse} onChange={(e) => updatePlant(p.id, { waterUse: e.target.value })} className={cellInput}>
+                          {Object.keys(WATER_USE_FACTORS).map(w => <option key={w} value={w}>{w}</option>)}
+                        </select>
+                      </td>
+                      <td className="pr-2 pb-1">
+                        <input type="number" step="0.5" value={p.emitterGph || ''} onChange={(e) => updatePlant(p.id, { emitterGph: parseFloat(e.target.value) || 0 })} className={cellInput} />
+                      </td>
+                      <td className="pr-2 pb-1">
+                        <input type="number" min="1" value={p.emittersPerPlant || ''} onChange={(e) => updatePlant(p.id, { emittersPerPlant: parseInt(e.target.value) || 0 })} className={cellInput} />
+                      </td>
+                      <td className="pb-1 text-right text-xs text-slate-500">
+                        {plantResult ? `${plantResult.gallonsPerPlantWeek} / ${plantResult.runHoursPerWeek}` : '-'}
+                        {plantResult && plantResult.suggestedEmitters !== p.emittersPerPlant && (
+                          <span className="block text-[10px] text-amber-600">Try {plantResult.suggestedEmitters} emitters</span>
+                        )}
+                      </td>
+                      <td className="pb-1 text-right">
+                        <button onClick={() => update({ plants: design.plants.filter(g => g.id !== p.id) })} className="text-xs text-slate-400 hover:text-red-600 px-1">✕</button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          )}
+          <datalist id="drip-species">
+            {PLANT_SPECIES.filter(s => s.type !== 'Turf').map(s => <option key={s.id} value={s.commonName}>{s.botanicalName}</option>)}
+          </datalist>
+          <button onClick={() => update({ plants: [...design.plants, createDripPlant()] })} className="text-xs font-semibold text-brand-700 hover:underline">
+            + Add plants
+          </button>
+        </>
+      ) : (
+        <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+          <div>
+            <label className={labelClass}>Emitter Flow (GPH)</label>
+            <input type="number" step="0.1" placeholder="e.g. 0.6" value={design.driplineGph || ''} onChange={(e) => update({ driplineGph: e.target.value })} className={cellInput} />
+          </div>
+          <div>
+            <label className={labelClass}>Emitter Spacing (in)</label>
+            <input type="number" placeholder="e.g. 12" value={design.emitterSpacingIn || ''} onChange={(e) => update({ emitterSpacingIn: e.target.value })} className={cellInput} />
+          </div>
+          <div>
+            <label className={labelClass}>Row Spacing (in)</label>
+            <input type="number" placeholder="e.g. 18" value={design.rowSpacingIn || ''} onChange={(e) => update({ rowSpacingIn: e.target.value })} className={cellInput} />
+          </div>
+          <div>
+            <label className={labelClass}>Water Use</label>
+            <select value={design.driplineWaterUse || 'Moderate'} onChange={(e) => update({ driplineWaterUse: e.target.value })} className={cellInput}>
+              {Object.keys(WATER_USE_FACTORS).map(w => <option key={w} value={w}>{w}</option>)}
+            </select>
+          </div>
+          <p className="col-span-2 md:col-span-4 text-[10px] text-slate-400">Covers the Zone Area entered above.</p>
+        </div>
+      )}
+
+      {result && (
+        <div className="mt-2 pt-2 border-t border-slate-200 text-xs text-slate-600">
+          <strong>{result.totalGph} GPH</strong> &middot; Run <strong>{result.runHoursPerWeek} hrs/week</strong> &middot; {result.gallonsPerWeek.toLocaleString()} gal/week
+          {result.warning && <p className="mt-1 text-amber-700">{result.warning}</p>}
+        </div>
+      )}
+    </div>
+  );
+};
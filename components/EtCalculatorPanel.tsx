@@ -0,0 +1,134 @@
+import React, { useState } from 'react';
+import { calculateReferenceEt, EtInputs, EtIntermediates, getDayOfYear } from '../services/etCalculator';
+import { MONTHS, getClimateStation } from '../services/climateProvider';
+
+interface EtCalculatorPanelProps {
+  zipCode: string;
+  month: string;
+  onApply: (weeklyInches: number, label: string) => void;
+}
+
+const INTERMEDIATE_LABELS: Record<keyof EtIntermediates, string> = {
+  tMeanC: 'T mean (°C)',
+  ra: 'Ra (MJ/m²/d)',
+  pressure: 'P (kPa)',
+  gamma: 'γ (kPa/°C)',
+  delta: 'Δ (kPa/°C)',
+  es: 'es (kPa)',
+  ea: 'ea (kPa)',
+  u2: 'u₂ (m/s)',
+  rso: 'Rso (MJ/m²/d)',
+  rns: 'Rns (MJ/m²/d)',
+  rnl: 'Rnl (MJ/m²/d)',
+  rn: 'Rn (MJ/m²/d)'
+};
+
+const parseOptional = (value: string) => value.trim() === '' ? undefined : parseFloat(value);
+
+export const EtCalculatorPanel: React.FC<EtCalculatorPanelProps> = ({ zipCode, month, onApply }) => {
+  const station = getClimateStation(zipCode);
+  const monthIdx = MONTHS.indexOf(month);
+  // Mid-month is representative for monthly planning
+  const defaultDate = monthIdx >= 0 ? new Date(new Date().getFullYear(), monthIdx, 15) : new Date();
+
+  const [isOpen, setIsOpen] = useState(false);
+  const [values, setValues] = useState<Record<string, string>>({
+    tMaxF: '',
+    tMinF: '',
+    latitude: station ? String(station.latitude) : '',
+    elevationFt: station ? String(station.elevationFt) : '',
+    dayOfYear: String(getDayOfYear(defaultDate)),
+    rhMax: '',
+    rhMin: '',
+    windMph: '',
+    solarRadiation: ''
+  });
+
+  const handleChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const { name, value } = e.target;
+    setValues(prev => ({ ...prev, [name]: value }));
+  };
+
+  const inputs: EtInputs = {
+    tMaxF: parseFloat(values.tMaxF),
+    tMinF: parseFloat(values.tMinF),
+    latitude: parseFloat(values.latitude),
+    dayOfYear: parseInt(values.dayOfYear),
+    elevationFt: parseOptional(values.elevationFt),
+    rhMax: parseOptional(values.rhMax),
+    rhMin: parseOptional(values.rhMin),
+    windMph: parseOptional(values.windMph),
+    solarRadiation: parseOptional(values.solarRadiation)
+  };
+  const isReady = [inputs.tMaxF, inputs.tMinF, inputs.latitude, inputs.dayOfYear].every(v => !isNaN(v)) && inputs.tMaxF >= inputs.tMinF;
+  const result = isReady ? calculateReferenceEt(inputs) : null;
+  const methodLabel = result?.method === 'penman-monteith' ? 'FAO-56 Penman-Monteith' : 'Hargreaves';
+
+  const field = (name: string, label: string, placeholder = '') => (
+    <div>
+      <label className="block text-[10px] font-bold text-slate-500 uppercase mb-1">{label}</label>
+      <input
+        type="number"
+        name={name}
+        value={values[name]}
+        placeholder={placeholder}
+        onChange={handleChange}
+        className="w-full px-2 py-1.5 rounded-lg border border-gray-300 text-sm focus:ring-2 focus:ring-brand-500 outline-none"
+      />
+    </div>
+  );
+
+  return (
+    <div className="mt-3">
+      <button
+        onClick={() => setIsOpen(!isOpen)}
+        className="text-xs font-semibold text-blue-700 hover:text-blue-900 hover:underline"
+      >
+        {isOpen ? '▲ Hide ET calculator' : '▼ Calculate ET from weather data'}
+      </button>
+
+      {isOpen && (
+        <div className="mt-2 p-3 bg-white rounded-lg border border-blue-100">
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+            {field('tMaxF', 'T Max (°F)')}
+            {field('tMinF', 'T Min (°F)')}
+            {field('latitude', 'Latitude')}
+            {field('dayOfYear', 'Day of Year')}
+            {field('elevationFt', 'Elevation (ft)')}
+          </div>
+          <p className="text-[10px] text-slate-400 mt-2 mb-1">Optional station data (all required for Penman-Monteith):</p>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+            {field('rhMax', 'RH Max (%)')}
+            {field('rhMin', 'RH Min (%)')}
+            {field('windMph', 'Wind @2m (mph)')}
+            {field('solarRadiation', 'Solar (MJ/m²/d)')}
+          </div>
+
+          {result && (
+            <div className="mt-3 pt-3 border-t border-slate-100">
+              <div className="flex flex-wrap justify-between items-center gap-2 mb-2">
+                <span className="text-sm text-slate-700">
+                  <strong>{methodLabel}:</strong> {result.etoInPerDay}"/day ({result.etoMmPerDay} mm) = <strong>{result.weeklyInches}"/week</strong>
+                </span>
+                <button
+                  onClick={() => onApply(result.weeklyInches, `Calculated: ${methodLabel}`)}
+                  className="text-xs px-3 py-1 rounded bg-brand-600 text-white font-semibold hover:bg-brand-700"
+                >
+                  Use as Weekly ET
+                </button>
+              </div>
+              <div className="grid grid-cols-3 md:grid-cols-6 gap-2 text-[10px]">
+                {(Object.keys(result.intermediates) as (keyof EtIntermediates)[]).map(key => (
+                  <div key={key} className="bg-slate-50 rounded px-2 py-1">
+                    <span className="block text-slate-400">{INTERMEDIATE_LABELS[key]}</span>
+                    <span className="font-mono text-slate-700">{result.intermediates[key]}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,116 @@
+import React from 'react';
+import { HeadGroup, NozzleProduct } from '../types';
+import { BUILT_IN_NOZZLES, getNozzle } from '../services/nozzleLibrary';
+import { createHeadGroupId, summarizeHeadInventory, DEFAULT_ARCS } from '../services/headInventory';
+
+interface HeadInventoryEditorProps {
+  heads: HeadGroup[];
+  pressure: number | '';
+  defaultNozzleId: string;
+  customNozzles: NozzleProduct[];
+  onChange: (heads: HeadGroup[]) => void;
+}
+
+export const HeadInventoryEditor: React.FC<HeadInventoryEditorProps> = ({ heads, pressure, defaultNozzleId, customNozzles, onChange }) => {
+  const summary = summarizeHeadInventory(heads, pressure);
+  const resultsById = new Map((summary?.groups || []).map(g => [g.group.id, g]));
+
+  const updateGroup = (id: string, changes: Partial<HeadGroup>) => {
+    onChange(heads.map(h => h.id === id ? { ...h, ...changes } : h));
+  };
+
+  const handleAdd = () => {
+    const nozzle = getNozzle(defaultNozzleId);
+    onChange([...heads, {
+      id: createHeadGroupId(),
+      count: 1,
+      nozzleId: nozzle ? nozzle.id : '',
+      arc: nozzle?.arcOptions?.[0] || 180,
+      radiusFt: nozzle?.radiusOptionsFt?.[0] || 12
+    }]);
+  };
+
+  const cellInput = "w-full px-2 py-1 rounded border border-gray-300 text-sm outline-none focus:ring-2 focus:ring-brand-500";
+
+  return (
+    <div className="md:col-span-2 bg-slate-50 rounded-lg border border-slate-200 p-3">
+      <div className="flex justify-between items-center mb-2">
+        <div>
+          <h4 className="text-sm font-semibold text-gray-700">Head Inventory</h4>
+          <p className="text-[10px] text-gray-500">For valves with mixed nozzles or arcs. Overrides the single nozzle above.</p>
+        </div>
+        <button onClick={handleAdd} className="text-xs font-semibold text-brand-700 hover:underline">+ Add heads</button>
+      </div>
+
+      {heads.length > 0 && (
+        <table className="w-full text-sm">
+          <thead className="text-[10px] text-slate-400 uppercase">
+            <tr>
+              <th className="text-left font-bold pb-1 w-16">Count</th>
+              <th className="text-left font-bold pb-1">Nozzle</th>
+              <th className="text-left font-bold pb-1 w-20">Arc</th>
+              <th className="text-left font-bold pb-1 w-20">Radius (ft)</th>
+              <th className="text-right font-bold pb-1 w-24">PR / GPM</th>
+              <th className="w-6"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {heads.map(h => {
+              const nozzle = getNozzle(h.nozzleId);
+              const arcs = nozzle?.arcOptions?.length ? nozzle.arcOptions : DEFAULT_ARCS;
+              const result = resultsById.get(h.id);
+              return (
+                <tr key={h.id}>
+                  <td className="pr-2 pb-1">
+                    <input type="number" min="1" value={h.count || ''} onChange={(e) => updateGroup(h.id, { count: parseInt(e.target.value) || 0 })} className={cellInput} />
+                  </td>
+                  <td className="pr-2 pb-1">
+                    <select value={h.nozzleId} onChange={(e) => updateGroup(h.id, { nozzleId: e.target.value })} className={cellInput}>
+                      <option value="">Select...</option>
+                      {BUILT_IN_NOZZLES.map(n => <option key={n.id} value={n.id}>{n.label}</option>)}
+                      {customNozzles.map(n => <option key={n.id} value={n.id}>{n.manufacturer ? `${n.manufacturer} ${n.label}` : n.label}</option>)}
+                    </select>
+                  </td>
+                  <td className="pr-2 pb-1">
+                    <select value={h.arc} onChange={(e) => updateGroup(h.id, { arc: parseInt(e.target.value) })} className={cellInput}>
+                      {Array.from(new Set([...arcs, h.arc])).sort((a, b) => a - b).map(a => <option key={a} value={a}>{a}°</option>)}
+                    </select>
+                  </td>
+                  <td className="pr-2 pb-1">
+                    <input
+                      type="number"
+                      list={nozzle?.radiusOptionsFt ? `radius-${h.id}` : undefined}
+                      value={h.radiusFt || ''}
+                      onChange={(e) => updateGroup(h.id, { radiusFt: parseFloat(e.target.value) || 0 })}
+                      className={cellInput}
+                    />
+                    {nozzle?.radiusOptionsFt && (
+                      <datalist id={`radius-${h.id}`}>
+                        {nozzle.radiusOptionsFt.map(r => <option key={r} value={r} />)}
+                      </datalist>
+                    )}
+                  </td>
+                  <td className="pb-1 text-right text-xs text-slate-500">
+                    {result ? `${result.precipRate}" · ${result.gpmPerHead}` : '-'}
+                  </td>
+                  <td className="pb-1 text-right">
+                    <button onClick={() => onChange(heads.filter(g => g.id !== h.id))} className="text-xs text-slate-400 hover:text-red-600 px-1">✕</button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+
+      {summary && (
+        <div className="mt-2 pt-2 border-t border-slate-200 text-xs text-slate-600">
+          <strong>{summary.headCount} heads</strong> &middot; Weighted PR <strong>{summary.precipRate}"/hr</strong> &middot; Total <strong>{summary.totalGpm} GPM</strong> &middot; Wetted {summary.wettedAreaSqFt.toLocaleString()} sq ft
+          {summary.mismatchWarning && (
+            <p className="mt-1 text-amber-700"><strong>Mismatched precipitation:</strong> {summary.mismatchWarning}</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,133 @@
+import React, { useState } from 'react';
+import { SupplyHydraulics, ZoneHydraulics, HydraulicCheck, PipeRun } from '../types';
+import { PIPE_MATERIALS, METER_DATA, DEFAULT_VALVE_LOSS_PSI, MAX_PIPE_VELOCITY } from '../services/hydraulics';
+
+interface HydraulicsPanelProps {
+  supply?: SupplyHydraulics;
+  zoneHydraulics?: ZoneHydraulics;
+  check?: HydraulicCheck;
+  needsArea?: boolean; // Pipe runs are entered but there is no zone area to estimate flow from
+  onSupplyChange: (supply: SupplyHydraulics) => void;
+  onZoneChange: (zoneHydraulics: ZoneHydraulics | undefined) => void;
+}
+
+const EMPTY_RUN: PipeRun = { material: 'PVC Sch 40', size: '', lengthFt: '' };
+const EMPTY_SUPPLY: SupplyHydraulics = { meterSize: '3/4"', mainline: { ...EMPTY_RUN } };
+const EMPTY_ZONE: ZoneHydraulics = { lateral: { ...EMPTY_RUN } };
+
+const inputClass = "w-full px-2 py-1.5 rounded-lg border border-gray-300 text-sm outline-none focus:ring-2 focus:ring-brand-500";
+const labelClass = "block text-[10px] font-bold text-slate-500 uppercase mb-1";
+
+const PipeRunInputs: React.FC<{ title: string; run: PipeRun; onChange: (run: PipeRun) => void }> = ({ title, run, onChange }) => {
+  const sizes = Object.keys(PIPE_MATERIALS[run.material]?.insideDiameters || {});
+  return (
+    <>
+      <div>
+        <label className={labelClass}>{title} Pipe</label>
+        <select value={run.material} onChange={(e) => onChange({ ...run, material: e.target.value, size: '' })} className={inputClass}>
+          {Object.entries(PIPE_MATERIALS).map(([key, m]) => <option key={key} value={key}>{m.label}</option>)}
+        </select>
+      </div>
+      <div>
+        <label className={labelClass}>Size (in)</label>
+        <select value={run.size} onChange={(e) => onChange({ ...run, size: e.target.value })} className={inputClass}>
+          <option value="">Select...</option>
+          {sizes.map(s => <option key={s} value={s}>{s}"</option>)}
+        </select>
+      </div>
+      <div>
+        <label className={labelClass}>Length (ft)</label>
+        <input type="number" value={run.lengthFt} onChange={(e) => onChange({ ...run, lengthFt: e.target.value })} className={inputClass} />
+      </div>
+    </>
+  );
+};
+
+export const HydraulicsPanel: React.FC<HydraulicsPanelProps> = ({ supply, zoneHydraulics, check, needsArea, onSupplyChange, onZoneChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const currentSupply = supply || EMPTY_SUPPLY;
+  const currentZone = zoneHydraulics || EMPTY_ZONE;
+
+  const updateZone = (changes: Partial<ZoneHydraulics>) => onZoneChange({ ...currentZone, ...changes });
+
+  return (
+    <div className="md:col-span-2 bg-slate-50 rounded-lg border border-slate-200 p-3">
+      <div className="flex flex-wrap justify-between items-center gap-2">
+        <div className="text-sm">
+          {check ? (
+            <span className={check.warnings.length > 0 ? 'text-amber-700' : 'text-green-700'}>
+              <strong>Hydraulics:</strong> {check.flowGpm} GPM &middot; {check.headPsi} PSI at heads ({check.staticPsi} static)
+            </span>
+          ) : needsArea ? (
+            <span className="text-amber-700"><strong>Hydraulics:</strong> zone area needed to estimate flow and friction loss</span>
+          ) : (
+            <span className="text-slate-500">Nozzles assumed to see the full static pressure.</span>
+          )}
+        </div>
+        <div className="flex gap-3">
+          {zoneHydraulics && (
+            <button onClick={() => onZoneChange(undefined)} className="text-xs font-semibold text-red-600 hover:underline">Clear zone piping</button>
+          )}
+          <button onClick={() => setIsOpen(!isOpen)} className="text-xs font-semibold text-brand-700 hover:underline">
+            {isOpen ? '▲ Close' : '▼ Hydraulic check'}
+          </button>
+        </div>
+      </div>
+
+      {isOpen && (
+        <div className="mt-3 pt-3 border-t border-slate-200">
+          <p className="text-[10px] text-slate-400 mb-2">Supply (shared by every zone in the project)</p>
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-3 mb-3">
+            <div>
+              <label className={labelClass}>Meter</label>
+              <select value={currentSupply.meterSize} onChange={(e) => onSupplyChange({ ...currentSupply, meterSize: e.target.value })} className={inputClass}>
+                {Object.keys(METER_DATA).map(m => <option key={m} value={m}>{m}</option>)}
+                <option value="None">None (unmetered)</option>
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Backflow Loss (PSI)</label>
+              <input type="number" placeholder="e.g. 8" value={currentSupply.backflowLossPsi || ''} onChange={(e) => onSupplyChange({ ...currentSupply, backflowLossPsi: e.target.value })} className={inputClass} />
+            </div>
+            <PipeRunInputs title="Mainline" run={currentSupply.mainline} onChange={(mainline) => onSupplyChange({ ...currentSupply, mainline })} />
+          </div>
+
+          <p className="text-[10px] text-slate-400 mb-2">This zone (valve to the farthest head)</p>
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-3 mb-3">
+            <PipeRunInputs title="Lateral" run={currentZone.lateral} onChange={(lateral) => updateZone({ lateral })} />
+            <div>
+              <label className={labelClass}>Elevation Rise (ft)</label>
+              <input type="number" placeholder="0" value={currentZone.elevationChangeFt || ''} onChange={(e) => updateZone({ elevationChangeFt: e.target.value })} className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass}>Valve Loss (PSI)</label>
+              <input type="number" placeholder={String(DEFAULT_VALVE_LOSS_PSI)} value={currentZone.valveLossPsi || ''} onChange={(e) => updateZone({ valveLossPsi: e.target.value })} className={inputClass} />
+            </div>
+          </div>
+
+          {check ? (
+            <div className="text-sm text-slate-700">
+              <table className="w-full text-sm mb-2">
+                <tbody>
+                  <tr className="text-slate-500"><td>Static pressure</td><td className="text-right">{check.staticPsi} PSI</td></tr>
+                  {check.losses.map(l => (
+                    <tr key={l.label}><td>{l.label}</td><td className="text-right">{l.psi > 0 ? '-' : '+'}{Math.abs(l.psi)} PSI</td></tr>
+                  ))}
+                  <tr className="font-semibold border-t border-slate-200"><td>At the heads</td><td className="text-right">{check.headPsi} PSI</td></tr>
+                </tbody>
+              </table>
+              <p className="text-xs text-slate-500">
+                Velocity: mainline {check.mainlineVelocity} ft/s &middot; lateral {check.lateralVelocity} ft/s (keep under {MAX_PIPE_VELOCITY})
+              </p>
+              {check.warnings.map(w => <p key={w} className="mt-1 text-xs text-amber-700">{w}</p>)}
+            </div>
+          ) : needsArea ? (
+            <p className="text-xs text-amber-700">Enter the zone area (or a head inventory) so flow, and with it friction loss, can be estimated.</p>
+          ) : (
+            <p className="text-xs text-slate-400">Enter a static pressure and a lateral pipe size to run the check.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -1,6 +1,22 @@
 
 import React, { useRef, useState, useEffect } from 'react';
-import { PlantFormData, LiveCalculation, SavedZone } from '../types';
+import { PlantFormData, LiveCalculation, SavedZone, NozzleProduct, AdvisorProviderId, PhotoAnalysis, PhotoSuggestion } from '../types';
+import { MAD_FACTORS, calculateZone, hasRequiredZoneInputs } from '../services/zoneCalculator';
+import { BUILT_IN_NOZZLES, getNozzle, getNozzlePerformance } from '../services/nozzleLibrary';
+import { MAX_CYCLES_PER_DAY, getMaxDaysPerWeek } from '../services/wateringRestrictions';
+import { RestrictionsEditor } from './RestrictionsEditor';
+import { EtCalculatorPanel } from './EtCalculatorPanel';
+import { CatchCanAuditPanel } from './CatchCanAuditPanel';
+import { NozzleLibraryEditor } from './NozzleLibraryEditor';
+import { HeadInventoryEditor } from './HeadInventoryEditor';
+import { HydraulicsPanel } from './HydraulicsPanel';
+import { DripDesignPanel } from './DripDesignPanel';
+import { SpeciesPicker } from './SpeciesPicker';
+import { RateScheduleEditor } from './RateScheduleEditor';
+import { PhotoAnalysisPanel } from './PhotoAnalysisPanel';
+import { describeZoneNozzles } from '../services/headInventory';
+import { MONTHS } from '../services/climateProvider';
+import { ADVISOR_PROVIDERS, getAdvisorProvider } from '../services/advisorProvider';
 
 interface InputFormProps {
   formData: PlantFormData;
@@ -13,52 +29,20 @@ interface InputFormProps {
   editingId: string | null;
   loading: boolean;
   weatherLoading: boolean;
+  aiClimateFallback: boolean;
+  onToggleAiClimateFallback: () => void;
+  advisorProviderId: AdvisorProviderId;
+  onAdvisorProviderChange: (id: AdvisorProviderId) => void;
+  photoAnalysis: PhotoAnalysis | null;
+  photoAnalyzing: boolean;
+  onAnalyzePhoto: () => void;
+  onPhotoSuggestionResolved: (suggestion: PhotoSuggestion) => void; // Accepted or rejected; either way it leaves the list
+  customNozzles: NozzleProduct[];
+  onSaveCustomNozzles: (nozzles: NozzleProduct[]) => void;
+  getNozzleUsage: (nozzleId: string) => string[];
   onResetZone?: () => void;
 }
 
-// Precise Precipitation Rates (in/hr), Optimal Pressure, and Application Efficiency (DU)
-const NOZZLE_DATA: Record<string, { rate: number, label: string, optimalPsi: number, efficiency: number }> = {
-  "Fixed Spray (Generic)": { rate: 1.5, label: "Fixed Spray (Generic)", optimalPsi: 30, efficiency: 0.70 },
-  "Rainbird 1800 / HE-VAN": { rate: 1.6, label: "Rainbird 1800 / HE-VAN", optimalPsi: 30, efficiency: 0.75 },
-  "Hunter Pro-Spray": { rate: 1.5, label: "Hunter Pro-Spray", optimalPsi: 30, efficiency: 0.75 },
-  "Hunter MP Rotator (Standard)": { rate: 0.4, label: "Hunter MP Rotator (Standard)", optimalPsi: 40, efficiency: 0.80 },
-  "Hunter MP Rotator (MP800 SR)": { rate: 0.8, label: "Hunter MP Rotator (MP800 SR)", optimalPsi: 40, efficiency: 0.80 },
-  "Rainbird R-VAN": { rate: 0.6, label: "Rainbird R-VAN", optimalPsi: 45, efficiency: 0.75 },
-  "Rotor (Gear Drive - PGP/5000)": { rate: 0.5, label: "Rotor (Gear Drive - PGP/5000)", optimalPsi: 45, efficiency: 0.80 },
-  "Rotor (Low Angle)": { rate: 0.75, label: "Rotor (Low Angle)", optimalPsi: 45, efficiency: 0.80 },
-  "Drip Line (0.9 GPH - 12in Spacing)": { rate: 0.8, label: "Drip Line (0.9 GPH @ 12in)", optimalPsi: 30, efficiency: 0.90 },
-  "Drip Line (0.6 GPH - 12in Spacing)": { rate: 0.5, label: "Drip Line (0.6 GPH @ 12in)", optimalPsi: 30, efficiency: 0.90 },
-  "Drip Line (0.4 GPH - 12in Spacing)": { rate: 0.35, label: "Drip Line (0.4 GPH @ 12in)", optimalPsi: 30, efficiency: 0.90 },
-  "Bubbler (Flood)": { rate: 12.0, label: "Bubbler (High Flow)", optimalPsi: 30, efficiency: 0.85 }, 
-};
-
-const SOIL_RATES: Record<string, number> = {
-  "Sand": 2.0, "Loamy Sand": 1.5, "Sandy Loam": 0.8,
-  "Loam": 0.5, "Clay Loam": 0.25, "Silty Clay": 0.15, "Clay": 0.1,
-};
-
-const SOIL_SOAK_TIMES: Record<string, number> = {
-  "Sand": 0, "Loamy Sand": 0, "Sandy Loam": 15,
-  "Loam": 30, "Clay Loam": 45, "Silty Clay": 60, "Clay": 60,
-};
-
-const SLOPE_FACTORS: Record<string, number> = {
-  "0-15%": 1.0, "15-30%": 0.7, "30-45%": 0.5, ">45%": 0.3,
-};
-
-const ZONE_FACTORS: Record<string, number> = {
-  "Cool Season Turf Grass": 0.95,
-  "Warm Season Turf Grass": 0.7,
-  "All Plants": 0.5,
-  "Trees": 0.6,
-  "Perennials": 0.5,
-  "Drip": 0.5
-};
-
-const SUNLIGHT_FACTORS: Record<string, number> = {
-  "Direct Sun": 1.0, "Partial Sun": 0.9, "Shade": 0.8
-};
-
 export const InputForm: React.FC<InputFormProps> = ({
   formData,
   setFormData,
@@ -69,24 +53,42 @@ export const InputForm: React.FC<InputFormProps> = ({
   savedZones,
   editingId,
   loading,
-  weatherLoading
+  weatherLoading,
+  aiClimateFallback,
+  onToggleAiClimateFallback,
+  advisorProviderId,
+  onAdvisorProviderChange,
+  photoAnalysis,
+  photoAnalyzing,
+  onAnalyzePhoto,
+  onPhotoSuggestionResolved,
+  customNozzles,
+  onSaveCustomNozzles,
+  getNozzleUsage
 }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
   const [liveCalc, setLiveCalc] = useState<LiveCalculation | null>(null);
   const [manualCycles, setManualCycles] = useState<number | null>(null);
+  const [showNozzleLibrary, setShowNozzleLibrary] = useState(false);
 
   const handleChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement>) => {
-    const { name, value } = e.target;
-    
+    applyFieldChange(e.target.name, e.target.value);
+  };
+
+  const applyFieldChange = (name: string, value: string) => {
     if (name === 'nozzleType') {
       // Auto-set efficiency when nozzle changes
-      const nozzle = NOZZLE_DATA[value];
+      const nozzle = getNozzle(value);
       setFormData(prev => ({ 
         ...prev, 
         [name]: value,
-        efficiency: nozzle ? (nozzle.efficiency * 100).toString() : prev.efficiency
+        efficiency: nozzle ? (nozzle.efficiency * 100).toString() : prev.efficiency,
+        audit: undefined // An audit only holds for the heads it measured
       }));
       setManualCycles(null);
+    } else if (name === 'estWeeklyEt' || name === 'estWeeklyRain') {
+      // Hand-edited climate values no longer match the fetched source
+      setFormData(prev => ({ ...prev, [name]: value, climateSource: { provider: 'manual', label: 'Manual entry' } }));
     } else {
       setFormData(prev => ({ ...prev, [name]: value }));
       if (name === 'soilType' || name === 'slope') {
@@ -95,6 +97,15 @@ export const InputForm: React.FC<InputFormProps> = ({
     }
   };
 
+  const handleAcceptSuggestion = (suggestion: PhotoSuggestion) => {
+    if (suggestion.field === 'species') {
+      setFormData(prev => ({ ...prev, species: [...(prev.species || []), { speciesId: suggestion.value, sharePercent: 0 }] }));
+    } else {
+      applyFieldChange(suggestion.field, suggestion.value);
+    }
+    onPhotoSuggestionResolved(suggestion);
+  };
+
   const handleNextZone = () => {
     if (liveCalc) {
       onSaveAndNext(liveCalc);
@@ -104,131 +115,17 @@ export const InputForm: React.FC<InputFormProps> = ({
   const handleCycleChange = (increment: number) => {
     if (!liveCalc) return;
     const current = manualCycles !== null ? manualCycles : liveCalc.cyclesPerDay;
-    const newValue = Math.max(1, Math.min(10, current + increment));
+    const newValue = Math.max(1, Math.min(MAX_CYCLES_PER_DAY, current + increment));
     setManualCycles(newValue);
   };
 
   useEffect(() => {
-    if (formData.nozzleType && formData.soilType && formData.slope && formData.zoneType) {
-      const nozzle = NOZZLE_DATA[formData.nozzleType];
-      const soilInfiltration = SOIL_RATES[formData.soilType] || 0.5;
-      const slopeFactor = SLOPE_FACTORS[formData.slope] || 1.0;
-      const sunFactor = SUNLIGHT_FACTORS[formData.sunlight] || 1.0;
-      
-      // Use User Efficiency if provided, else Nozzle Default, else 0.75
-      const efficiencyInput = parseFloat(formData.efficiency || '');
-      const efficiency = !isNaN(efficiencyInput) ? efficiencyInput / 100 : (nozzle.efficiency || 0.75);
-      
-      let precipRate = nozzle.rate;
-      if (formData.pressure) {
-        const actualPsi = Number(formData.pressure);
-        const optimalPsi = nozzle.optimalPsi;
-        if (actualPsi > 0) {
-          const pressureMultiplier = Math.sqrt(actualPsi / optimalPsi);
-          const clampedMultiplier = Math.min(Math.max(pressureMultiplier, 0.5), 1.5);
-          precipRate = parseFloat((nozzle.rate * clampedMultiplier).toFixed(2));
-        }
-      }
-      
-      const userEt = parseFloat(formData.estWeeklyEt || '0');
-      const isEstData = !userEt;
-      const baseEt = userEt || 1.25; 
-      
-      const plantFactor = ZONE_FACTORS[formData.zoneType] || 0.5;
-      const rainOffset = parseFloat(formData.estWeeklyRain || '0');
-      
-      const adjustedEt = baseEt * plantFactor * sunFactor;
-      const netWeeklyInches = Math.max(0, adjustedEt - rainOffset);
-      
-      // Effective PR = Raw PR * Efficiency. 
-      // Lower efficiency = lower effective PR = Longer Run Time needed.
-      const effectivePr = precipRate * efficiency;
-      
-      const weeklyTotalMinutes = effectivePr > 0 
-        ? Math.ceil((netWeeklyInches / effectivePr) * 60) 
-        : 0;
-
-      const isSandy = formData.soilType.includes("Sand");
-      const isTurf = formData.zoneType.includes("Turf");
-      const mowingHeight = parseFloat(formData.mowingHeight || '3.0');
-
-      // --- BASE FREQUENCY (Soil & Water Demand) ---
-      let suggestedFrequency = 3; 
-      
-      if (isSandy) {
-        // Sand Logic: Low holding capacity = more frequent
-        suggestedFrequency = netWeeklyInches > 0.8 ? 4 : 3; 
-        if (netWeeklyInches > 1.5) suggestedFrequency = 5;
-      } else {
-        // Clay/Loam Logic: High holding capacity = less frequent
-        if (netWeeklyInches > 1.4) suggestedFrequency = 4; // High heat
-        else if (netWeeklyInches > 0.7) suggestedFrequency = 3; 
-        else suggestedFrequency = 2; 
-      }
-
-      // --- MOWING HEIGHT CONSTRAINT LOGIC ---
-      if (isTurf) {
-        if (mowingHeight < 2.0) {
-           // Short turf (< 2.0") -> Can go up to 5-7 days if needed (sand/heat)
-           // because roots are shallower
-           if (mowingHeight <= 0.75) suggestedFrequency = 7;
-           else if (mowingHeight <= 1.5) suggestedFrequency = Math.max(suggestedFrequency, 5);
-           // 1.5" - 1.99": Allow up to 5 days, or use base logic
-           else suggestedFrequency = Math.max(suggestedFrequency, 4);
-        } else {
-           // >= 2.0" -> STRICT Cap at 4 days to promote deep rooting
-           // Even if hot, we want "Deep & Infrequent"
-           suggestedFrequency = Math.min(suggestedFrequency, 4);
-        }
-      }
-
-      suggestedFrequency = Math.max(1, Math.min(7, suggestedFrequency));
-
-      const dailyRunTime = suggestedFrequency > 0 
-        ? Math.ceil(weeklyTotalMinutes / suggestedFrequency)
-        : 0;
-
-      // Calculate inches applied per day
-      // Inches = (DailyMin / 60) * EffectivePR
-      const inchesAppliedPerDay = dailyRunTime > 0 
-        ? parseFloat(((dailyRunTime / 60) * effectivePr).toFixed(2)) 
-        : 0;
-
-      let maxRunTime = 60;
-      if (precipRate > soilInfiltration) {
-        const runoffRatio = soilInfiltration / precipRate;
-        maxRunTime = Math.floor(60 * runoffRatio * slopeFactor);
-        maxRunTime = Math.max(3, maxRunTime);
-      }
-
-      // Auto calculation
-      const cyclesPerDayCalc = Math.ceil(dailyRunTime / maxRunTime);
-      const isSandCycles = isSandy && cyclesPerDayCalc < 2; 
-      const autoCycles = isSandCycles ? 2 : cyclesPerDayCalc; 
-      
-      // Use manual override if present, otherwise auto
-      const finalCyclesPerDay = manualCycles !== null ? manualCycles : autoCycles;
-      
-      const minutesPerCycle = finalCyclesPerDay > 0 ? Math.ceil(dailyRunTime / finalCyclesPerDay) : 0;
-      const recommendedSoakTime = finalCyclesPerDay > 1 ? (SOIL_SOAK_TIMES[formData.soilType] || 0) : 0;
-
-      setLiveCalc({
-        precipRate,
-        weeklyTotalMinutes,
-        suggestedFrequency,
-        dailyRunTime,
-        maxRunTime,
-        recommendedSoakTime,
-        cyclesPerDay: finalCyclesPerDay,
-        minutesPerCycle,
-        inchesAppliedPerDay,
-        isEstData,
-        efficiency
-      });
+    if (hasRequiredZoneInputs(formData)) {
+      setLiveCalc(calculateZone(formData, { manualCycles }));
     } else {
       setLiveCalc(null);
     }
-  }, [formData.nozzleType, formData.soilType, formData.slope, formData.zoneType, formData.estWeeklyEt, formData.estWeeklyRain, formData.pressure, formData.efficiency, formData.sunlight, formData.mowingHeight, manualCycles]);
+  }, [formData.nozzleType, formData.soilType, formData.slope, formData.zoneType, formData.estWeeklyEt, formData.estWeeklyRain, formData.pressure, formData.efficiency, formData.sunlight, formData.mowingHeight, formData.frequencyMode, formData.depletionPercent, formData.restrictions, formData.audit, formData.heads, formData.drip, formData.species, formData.zipCode, formData.supply, formData.zoneHydraulics, formData.zoneAreaSqFt, customNozzles, manualCycles]);
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files && e.target.files[0]) {
@@ -244,11 +141,13 @@ export const InputForm: React.FC<InputFormProps> = ({
   };
 
   const pressureStatus = getPressureWarning(formData.pressure);
-  const months = ["January", "February", "March", "April", "May", "June", "July", "August", "September", "October", "November", "December"];
+  const selectedNozzle = getNozzle(formData.nozzleType);
+  const nozzlePerformance = selectedNozzle ? getNozzlePerformance(selectedNozzle, formData.pressure) : null;
   
   // Warning if manual cycle adjustment causes potential runoff
   const runoffWarning = liveCalc && liveCalc.minutesPerCycle > liveCalc.maxRunTime;
   const isTurf = formData.zoneType.includes("Turf");
+  const isDrip = formData.zoneType === 'Drip';
 
   return (
     <div className="mb-8">
@@ -301,19 +200,44 @@ export const InputForm: React.FC<InputFormProps> = ({
           </div>
         </div>
 
+        {formData.image && (
+          <PhotoAnalysisPanel
+            analysis={photoAnalysis}
+            analyzing={photoAnalyzing}
+            canAnalyze={Boolean(getAdvisorProvider(advisorProviderId).analyzePhoto)}
+            onAnalyze={onAnalyzePhoto}
+            onAccept={handleAcceptSuggestion}
+            onReject={onPhotoSuggestionResolved}
+          />
+        )}
+
         {/* Location & Weather */}
         <div className="md:col-span-2 bg-blue-50/50 p-4 rounded-xl border border-blue-100">
           <div className="flex justify-between items-center mb-3">
-             <label className="block text-xs font-bold text-blue-800 uppercase">Location</label>
-             <button 
-               onClick={onFetchWeather}
-               disabled={!formData.zipCode || !formData.month || weatherLoading}
-               className={`text-xs px-3 py-1 rounded bg-white border border-blue-200 text-blue-600 font-semibold shadow-sm transition-all
-                 ${!formData.zipCode || !formData.month ? 'opacity-50 cursor-not-allowed' : 'hover:bg-blue-50 active:scale-95'}
-               `}
-             >
-               {weatherLoading ? 'Loading...' : 'Get Weather Data'}
-             </button>
+             <div className="flex items-center gap-2">
+               <label className="block text-xs font-bold text-blue-800 uppercase">Location</label>
+               {formData.climateSource && (formData.estWeeklyEt || formData.estWeeklyRain) && (
+                 <span className={`text-[10px] px-2 py-0.5 rounded font-semibold
+                   ${formData.climateSource.provider === 'bundled' ? 'bg-green-100 text-green-700' : formData.climateSource.provider === 'gemini' || formData.climateSource.provider === 'advisor' ? 'bg-purple-100 text-purple-700' : formData.climateSource.provider === 'calculated' ? 'bg-blue-100 text-blue-700' : 'bg-slate-100 text-slate-600'}`}>
+                   {formData.climateSource.label}
+                 </span>
+               )}
+             </div>
+             <div className="flex items-center gap-3">
+               <label className="flex items-center gap-1 text-[10px] text-blue-700 cursor-pointer" title="Ask the AI advisor when no bundled climate data covers this zip code">
+                 <input type="checkbox" checked={aiClimateFallback} onChange={onToggleAiClimateFallback} className="accent-brand-600" />
+                 AI fallback
+               </label>
+               <button 
+                 onClick={onFetchWeather}
+                 disabled={!formData.zipCode || !formData.month || weatherLoading}
+                 className={`text-xs px-3 py-1 rounded bg-white border border-blue-200 text-blue-600 font-semibold shadow-sm transition-all
+                   ${!formData.zipCode || !formData.month ? 'opacity-50 cursor-not-allowed' : 'hover:bg-blue-50 active:scale-95'}
+                 `}
+               >
+                 {weatherLoading ? 'Loading...' : 'Get Weather Data'}
+               </button>
+             </div>
           </div>
           
           <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
@@ -325,7 +249,7 @@ export const InputForm: React.FC<InputFormProps> = ({
               <label className="block text-sm font-semibold text-gray-700 mb-1">Month</label>
               <select name="month" value={formData.month} onChange={handleChange} className="w-full px-3 py-2.5 rounded-lg border border-gray-300 focus:ring-2 focus:ring-brand-500 outline-none">
                 <option value="">Select...</option>
-                {months.map(m => <option key={m} value={m}>{m}</option>)}
+                {MONTHS.map(m => <option key={m} value={m}>{m}</option>)}
               </select>
             </div>
             <div className="col-span-1">
@@ -337,6 +261,22 @@ export const InputForm: React.FC<InputFormProps> = ({
               <input type="number" name="estWeeklyRain" placeholder="Auto" value={formData.estWeeklyRain || ''} onChange={handleChange} className="w-full px-3 py-2.5 rounded-lg border border-gray-300 focus:ring-2 focus:ring-brand-500 outline-none" />
             </div>
           </div>
+
+          <EtCalculatorPanel
+            key={`${formData.zipCode}-${formData.month}`}
+            zipCode={formData.zipCode}
+            month={formData.month}
+            onApply={(weeklyInches, label) => setFormData(prev => ({
+              ...prev,
+              estWeeklyEt: String(weeklyInches),
+              climateSource: { provider: 'calculated', label }
+            }))}
+          />
+
+          <RestrictionsEditor
+            restrictions={formData.restrictions}
+            onChange={(restrictions) => setFormData(prev => ({ ...prev, restrictions }))}
+          />
         </div>
 
         {/* Zone Details */}
@@ -367,6 +307,34 @@ export const InputForm: React.FC<InputFormProps> = ({
           </div>
         </div>
 
+        {formData.zoneType && !isDrip && (
+          <SpeciesPicker
+            species={formData.species || []}
+            zipCode={formData.zipCode}
+            zoneType={formData.zoneType}
+            onChange={(species) => setFormData(prev => ({ ...prev, species }))}
+          />
+        )}
+
+        <div className="md:col-span-2 grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-semibold text-gray-700 mb-1">Frequency Method</label>
+            <select name="frequencyMode" value={formData.frequencyMode || 'soil'} onChange={handleChange} className="w-full px-3 py-2.5 rounded-lg border border-gray-300 focus:ring-2 focus:ring-brand-500 outline-none">
+              <option value="soil">Soil Water Budget (Root Depth & Depletion)</option>
+              <option value="legacy">Legacy (Fixed Thresholds)</option>
+            </select>
+          </div>
+          {formData.frequencyMode !== 'legacy' && (
+            <div>
+              <label className="block text-sm font-semibold text-gray-700 mb-1">Allowable Depletion <span className="text-gray-400 font-normal">(%)</span></label>
+              <input type="number" name="depletionPercent" placeholder={`Default ${Math.round((MAD_FACTORS[formData.zoneType] || 0.5) * 100)}`} value={formData.depletionPercent || ''} onChange={handleChange} className="w-full px-3 py-2.5 rounded-lg border border-gray-300 focus:ring-2 focus:ring-brand-500 outline-none" />
+              <p className="text-[10px] text-gray-500 mt-1">
+                Share of the root zone's available water used up before the next watering.
+              </p>
+            </div>
+          )}
+        </div>
+
         <div className="md:col-span-2 grid grid-cols-1 md:grid-cols-2 gap-4">
           <div>
              <label className="block text-sm font-semibold text-gray-700 mb-1">Sunlight</label>
@@ -388,7 +356,7 @@ export const InputForm: React.FC<InputFormProps> = ({
                  <option value="Secondary">Secondary (Unmetered)</option>
                </select>
              </div>
-             {formData.waterSource === 'Culinary' && (
+             {formData.waterSource === 'Culinary' && !formData.rateSchedule && (
                <div>
                   <label className="block text-sm font-semibold text-gray-700 mb-1 truncate" title="Price per 1000 Gallons">Price ($) / 1,000 Gal</label>
                   <input type="number" step="0.01" name="waterPrice" value={formData.waterPrice || ''} onChange={handleChange} className="w-full px-3 py-2.5 rounded-lg border border-gray-300 focus:ring-2 focus:ring-brand-500 outline-none" />
@@ -398,28 +366,95 @@ export const InputForm: React.FC<InputFormProps> = ({
           </div>
         </div>
 
+        <RateScheduleEditor
+          schedule={formData.rateSchedule}
+          waterPrice={formData.waterPrice}
+          month={formData.month}
+          onChange={(rateSchedule) => setFormData(prev => ({ ...prev, rateSchedule }))}
+        />
+
         <div className="md:col-span-2 border-t border-gray-100 my-2"></div>
+
+        {isDrip && (
+          <DripDesignPanel
+            design={formData.drip}
+            result={liveCalc?.drip}
+            zipCode={formData.zipCode}
+            onChange={(drip) => setFormData(prev => ({ ...prev, drip }))}
+          />
+        )}
         
         <div className="md:col-span-2">
-          <label className="block text-sm font-semibold text-gray-700 mb-1">Nozzle Type</label>
+          <div className="flex justify-between items-end mb-1">
+            <label className="block text-sm font-semibold text-gray-700">Nozzle Type</label>
+            <button onClick={() => setShowNozzleLibrary(!showNozzleLibrary)} className="text-xs font-semibold text-brand-700 hover:underline">
+              Manage library
+            </button>
+          </div>
           <select name="nozzleType" value={formData.nozzleType} onChange={handleChange} className="w-full px-3 py-2.5 rounded-lg border border-gray-300 focus:ring-2 focus:ring-brand-500 outline-none font-medium">
             <option value="">Select specific nozzle...</option>
-            {Object.keys(NOZZLE_DATA).map(key => <option key={key} value={key}>{NOZZLE_DATA[key].label}</option>)}
+            <optgroup label="Built-in Catalog">
+              {BUILT_IN_NOZZLES.map(n => <option key={n.id} value={n.id}>{n.label}</option>)}
+            </optgroup>
+            {customNozzles.length > 0 && (
+              <optgroup label="My Library">
+                {customNozzles.map(n => <option key={n.id} value={n.id}>{n.manufacturer ? `${n.manufacturer} ${n.label}` : n.label}</option>)}
+              </optgroup>
+            )}
           </select>
+          {nozzlePerformance && (
+            <p className="text-[10px] text-gray-500 mt-1">
+              {nozzlePerformance.precipRate}"/hr{nozzlePerformance.gpm !== undefined && ` · ${nozzlePerformance.gpm} GPM (360°)`} @ {nozzlePerformance.psi} PSI
+              {nozzlePerformance.method === 'table' ? ' · from performance table' : ' · square-root estimate'}
+              {nozzlePerformance.isOutOfRange && <span className="text-amber-600"> · outside published range</span>}
+            </p>
+          )}
         </div>
 
+        {showNozzleLibrary && (
+          <NozzleLibraryEditor
+            customNozzles={customNozzles}
+            onSave={onSaveCustomNozzles}
+            getNozzleUsage={getNozzleUsage}
+            onClose={() => setShowNozzleLibrary(false)}
+          />
+        )}
+
+        {!isDrip && (
+          <HeadInventoryEditor
+            heads={formData.heads || []}
+            pressure={formData.pressure}
+            defaultNozzleId={formData.nozzleType}
+            customNozzles={customNozzles}
+            onChange={(heads) => setFormData(prev => ({ ...prev, heads }))}
+          />
+        )}
+
+        {!isDrip && (formData.nozzleType || (formData.heads && formData.heads.length > 0)) && (
+          <CatchCanAuditPanel
+            key={formData.audit?.auditedAt || formData.nozzleType}
+            audit={formData.audit}
+            onApply={(audit) => setFormData(prev => ({ ...prev, audit, efficiency: String(Math.round(100 / audit.schedulingMultiplier)) }))}
+            onClear={() => setFormData(prev => ({
+              ...prev,
+              audit: undefined,
+              efficiency: getNozzle(prev.nozzleType) ? String(getNozzle(prev.nozzleType).efficiency * 100) : prev.efficiency
+            }))}
+          />
+        )}
+
         <div className="md:col-span-2 grid grid-cols-1 md:grid-cols-3 gap-6">
           <div>
-            <label className="block text-sm font-semibold text-gray-700 mb-1">Pressure (PSI)</label>
+            <label className="block text-sm font-semibold text-gray-700 mb-1">Static Pressure (PSI)</label>
             <input type="number" name="pressure" placeholder="e.g. 60" value={formData.pressure} onChange={handleChange} className={`w-full px-3 py-2.5 rounded-lg border outline-none ${pressureStatus?.type === 'warn' ? 'border-amber-300' : 'border-gray-300'}`} />
             {pressureStatus && <p className={`text-xs mt-1.5 font-medium ${pressureStatus.type === 'warn' ? 'text-amber-600' : 'text-green-600'}`}>{pressureStatus.text}</p>}
           </div>
 
           <div>
              <label className="block text-sm font-semibold text-gray-700 mb-1">Head Efficiency <span className="text-gray-400 font-normal">(%)</span></label>
-             <input type="number" name="efficiency" placeholder="e.g. 75" value={formData.efficiency || ''} onChange={handleChange} className="w-full px-3 py-2.5 rounded-lg border border-gray-300 focus:ring-2 focus:ring-brand-500 outline-none" />
+             <input type="number" name="efficiency" placeholder="e.g. 75" value={formData.efficiency || ''} onChange={handleChange} disabled={!!formData.audit} className="w-full px-3 py-2.5 rounded-lg border border-gray-300 focus:ring-2 focus:ring-brand-500 outline-none disabled:bg-gray-100 disabled:text-gray-500" />
              <p className="text-[10px] text-gray-500 mt-1">
-               Lower % = Poor spacing = Longer Run Time.
+               {formData.audit ? 'Set by catch-can audit (DU lq).' : 'Lower % = Poor spacing = Longer Run Time.'}
              </p>
           </div>
 
@@ -448,6 +483,15 @@ export const InputForm: React.FC<InputFormProps> = ({
           </div>
         </div>
 
+        <HydraulicsPanel
+          supply={formData.supply}
+          zoneHydraulics={formData.zoneHydraulics}
+          check={liveCalc?.hydraulics}
+          needsArea={liveCalc?.hydraulicsNeedsArea}
+          onSupplyChange={(supply) => setFormData(prev => ({ ...prev, supply }))}
+          onZoneChange={(zoneHydraulics) => setFormData(prev => ({ ...prev, zoneHydraulics }))}
+        />
+
         {/* AT A GLANCE WATERING (Running Report) */}
         {(savedZones.length > 0 || liveCalc) && (
           <div className="col-span-1 md:col-span-2 mt-6 bg-slate-800 border border-slate-700 rounded-xl overflow-hidden shadow-lg animate-fade-in-up text-white">
@@ -479,12 +523,19 @@ export const InputForm: React.FC<InputFormProps> = ({
                    <div className="flex justify-between items-center mb-2">
                       <div className="flex items-center gap-2">
                          <span className="bg-slate-700 text-slate-300 text-[10px] font-mono px-1.5 py-0.5 rounded group-hover:bg-brand-700 group-hover:text-white transition-colors">{idx + 1}</span>
+                         {zone.thumbnail && <img src={zone.thumbnail} alt="" className="w-6 h-6 rounded object-cover border border-slate-600" />}
                          <span className="font-bold text-white text-xs">{zone.name}</span>
+                         {zone.formData.audit && (
+                           <span className="text-[8px] font-bold uppercase px-1 rounded bg-green-500/20 text-green-300" title={`DU(lq) ${Math.round(zone.formData.audit.duLq * 100)}%`}>Audited</span>
+                         )}
+                         {zone.invalidReason && (
+                           <span className="text-[8px] font-bold uppercase px-1 rounded bg-red-500/20 text-red-300" title={zone.invalidReason}>Needs fix</span>
+                         )}
                       </div>
                       <div className="text-[10px] text-slate-400 flex items-center gap-1.5">
                          <span>{zone.formData.zoneType}</span>
                          <span className="text-slate-600">•</span>
-                         <span className="truncate max-w-[120px]">{zone.formData.nozzleType}</span>
+                         <span className="truncate max-w-[120px]">{describeZoneNozzles(zone.formData)}</span>
                       </div>
                    </div>
                    
@@ -528,6 +579,9 @@ export const InputForm: React.FC<InputFormProps> = ({
                         {editingId ? 'Updating Zone' : 'Active Edit'}
                      </span>
                      <span className="text-xs font-semibold text-slate-200">{formData.customZoneName || "Current Zone"}</span>
+                     {liveCalc.isAudited && (
+                       <span className="text-[10px] font-bold px-2 py-0.5 rounded uppercase tracking-wider bg-green-500/20 text-green-300">Audited PR {liveCalc.precipRate}"/hr</span>
+                     )}
                   </div>
                   
                   <div className="grid grid-cols-3 md:grid-cols-6 gap-3 text-center">
@@ -542,6 +596,12 @@ export const InputForm: React.FC<InputFormProps> = ({
                     <div className="bg-slate-800 p-2 rounded border border-slate-600 col-span-1">
                       <p className="text-[10px] text-slate-400 uppercase font-bold">Freq (Days)</p>
                       <p className="text-base font-bold text-white">{liveCalc.suggestedFrequency} <span className="text-[10px] font-normal text-slate-500">/wk</span></p>
+                      {liveCalc.wateringIntervalDays !== undefined && (
+                        <p className="text-[9px] text-slate-500">Soil lasts {liveCalc.wateringIntervalDays} d</p>
+                      )}
+                      {getMaxDaysPerWeek(formData.restrictions) < 7 && (
+                        <p className="text-[9px] text-slate-500">Max {getMaxDaysPerWeek(formData.restrictions)} allowed</p>
+                      )}
                     </div>
                     <div className="bg-slate-800 p-2 rounded border border-slate-600 relative group col-span-1">
                       <p className="text-[10px] text-slate-400 uppercase font-bold">Cycles/Day</p>
@@ -580,7 +640,45 @@ export const InputForm: React.FC<InputFormProps> = ({
                       ) : (
                         <span className="text-green-300">✓ Single Cycle OK</span>
                       )}
+                      {liveCalc.drip && (
+                        <span>Drip: <strong className="text-slate-200">{liveCalc.drip.totalGph} GPH</strong> · {liveCalc.drip.runHoursPerWeek} hrs/week</span>
+                      )}
+                      {liveCalc.hydraulics ? (
+                        <span>Flow: <strong className="text-slate-200">{liveCalc.hydraulics.flowGpm} GPM</strong> @ {liveCalc.hydraulics.headPsi} PSI at heads</span>
+                      ) : liveCalc.totalGpm !== undefined && (
+                        <span>Flow: <strong className="text-slate-200">{liveCalc.totalGpm} GPM</strong> @ {liveCalc.precipRate}"/hr</span>
+                      )}
                     </div>
+                    {liveCalc.pressureWarning && (
+                       <span className="text-red-400 font-semibold flex items-center gap-1">
+                         Not Operable: {liveCalc.pressureWarning}
+                       </span>
+                    )}
+                    {liveCalc.hydrozoneWarning && (
+                       <span className="text-amber-400 font-semibold flex items-center gap-1">
+                         Mixed Hydrozone: {liveCalc.hydrozoneWarning}
+                       </span>
+                    )}
+                    {liveCalc.drip?.warning && (
+                       <span className="text-amber-400 font-semibold flex items-center gap-1">
+                         Uneven Drip: {liveCalc.drip.warning}
+                       </span>
+                    )}
+                    {liveCalc.headMismatchWarning && (
+                       <span className="text-amber-400 font-semibold flex items-center gap-1">
+                         Mixed Precip Rates: {liveCalc.headMismatchWarning}
+                       </span>
+                    )}
+                    {liveCalc.hydraulics?.warnings.length > 0 && (
+                       <span className="text-amber-400 font-semibold flex items-center gap-1">
+                         Hydraulics: {liveCalc.hydraulics.warnings[0]}
+                       </span>
+                    )}
+                    {liveCalc.restrictionWarning && (
+                       <span className="text-amber-400 font-semibold flex items-center gap-1">
+                         Restriction Conflict: {liveCalc.restrictionWarning}
+                       </span>
+                    )}
                     {runoffWarning && (
                        <span className="text-amber-400 font-semibold flex items-center gap-1">
                          <svg xmlns="http://www.w3.org/2000/svg" width="12" height="12" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M10.29 3.86L1.82 18a2 2 0 0 0 1.71 3h16.94a2 2 0 0 0 1.71-3L13.71 3.86a2 2 0 0 0-3.42 0z"></path><line x1="12" y1="9" x2="12" y2="13"></line><line x1="12" y1="17" x2="12.01" y2="17"></line></svg>
@@ -596,6 +694,19 @@ export const InputForm: React.FC<InputFormProps> = ({
       </div>
 
       <div className="mt-6 flex flex-col md:flex-row gap-4">
+        <select
+          value={advisorProviderId}
+          onChange={(e) => onAdvisorProviderChange(e.target.value as AdvisorProviderId)}
+          disabled={loading}
+          title="Who writes the plan's advice. Run times always come from the calculator."
+          className="px-4 py-3 rounded-full border border-slate-300 bg-white text-sm text-slate-600 outline-none focus:ring-2 focus:ring-brand-500"
+        >
+          {ADVISOR_PROVIDERS.map(p => (
+            <option key={p.id} value={p.id} disabled={!p.isAvailable()}>
+              {p.label}{p.isAvailable() ? '' : ' - no API key'}
+            </option>
+          ))}
+        </select>
         <button
           onClick={() => onSubmit(liveCalc)}
           disabled={loading}
@@ -1,61 +1,31 @@
 
 import React from 'react';
-import { SavedZone, WateringSchedule } from '../types';
+import { SavedZone, WateringRestrictions, ProjectLocation } from '../types';
+import { buildMasterReport, downloadMasterReportCsv } from '../services/masterReport';
+import { ControllerExport } from './ControllerExport';
+import { WindowScheduler } from './WindowScheduler';
+import { SeasonPlan } from './SeasonPlan';
+import { WaterBudgetReport } from './WaterBudgetReport';
 import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Cell } from 'recharts';
 
 interface MasterReportProps {
   zones: SavedZone[];
-  currentZone?: WateringSchedule | null;
+  restrictions?: WateringRestrictions;
+  location: ProjectLocation; // The project's current month and rates, not the copies saved with zones
 }
 
-export const MasterReport: React.FC<MasterReportProps> = ({ zones, currentZone }) => {
+export const MasterReport: React.FC<MasterReportProps> = ({ zones, restrictions, location }) => {
   const handlePrint = () => {
     window.print();
   };
 
-  // Calculate totals
-  let totalGallons = 0;
-  let totalMonthlyCost = 0;
-
-  const calculateZoneGallons = (z: SavedZone) => {
-    if (!z.formData.zoneAreaSqFt) return 0;
-    const area = parseFloat(z.formData.zoneAreaSqFt);
-    const pr = z.stats.precipRate;
-    const minutes = z.stats.weeklyTotalMinutes;
-    // Inches applied = (minutes / 60) * pr
-    const inches = (minutes / 60) * pr;
-    return Math.round(inches * area * 0.623);
+  const handleExportCsv = () => {
+    downloadMasterReportCsv(zones, location);
   };
 
-  const savedZoneRows = zones.map(z => {
-    const gallons = calculateZoneGallons(z);
-    totalGallons += gallons;
-    
-    // Cost Logic
-    let cost = 0;
-    if (z.formData.waterSource === 'Secondary') {
-      cost = 0;
-    } else {
-      // Use user-defined price per 1000 gallons (defaulting to 3.00 if missing)
-      const pricePer1k = parseFloat(z.formData.waterPrice || '3.00');
-      // Formula: (Gallons / 1000) * PricePer1k * 4.3 weeks/month
-      cost = (gallons * 4.3 / 1000) * pricePer1k;
-    }
-    
-    totalMonthlyCost += cost;
-
-    return {
-      name: z.name,
-      area: z.formData.zoneAreaSqFt || '-',
-      pr: z.stats.precipRate,
-      weeklyMin: z.stats.weeklyTotalMinutes,
-      freq: z.stats.suggestedFrequency,
-      cycle: `${z.stats.minutesPerCycle}m x ${z.stats.cyclesPerDay}`,
-      gallons: gallons,
-      cost: cost,
-      isSecondary: z.formData.waterSource === 'Secondary'
-    };
-  });
+  const { rows: savedZoneRows, totals } = buildMasterReport(zones, location);
+  const totalGallons = totals.gallons;
+  const totalMonthlyCost = totals.monthlyCost;
 
   const chartData = savedZoneRows.map(row => ({
     name: row.name.length > 10 ? row.name.substring(0, 10) + '...' : row.name, // Truncate for chart display
@@ -71,12 +41,20 @@ export const MasterReport: React.FC<MasterReportProps> = ({ zones, currentZone }
           <h2 className="text-xl font-bold text-white print:text-black">Master Irrigation Report</h2>
           <p className="text-slate-400 text-sm print:text-slate-600">Cumulative Usage & Programming Guide</p>
         </div>
-        <button 
-          onClick={handlePrint}
-          className="bg-white text-slate-800 px-4 py-2 rounded-lg font-semibold text-sm hover:bg-slate-100 print:hidden"
-        >
-          Print Report
-        </button>
+        <div className="flex gap-2 print:hidden">
+          <button 
+            onClick={handleExportCsv}
+            className="bg-slate-700 text-white px-4 py-2 rounded-lg font-semibold text-sm hover:bg-slate-600 border border-slate-600"
+          >
+            Export CSV
+          </button>
+          <button 
+            onClick={handlePrint}
+            className="bg-white text-slate-800 px-4 py-2 rounded-lg font-semibold text-sm hover:bg-slate-100"
+          >
+            Print Report
+          </button>
+        </div>
       </div>
 
       <div className="p-0 overflow-x-auto">
@@ -104,7 +82,8 @@ export const MasterReport: React.FC<MasterReportProps> = ({ zones, currentZone }
                 <td className="px-6 py-4 text-brand-600 font-medium">{row.cycle}</td>
                 <td className="px-6 py-4 text-slate-600">{row.gallons.toLocaleString()}</td>
                 <td className="px-6 py-4 text-slate-600">
-                  {row.isSecondary ? <span className="text-xs text-slate-400 uppercase font-bold">Secondary</span> : `$${row.cost.toFixed(2)}`}
+                  {row.isSecondary && row.cost === 0 ? <span className="text-xs text-slate-400 uppercase font-bold">Secondary</span> : `$${row.cost.toFixed(2)}`}
+                  {row.isSecondary && row.cost > 0 && <span className="ml-1 text-[10px] text-slate-400 uppercase font-bold">flat</span>}
                 </td>
               </tr>
             ))}
@@ -171,9 +150,17 @@ export const MasterReport: React.FC<MasterReportProps> = ({ zones, currentZone }
           </div>
         </div>
       )}
+
+      {zones.length > 0 && <SeasonPlan zones={zones} location={location} />}
+
+      {zones.length > 0 && <WaterBudgetReport zones={zones} />}
+
+      {zones.length > 0 && <WindowScheduler zones={zones} restrictions={restrictions} />}
+
+      {zones.length > 0 && <ControllerExport zones={zones} restrictions={restrictions} />}
       
       <div className="p-4 bg-slate-50 text-xs text-slate-500 border-t print:bg-white">
-        * Cost estimates are calculated using the user-defined rate (or default ~$3.00/kGal average). Secondary water is typically billed as a flat rate ($0.00 usage cost).
+        * Gallons are the water applied at the heads (run time x precipitation rate), so efficiency losses are included. Costs are the irrigation share of the bill under the project's water rates (default ~$3.00/kGal); secondary water shows its flat fee, if entered.
       </div>
     </div>
   );
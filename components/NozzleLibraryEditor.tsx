@@ -0,0 +1,233 @@
+import React, { useState } from 'react';
+import { NozzleProduct, NozzlePerformancePoint } from '../types';
+import { createNozzleId, BUILT_IN_NOZZLES } from '../services/nozzleLibrary';
+
+interface NozzleLibraryEditorProps {
+  customNozzles: NozzleProduct[];
+  onSave: (nozzles: NozzleProduct[]) => void;
+  onClose: () => void;
+  getNozzleUsage: (nozzleId: string) => string[]; // Names of saved zones using the nozzle
+}
+
+interface DraftRow {
+  psi: string;
+  precipRate: string;
+  gpm: string;
+}
+
+interface Draft {
+  id: string | null;
+  label: string;
+  manufacturer: string;
+  optimalPsi: string;
+  efficiency: string;
+  arcOptions: string;
+  radiusOptionsFt: string;
+  rows: DraftRow[];
+}
+
+const EMPTY_ROW: DraftRow = { psi: '', precipRate: '', gpm: '' };
+
+const toDraft = (nozzle: NozzleProduct | null, copy = false): Draft => nozzle ? {
+  id: copy ? null : nozzle.id,
+  label: copy ? `${nozzle.label} (Custom)` : nozzle.label,
+  manufacturer: nozzle.manufacturer || '',
+  optimalPsi: String(nozzle.optimalPsi),
+  efficiency: String(Math.round(nozzle.efficiency * 100)),
+  arcOptions: (nozzle.arcOptions || []).join(', '),
+  radiusOptionsFt: (nozzle.radiusOptionsFt || []).join(', '),
+  rows: nozzle.performance.map(p => ({ psi: String(p.psi), precipRate: String(p.precipRate), gpm: p.gpm !== undefined ? String(p.gpm) : '' }))
+} : {
+  id: null, label: '', manufacturer: '', optimalPsi: '30', efficiency: '75',
+  arcOptions: '', radiusOptionsFt: '', rows: [{ ...EMPTY_ROW }, { ...EMPTY_ROW }]
+};
+
+const parseList = (text: string) =>
+  text.split(',').map(v => parseFloat(v.trim())).filter(v => !isNaN(v));
+
+// Returns the product, or an error message for the first problem found
+const fromDraft = (draft: Draft): NozzleProduct | string => {
+  if (!draft.label.trim()) return 'Name is required.';
+  const optimalPsi = parseFloat(draft.optimalPsi);
+  const efficiency = parseFloat(draft.efficiency);
+  if (!(optimalPsi > 0)) return 'Optimal PSI must be a positive number.';
+  if (!(efficiency > 0 && efficiency <= 100)) return 'Efficiency must be between 1 and 100%.';
+
+  const performance: NozzlePerformancePoint[] = [];
+  for (const row of draft.rows) {
+    if (!row.psi && !row.precipRate && !row.gpm) continue;
+    const psi = parseFloat(row.psi);
+    const precipRate = parseFloat(row.precipRate);
+    if (!(psi > 0) || !(precipRate > 0)) return 'Each table row needs a PSI and precipitation rate.';
+    const gpm = parseFloat(row.gpm);
+    performance.push({ psi, precipRate, ...(gpm > 0 ? { gpm } : {}) });
+  }
+  if (performance.length === 0) return 'Add at least one performance row.';
+  if (new Set(performance.map(p => p.psi)).size !== performance.length) return 'Each PSI can only appear once.';
+
+  const arcOptions = parseList(draft.arcOptions);
+  const radiusOptionsFt = parseList(draft.radiusOptionsFt);
+  return {
+    id: draft.id || createNozzleId(),
+    label: draft.label.trim(),
+    ...(draft.manufacturer.trim() ? { manufacturer: draft.manufacturer.trim() } : {}),
+    optimalPsi,
+    efficiency: efficiency / 100,
+    performance: performance.sort((a, b) => a.psi - b.psi),
+    ...(arcOptions.length ? { arcOptions } : {}),
+    ...(radiusOptionsFt.length ? { radiusOptionsFt } : {})
+  };
+};
+
+export const NozzleLibraryEditor: React.FC<NozzleLibraryEditorProps> = ({ customNozzles, onSave, onClose, getNozzleUsage }) => {
+  const [draft, setDraft] = useState<Draft | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const updateDraft = (field: keyof Draft, value: string) => setDraft(prev => prev && ({ ...prev, [field]: value }));
+
+  const updateRow = (idx: number, field: keyof DraftRow, value: string) => {
+    setDraft(prev => prev && ({ ...prev, rows: prev.rows.map((r, i) => i === idx ? { ...r, [field]: value } : r) }));
+  };
+
+  const handleSave = () => {
+    if (!draft) return;
+    const result = fromDraft(draft);
+    if (typeof result === 'string') {
+      setError(result);
+      return;
+    }
+    const exists = customNozzles.some(n => n.id === result.id);
+    onSave(exists ? customNozzles.map(n => n.id === result.id ? result : n) : [...customNozzles, result]);
+    setDraft(null);
+    setError(null);
+  };
+
+  const handleDelete = (nozzle: NozzleProduct) => {
+    if (!window.confirm(`Delete "${nozzle.label}" from the library?`)) return;
+    onSave(customNozzles.filter(n => n.id !== nozzle.id));
+  };
+
+  const inputClass = "w-full px-2 py-1.5 rounded-lg border border-gray-300 text-sm outline-none focus:ring-2 focus:ring-brand-500";
+  const labelClass = "block text-[10px] font-bold text-slate-500 uppercase mb-1";
+
+  return (
+    <div className="md:col-span-2 bg-white rounded-lg border border-brand-200 p-4">
+      <div className="flex justify-between items-center mb-3">
+        <h3 className="text-sm font-bold text-slate-700">Nozzle Library</h3>
+        <button onClick={onClose} className="text-xs font-semibold text-slate-500 hover:text-slate-800">Close</button>
+      </div>
+
+      {!draft ? (
+        <>
+          {customNozzles.length === 0 ? (
+            <p className="text-xs text-slate-400 mb-3">No custom products yet. Add one from a manufacturer chart or copy a built-in entry.</p>
+          ) : (
+            <ul className="divide-y divide-slate-100 mb-3">
+              {customNozzles.map(n => {
+                const usedBy = getNozzleUsage(n.id);
+                return (
+                  <li key={n.id} className="py-2 flex justify-between items-center text-sm">
+                    <span>
+                      <span className="font-medium text-slate-800">{n.label}</span>
+                      <span className="text-xs text-slate-400 ml-2">
+                        {n.manufacturer ? `${n.manufacturer} · ` : ''}{n.performance.length} pt table · {n.optimalPsi} PSI
+                      </span>
+                    </span>
+                    <span className="flex gap-3">
+                      <button onClick={() => { setDraft(toDraft(n)); setError(null); }} className="text-xs font-semibold text-brand-700 hover:underline">Edit</button>
+                      {/* Saved zones would be left pointing at a missing product */}
+                      <button
+                        onClick={() => handleDelete(n)}
+                        disabled={usedBy.length > 0}
+                        title={usedBy.length > 0 ? `Used by ${usedBy.join(', ')}. Pick another nozzle for those zones first.` : undefined}
+                        className="text-xs font-semibold text-red-600 hover:underline disabled:text-slate-300 disabled:no-underline disabled:cursor-not-allowed"
+                      >
+                        Delete
+                      </button>
+                    </span>
+                  </li>
+                );
+              })}
+            </ul>
+          )}
+          <div className="flex flex-wrap gap-3 items-center">
+            <button onClick={() => { setDraft(toDraft(null)); setError(null); }} className="text-xs px-3 py-1 rounded bg-brand-600 text-white font-semibold hover:bg-brand-700">
+              + New Product
+            </button>
+            <select
+              value=""
+              onChange={(e) => { const n = BUILT_IN_NOZZLES.find(b => b.id === e.target.value); if (n) { setDraft(toDraft(n, true)); setError(null); } }}
+              className="px-2 py-1 rounded border border-gray-300 text-xs outline-none"
+            >
+              <option value="">Copy a built-in...</option>
+              {BUILT_IN_NOZZLES.map(n => <option key={n.id} value={n.id}>{n.label}</option>)}
+            </select>
+          </div>
+        </>
+      ) : (
+        <div>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-3">
+            <div className="col-span-2">
+              <label className={labelClass}>Name</label>
+              <input value={draft.label} onChange={(e) => updateDraft('label', e.target.value)} className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass}>Manufacturer</label>
+              <input value={draft.manufacturer} onChange={(e) => updateDraft('manufacturer', e.target.value)} className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass}>Optimal PSI</label>
+              <input type="number" value={draft.optimalPsi} onChange={(e) => updateDraft('optimalPsi', e.target.value)} className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass}>Efficiency (%)</label>
+              <input type="number" value={draft.efficiency} onChange={(e) => updateDraft('efficiency', e.target.value)} className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass}>Arcs (deg)</label>
+              <input placeholder="90, 180, 360" value={draft.arcOptions} onChange={(e) => updateDraft('arcOptions', e.target.value)} className={inputClass} />
+            </div>
+            <div className="col-span-2">
+              <label className={labelClass}>Radius Options (ft)</label>
+              <input placeholder="8, 10, 12, 15" value={draft.radiusOptionsFt} onChange={(e) => updateDraft('radiusOptionsFt', e.target.value)} className={inputClass} />
+            </div>
+          </div>
+
+          <label className={labelClass}>Performance Table</label>
+          <table className="w-full text-sm mb-2">
+            <thead className="text-[10px] text-slate-400 uppercase">
+              <tr>
+                <th className="text-left font-bold pb-1">PSI</th>
+                <th className="text-left font-bold pb-1">Precip (in/hr)</th>
+                <th className="text-left font-bold pb-1">Flow (GPM, 360°)</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {draft.rows.map((row, idx) => (
+                <tr key={idx}>
+                  <td className="pr-2 pb-1"><input type="number" value={row.psi} onChange={(e) => updateRow(idx, 'psi', e.target.value)} className={inputClass} /></td>
+                  <td className="pr-2 pb-1"><input type="number" step="0.01" value={row.precipRate} onChange={(e) => updateRow(idx, 'precipRate', e.target.value)} className={inputClass} /></td>
+                  <td className="pr-2 pb-1"><input type="number" step="0.01" value={row.gpm} onChange={(e) => updateRow(idx, 'gpm', e.target.value)} className={inputClass} /></td>
+                  <td className="pb-1">
+                    <button onClick={() => setDraft(prev => prev && ({ ...prev, rows: prev.rows.filter((_, i) => i !== idx) }))} className="text-xs text-slate-400 hover:text-red-600 px-1">✕</button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+          <button onClick={() => setDraft(prev => prev && ({ ...prev, rows: [...prev.rows, { ...EMPTY_ROW }] }))} className="text-xs font-semibold text-brand-700 hover:underline mb-3">
+            + Add row
+          </button>
+          <p className="text-[10px] text-slate-400 mb-3">Values between rows are interpolated. A single row is scaled by the square-root pressure law.</p>
+
+          {error && <p className="text-xs text-red-600 mb-2">{error}</p>}
+          <div className="flex gap-2">
+            <button onClick={handleSave} className="text-xs px-3 py-1 rounded bg-brand-600 text-white font-semibold hover:bg-brand-700">Save Product</button>
+            <button onClick={() => { setDraft(null); setError(null); }} className="text-xs px-3 py-1 rounded border border-gray-300 text-slate-600 font-semibold hover:bg-slate-50">Cancel</button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,75 @@
+import React from 'react';
+import { PhotoAnalysis, PhotoSuggestion } from '../types';
+
+interface PhotoAnalysisPanelProps {
+  analysis: PhotoAnalysis | null;
+  analyzing: boolean;
+  canAnalyze: boolean; // False when the selected advisor cannot see images
+  onAnalyze: () => void;
+  onAccept: (suggestion: PhotoSuggestion) => void;
+  onReject: (suggestion: PhotoSuggestion) => void;
+}
+
+const FIELD_LABELS: Record<PhotoSuggestion['field'], string> = {
+  zoneType: 'Zone',
+  species: 'Turf',
+  nozzleType: 'Heads',
+  slope: 'Slope',
+  sunlight: 'Sun'
+};
+
+export const PhotoAnalysisPanel: React.FC<PhotoAnalysisPanelProps> = ({ analysis, analyzing, canAnalyze, onAnalyze, onAccept, onReject }) => (
+  <div className="md:col-span-2 bg-slate-50 rounded-lg border border-slate-200 p-3">
+    <div className="flex justify-between items-center mb-2">
+      <div>
+        <h4 className="text-sm font-semibold text-gray-700">Photo Analysis</h4>
+        <p className="text-[10px] text-gray-500">
+          {canAnalyze ? 'Reads zone type, turf, heads, slope and sun exposure off the photo.' : 'The selected advisor cannot analyze photos. Switch to Gemini to use this.'}
+        </p>
+      </div>
+      <button
+        onClick={onAnalyze}
+        disabled={!canAnalyze || analyzing}
+        className="text-xs font-semibold px-3 py-1.5 rounded-lg bg-purple-50 text-purple-700 hover:bg-purple-100 disabled:bg-gray-100 disabled:text-gray-400 disabled:cursor-not-allowed"
+      >
+        {analyzing ? 'Analyzing...' : analysis ? 'Analyze again' : 'Analyze photo'}
+      </button>
+    </div>
+
+    {analysis && (
+      <>
+        {analysis.summary && <p className="text-xs text-slate-600 mb-2">{analysis.summary}</p>}
+
+        {analysis.suggestions.length > 0 ? (
+          <div className="flex flex-wrap gap-2">
+            {analysis.suggestions.map(s => (
+              <span key={s.field} className="inline-flex items-center gap-1 text-xs bg-white border border-purple-200 rounded-full pl-2.5 pr-1 py-0.5">
+                <span className="text-[10px] font-bold text-purple-500 uppercase">{FIELD_LABELS[s.field]}</span>
+                <span className="text-slate-700">{s.label}</span>
+                <button onClick={() => onAccept(s)} title="Apply to this zone" className="w-5 h-5 rounded-full text-green-600 hover:bg-green-50">✓</button>
+                <button onClick={() => onReject(s)} title="Dismiss" className="w-5 h-5 rounded-full text-slate-400 hover:bg-slate-100">✕</button>
+              </span>
+            ))}
+          </div>
+        ) : (
+          <p className="text-[10px] text-slate-400 italic">The zone already matches everything read from the photo.</p>
+        )}
+
+        {(analysis.turfSpecies || analysis.nozzleFamily) && (
+          <p className="text-[10px] text-slate-500 mt-2">
+            Detected: {[analysis.turfSpecies, analysis.nozzleFamily && `${analysis.nozzleFamily} heads`].filter(Boolean).join(' · ')}
+          </p>
+        )}
+
+        {analysis.stressAreas.length > 0 && (
+          <div className="mt-2 p-2 bg-amber-50 border border-amber-200 rounded text-xs text-amber-800">
+            <span className="block text-[10px] font-bold uppercase mb-0.5">Visible Stress</span>
+            <ul className="list-disc list-inside">
+              {analysis.stressAreas.map((area, idx) => <li key={idx}>{area}</li>)}
+            </ul>
+          </div>
+        )}
+      </>
+    )}
+  </div>
+);
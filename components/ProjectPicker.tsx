@@ -0,0 +1,162 @@
+import React, { useRef, useState } from 'react';
+import { Project, NozzleProduct } from '../types';
+import { downloadProjectFile, parseProjectFile, ImportFieldError } from '../services/projectFile';
+
+interface ProjectPickerProps {
+  projects: Project[];
+  activeProjectId: string;
+  onOpen: (id: string) => void;
+  onCreate: () => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+  onImport: (project: Project, nozzles: NozzleProduct[]) => void;
+}
+
+export const ProjectPicker: React.FC<ProjectPickerProps> = ({
+  projects,
+  activeProjectId,
+  onOpen,
+  onCreate,
+  onRename,
+  onDuplicate,
+  onDelete,
+  onImport
+}) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isOpen, setIsOpen] = useState(false);
+  const [importErrors, setImportErrors] = useState<ImportFieldError[]>([]);
+  const [renamingId, setRenamingId] = useState<string | null>(null);
+  const [renameValue, setRenameValue] = useState('');
+
+  const activeProject = projects.find(p => p.id === activeProjectId);
+
+  const startRename = (project: Project) => {
+    setRenamingId(project.id);
+    setRenameValue(project.name);
+  };
+
+  const commitRename = () => {
+    if (renamingId && renameValue.trim()) {
+      onRename(renamingId, renameValue.trim());
+    }
+    setRenamingId(null);
+  };
+
+  const handleDelete = (project: Project) => {
+    if (window.confirm(`Delete "${project.name}" and its ${project.zones.length} zone(s)?`)) {
+      onDelete(project.id);
+    }
+  };
+
+  const handleImportFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const result = parseProjectFile(await file.text());
+    setImportErrors(result.errors);
+    if (result.project) {
+      onImport(result.project, result.nozzles);
+    }
+  };
+
+  return (
+    <div className="mb-6 bg-slate-50 border border-slate-200 rounded-xl print:hidden">
+      <div className="flex justify-between items-center p-3">
+        <button
+          onClick={() => setIsOpen(!isOpen)}
+          className="flex items-center gap-2 text-sm font-semibold text-slate-700 hover:text-brand-600 transition-colors"
+        >
+          <svg xmlns="http://www.w3.org/2000/svg" width="16" height="16" viewBox="0 0 24 24" fill="none" stroke="currentColor" strokeWidth="2" strokeLinecap="round" strokeLinejoin="round"><path d="M22 19a2 2 0 0 1-2 2H4a2 2 0 0 1-2-2V5a2 2 0 0 1 2-2h5l2 3h9a2 2 0 0 1 2 2z"></path></svg>
+          <span className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">Project</span>
+          <span className="truncate max-w-[200px]">{activeProject?.name || 'No Project'}</span>
+          <span className="text-slate-400 text-xs">{isOpen ? '▲' : '▼'}</span>
+        </button>
+        <div className="flex items-center gap-3">
+          <input type="file" ref={fileInputRef} onChange={handleImportFile} className="hidden" accept=".json,application/json" />
+          <button
+            onClick={() => fileInputRef.current?.click()}
+            className="text-xs font-semibold text-slate-500 hover:text-brand-600 transition-colors"
+          >
+            Import
+          </button>
+          <button
+            onClick={() => activeProject && downloadProjectFile(activeProject)}
+            disabled={!activeProject}
+            className="text-xs font-semibold text-slate-500 hover:text-brand-600 transition-colors"
+          >
+            Export
+          </button>
+          <button
+            onClick={onCreate}
+            className="text-xs font-semibold px-3 py-1.5 rounded-lg text-brand-600 hover:text-brand-700 bg-brand-50 hover:bg-brand-100 transition-colors"
+          >
+            New Project
+          </button>
+        </div>
+      </div>
+
+      {importErrors.length > 0 && (
+        <div className="mx-3 mb-3 p-3 bg-red-50 border-l-4 border-red-500 text-red-700 rounded-md text-xs">
+          <div className="flex justify-between items-center mb-1">
+            <span className="font-bold">Import failed ({importErrors.length} problem{importErrors.length === 1 ? '' : 's'})</span>
+            <button onClick={() => setImportErrors([])} className="text-red-500 hover:text-red-700">Dismiss</button>
+          </div>
+          <ul className="space-y-0.5 font-mono max-h-40 overflow-y-auto">
+            {importErrors.map((err, idx) => (
+              <li key={idx}><span className="font-semibold">{err.path}</span>: {err.message}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {isOpen && (
+        <ul className="divide-y divide-slate-200 border-t border-slate-200">
+          {projects.map(project => (
+            <li
+              key={project.id}
+              className={`flex items-center justify-between gap-3 px-3 py-2 text-sm ${project.id === activeProjectId ? 'bg-brand-50' : 'hover:bg-white'}`}
+            >
+              {renamingId === project.id ? (
+                <input
+                  type="text"
+                  autoFocus
+                  value={renameValue}
+                  onChange={(e) => setRenameValue(e.target.value)}
+                  onBlur={commitRename}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter') commitRename();
+                    if (e.key === 'Escape') setRenamingId(null);
+                  }}
+                  className="flex-grow px-2 py-1 rounded border border-brand-300 outline-none focus:ring-2 focus:ring-brand-500"
+                />
+              ) : (
+                <button
+                  onClick={() => { onOpen(project.id); setIsOpen(false); }}
+                  className="flex-grow text-left"
+                >
+                  <span className="font-medium text-slate-800">{project.name}</span>
+                  <span className="ml-2 text-[10px] text-slate-400">
+                    {project.zones.length} zone(s) • {project.location.zipCode || 'No zip'} • {new Date(project.updatedAt).toLocaleDateString()}
+                  </span>
+                </button>
+              )}
+              <div className="flex gap-2 text-xs flex-shrink-0">
+                <button onClick={() => startRename(project)} className="text-slate-500 hover:text-brand-600">Rename</button>
+                <button onClick={() => onDuplicate(project.id)} className="text-slate-500 hover:text-brand-600">Duplicate</button>
+                <button
+                  onClick={() => handleDelete(project)}
+                  disabled={projects.length <= 1}
+                  className={projects.length <= 1 ? 'text-slate-300 cursor-not-allowed' : 'text-red-500 hover:text-red-700'}
+                >
+                  Delete
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
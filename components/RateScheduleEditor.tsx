@@ -0,0 +1,142 @@
+import React, { useState } from 'react';
+import { RateTier, WaterRateSchedule } from '../types';
+import { MONTHS } from '../services/climateProvider';
+import { createFlatRateSchedule, describeRateSchedule, DEFAULT_PRICE_PER_KGAL } from '../services/waterRates';
+
+interface RateScheduleEditorProps {
+  schedule?: WaterRateSchedule;
+  waterPrice?: string;
+  month: string;
+  onChange: (schedule: WaterRateSchedule | undefined) => void;
+}
+
+const inputClass = "w-full px-2 py-1.5 rounded-lg border border-gray-300 text-sm outline-none focus:ring-2 focus:ring-brand-500";
+const labelClass = "block text-[10px] font-bold text-slate-500 uppercase mb-1";
+
+const TierTable: React.FC<{ title: string; unitLabel: string; tiers: RateTier[]; onChange: (tiers: RateTier[]) => void }> = ({ title, unitLabel, tiers, onChange }) => {
+  const updateTier = (idx: number, patch: Partial<RateTier>) => onChange(tiers.map((t, i) => i === idx ? { ...t, ...patch } : t));
+  return (
+    <div>
+      <label className={labelClass}>{title}</label>
+      {tiers.map((tier, idx) => (
+        <div key={idx} className="flex gap-2 mb-1 items-center">
+          <input type="number" placeholder={idx === tiers.length - 1 ? 'No limit' : `Up to (${unitLabel})`} value={tier.upToUnits} onChange={(e) => updateTier(idx, { upToUnits: e.target.value })} className={inputClass} />
+          <input type="number" step="0.01" placeholder="$ / unit" value={tier.price} onChange={(e) => updateTier(idx, { price: e.target.value })} className={inputClass} />
+          <button onClick={() => onChange(tiers.filter((_, i) => i !== idx))} disabled={tiers.length === 1} className="text-xs text-slate-400 hover:text-red-600 px-1 disabled:opacity-30">✕</button>
+        </div>
+      ))}
+      <button onClick={() => onChange([...tiers, { upToUnits: '', price: '' }])} className="text-xs font-semibold text-brand-700 hover:underline">+ Add tier</button>
+    </div>
+  );
+};
+
+export const RateScheduleEditor: React.FC<RateScheduleEditorProps> = ({ schedule, waterPrice, month, onChange }) => {
+  const [isOpen, setIsOpen] = useState(false);
+
+  const update = (patch: Partial<WaterRateSchedule>) => onChange({ ...schedule, ...patch });
+
+  const toggleMonth = (key: 'summerMonths' | 'secondaryMonths', m: string) => {
+    const months = schedule[key];
+    update({ [key]: months.includes(m) ? months.filter(x => x !== m) : MONTHS.filter(x => x === m || months.includes(x)) });
+  };
+
+  const handleEnable = () => {
+    onChange(createFlatRateSchedule(parseFloat(waterPrice || '') || DEFAULT_PRICE_PER_KGAL));
+    setIsOpen(true);
+  };
+
+  if (!schedule) {
+    return (
+      <div className="md:col-span-2 text-right -mt-2">
+        <button onClick={handleEnable} className="text-xs font-semibold text-brand-700 hover:underline">Use tiered / seasonal rates</button>
+      </div>
+    );
+  }
+
+  const unitLabel = schedule.unit === 'ccf' ? 'CCF' : 'kGal';
+
+  const renderMonthToggles = (field: 'summerMonths' | 'secondaryMonths') => (
+    <div className="flex flex-wrap gap-1">
+      {MONTHS.map(m => (
+        <button
+          key={m}
+          onClick={() => toggleMonth(field, m)}
+          className={`text-[10px] px-1.5 py-0.5 rounded border ${schedule[field].includes(m) ? 'bg-brand-600 text-white border-brand-600' : 'bg-white text-slate-500 border-slate-300'}`}
+        >
+          {m.slice(0, 3)}
+        </button>
+      ))}
+    </div>
+  );
+
+  return (
+    <div className="md:col-span-2 bg-slate-50 rounded-lg border border-slate-200 p-3">
+      <div className="flex flex-wrap justify-between items-center gap-2">
+        <div className="text-sm">
+          <strong>Water Rates:</strong> <span className="text-slate-600">{describeRateSchedule(schedule, month)}</span>
+        </div>
+        <div className="flex gap-3">
+          <button onClick={() => onChange(undefined)} className="text-xs font-semibold text-red-600 hover:underline">Use flat price</button>
+          <button onClick={() => setIsOpen(!isOpen)} className="text-xs font-semibold text-brand-700 hover:underline">
+            {isOpen ? '▲ Close' : '▼ Edit rates'}
+          </button>
+        </div>
+      </div>
+
+      {isOpen && (
+        <div className="mt-3 pt-3 border-t border-slate-200">
+          <p className="text-[10px] text-slate-400 mb-2">Culinary (metered) water, shared by every zone in the project</p>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3 mb-3">
+            <div>
+              <label className={labelClass}>Billing Unit</label>
+              <select value={schedule.unit} onChange={(e) => update({ unit: e.target.value as WaterRateSchedule['unit'] })} className={inputClass}>
+                <option value="kgal">1,000 Gallons</option>
+                <option value="ccf">CCF (748 Gal)</option>
+              </select>
+            </div>
+            <div>
+              <label className={labelClass}>Fixed ($/Mo)</label>
+              <input type="number" step="0.01" placeholder="0" value={schedule.fixedMonthly} onChange={(e) => update({ fixedMonthly: e.target.value })} className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass}>Indoor Use ({unitLabel}/Mo)</label>
+              <input type="number" placeholder="0" value={schedule.indoorBaselineUnits} onChange={(e) => update({ indoorBaselineUnits: e.target.value })} className={inputClass} />
+            </div>
+            <div>
+              <label className={labelClass}>Sewer ($/{unitLabel})</label>
+              <input type="number" step="0.01" placeholder="0" value={schedule.sewerPerUnit} onChange={(e) => update({ sewerPerUnit: e.target.value })} className={inputClass} />
+              <label className="flex items-center gap-1 text-[10px] text-slate-500 mt-1">
+                <input type="checkbox" checked={schedule.sewerOnIrrigation} onChange={(e) => update({ sewerOnIrrigation: e.target.checked })} />
+                Billed on outdoor use
+              </label>
+            </div>
+          </div>
+
+          <div className="mb-3">
+            <label className={labelClass}>Summer Rate Months</label>
+            {renderMonthToggles('summerMonths')}
+          </div>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-3 mb-3">
+            <TierTable title="Summer Tiers" unitLabel={unitLabel} tiers={schedule.summerTiers} onChange={(summerTiers) => update({ summerTiers })} />
+            <TierTable title="Winter Tiers" unitLabel={unitLabel} tiers={schedule.winterTiers} onChange={(winterTiers) => update({ winterTiers })} />
+          </div>
+
+          <p className="text-[10px] text-slate-400 mb-2">Secondary (unmetered) water</p>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-3">
+            <div>
+              <label className={labelClass}>Annual Fee ($)</label>
+              <input type="number" step="0.01" placeholder="0" value={schedule.secondaryAnnualFee} onChange={(e) => update({ secondaryAnnualFee: e.target.value })} className={inputClass} />
+            </div>
+            <div className="md:col-span-3">
+              <label className={labelClass}>Delivery Months</label>
+              {renderMonthToggles('secondaryMonths')}
+            </div>
+          </div>
+          <p className="text-[10px] text-slate-400 mt-2">
+            Indoor use fills the lower tiers first, so irrigation is costed at the tiers it pushes the bill into. Fixed fees are paid either way and are left out.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,107 @@
+import React from 'react';
+import { WateringRestrictions, Weekday } from '../types';
+import { WEEKDAYS } from '../services/controllerProgram';
+import { NO_RESTRICTIONS, describeRestrictions } from '../services/wateringRestrictions';
+
+interface RestrictionsEditorProps {
+  restrictions?: WateringRestrictions;
+  onChange: (restrictions: WateringRestrictions) => void;
+}
+
+export const RestrictionsEditor: React.FC<RestrictionsEditorProps> = ({ restrictions, onChange }) => {
+  const current = restrictions || NO_RESTRICTIONS;
+
+  const update = (patch: Partial<WateringRestrictions>) => {
+    onChange({ ...current, ...patch });
+  };
+
+  const toggleDay = (day: Weekday) => {
+    const days = current.assignedDays || [];
+    update({ assignedDays: days.includes(day) ? days.filter(d => d !== day) : [...days, day] });
+  };
+
+  return (
+    <div className="mt-4 pt-3 border-t border-blue-100">
+      <div className="flex justify-between items-center mb-2">
+        <label className="block text-xs font-bold text-blue-800 uppercase">Watering Restrictions</label>
+        <span className="text-[10px] text-blue-600">{describeRestrictions(restrictions)}</span>
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+        <div>
+          <label className="block text-sm font-semibold text-gray-700 mb-1">Day Rule</label>
+          <select
+            value={current.dayRule}
+            onChange={(e) => update({ dayRule: e.target.value as WateringRestrictions['dayRule'] })}
+            className="w-full px-3 py-2.5 rounded-lg border border-gray-300 focus:ring-2 focus:ring-brand-500 outline-none"
+          >
+            <option value="none">None</option>
+            <option value="odd-even">Odd / Even Address</option>
+            <option value="assigned">Assigned Days</option>
+          </select>
+        </div>
+
+        {current.dayRule === 'odd-even' && (
+          <div>
+            <label className="block text-sm font-semibold text-gray-700 mb-1">Address</label>
+            <select
+              value={current.addressParity || 'odd'}
+              onChange={(e) => update({ addressParity: e.target.value as 'odd' | 'even' })}
+              className="w-full px-3 py-2.5 rounded-lg border border-gray-300 focus:ring-2 focus:ring-brand-500 outline-none"
+            >
+              <option value="odd">Odd (odd dates)</option>
+              <option value="even">Even (even dates)</option>
+            </select>
+          </div>
+        )}
+
+        <div>
+          <label className="block text-sm font-semibold text-gray-700 mb-1">Max Days/Wk</label>
+          <input
+            type="number"
+            min="1"
+            max="7"
+            placeholder="No cap"
+            value={current.maxDaysPerWeek || ''}
+            onChange={(e) => update({ maxDaysPerWeek: e.target.value ? parseInt(e.target.value) : undefined })}
+            className="w-full px-3 py-2.5 rounded-lg border border-gray-300 focus:ring-2 focus:ring-brand-500 outline-none"
+          />
+        </div>
+
+        <div className="col-span-2 md:col-span-1">
+          <label className="block text-sm font-semibold text-gray-700 mb-1">No Watering <span className="text-gray-400 font-normal">(hours)</span></label>
+          <div className="flex items-center gap-1">
+            <input
+              type="time"
+              value={current.noWaterStart || ''}
+              onChange={(e) => update({ noWaterStart: e.target.value || undefined })}
+              className="w-full px-2 py-2.5 rounded-lg border border-gray-300 focus:ring-2 focus:ring-brand-500 outline-none text-sm"
+            />
+            <span className="text-gray-400 text-xs">-</span>
+            <input
+              type="time"
+              value={current.noWaterEnd || ''}
+              onChange={(e) => update({ noWaterEnd: e.target.value || undefined })}
+              className="w-full px-2 py-2.5 rounded-lg border border-gray-300 focus:ring-2 focus:ring-brand-500 outline-none text-sm"
+            />
+          </div>
+        </div>
+      </div>
+
+      {current.dayRule === 'assigned' && (
+        <div className="flex gap-1 mt-3">
+          {WEEKDAYS.map(day => (
+            <button
+              key={day}
+              onClick={() => toggleDay(day)}
+              className={`text-xs px-2 py-1.5 rounded font-semibold border transition-colors
+                ${(current.assignedDays || []).includes(day) ? 'bg-brand-600 text-white border-brand-600' : 'bg-white text-slate-400 border-slate-200'}`}
+            >
+              {day}
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
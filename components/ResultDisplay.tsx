@@ -1,15 +1,28 @@
 
-import React, { useState, useEffect } from 'react';
-import { WateringSchedule } from '../types';
-import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from 'recharts';
+import React, { useState } from 'react';
+import { WateringSchedule, WateringRestrictions } from '../types';
+import { getMaxDaysPerWeek, getAllowedWeekdays, checkRestrictedDelivery, describeRestrictions } from '../services/wateringRestrictions';
+import { spreadDays, pickWateringDays } from '../services/controllerProgram';
+import { calculateZone, hasRequiredZoneInputs } from '../services/zoneCalculator';
+import { simulateSoilWaterBalance } from '../services/soilWaterBalance';
+import { calculateZoneWaterUse, checkWaterUseConsistency, formatMonthlyCost } from '../services/waterUse';
+import { AreaChart, Area, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine } from 'recharts';
 
 interface ResultDisplayProps {
   data: WateringSchedule;
+  restrictions?: WateringRestrictions;
 }
 
-export const ResultDisplay: React.FC<ResultDisplayProps> = ({ data }) => {
+export const ResultDisplay: React.FC<ResultDisplayProps> = ({ data, restrictions }) => {
+  const maxDays = Math.max(1, getMaxDaysPerWeek(restrictions));
   // Initialize with AI recommendation
-  const [daysPerWeek, setDaysPerWeek] = useState<number>(data.recommendedFrequencyDaysPerWeek || 3);
+  const [selectedDays, setDaysPerWeek] = useState<number>(data.recommendedFrequencyDaysPerWeek || 3);
+  // Restrictions can tighten after the plan was generated
+  const daysPerWeek = Math.min(selectedDays, maxDays);
+  const allowedWeekdays = getAllowedWeekdays(restrictions);
+  const restrictionWarning = restrictions
+    ? checkRestrictedDelivery(data.totalWeeklyWaterDurationMinutes, data.maxRunTimePerCycle, data.recommendedSoakTime || 0, restrictions)
+    : null;
   
   // Derived calculations
   const totalWeeklyMinutes = data.totalWeeklyWaterDurationMinutes;
@@ -22,6 +35,19 @@ export const ResultDisplay: React.FC<ResultDisplayProps> = ({ data }) => {
   const cyclesPerDay = Math.max(1, rawCycles); 
   const minutesPerCycle = Math.ceil(dailyTotalMinutes / cyclesPerDay);
 
+  // Soil water balance for the selected schedule, from the inputs the plan was written for
+  const inputs = data.inputs;
+  const zoneStats = inputs && hasRequiredZoneInputs(inputs) ? calculateZone(inputs) : null;
+  const wateringDays = allowedWeekdays ? spreadDays(allowedWeekdays, daysPerWeek) : pickWateringDays(daysPerWeek);
+  const waterBalance = zoneStats ? simulateSoilWaterBalance(inputs, {
+    wateringDays,
+    netInchesPerWateringDay: (dailyTotalMinutes / 60) * zoneStats.precipRate * zoneStats.efficiency
+  }) : null;
+
+  // Gallons and cost always come from the calculator; the plan's own figures are only checked
+  const waterUse = zoneStats && inputs.zoneAreaSqFt ? calculateZoneWaterUse(inputs, zoneStats) : null;
+  const waterUseDiscrepancies = waterUse ? checkWaterUseConsistency(data, waterUse) : [];
+
   const handleSliderChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setDaysPerWeek(parseInt(e.target.value));
   };
@@ -48,6 +74,17 @@ export const ResultDisplay: React.FC<ResultDisplayProps> = ({ data }) => {
           </div>
         </div>
 
+        {data.disagreements && data.disagreements.length > 0 && (
+          <div className="mb-6 p-4 bg-amber-50 border border-amber-200 rounded-xl text-sm text-amber-900">
+            <p className="font-semibold mb-1">The AI model disagreed with the calculated baseline. Calculated values are used:</p>
+            <ul className="list-disc ml-5 text-xs">
+              {data.disagreements.map(d => (
+                <li key={d.field}>{d.label}: model said {d.modelValue}, calculated {d.baselineValue}</li>
+              ))}
+            </ul>
+          </div>
+        )}
+
         {/* Environmental Context Bar */}
         <div className="grid grid-cols-2 md:grid-cols-5 gap-4 mb-8 bg-slate-50 rounded-xl p-4 border border-slate-100">
            <div>
@@ -92,17 +129,29 @@ export const ResultDisplay: React.FC<ResultDisplayProps> = ({ data }) => {
                 <input 
                   type="range" 
                   min="1" 
-                  max="7" 
+                  max={maxDays} 
                   value={daysPerWeek} 
                   onChange={handleSliderChange}
                   className="w-full h-2 bg-brand-200 rounded-lg appearance-none cursor-pointer accent-brand-600"
                 />
                 <div className="flex justify-between text-xs text-brand-400 mt-1 font-medium">
                   <span>1 Day (Rare)</span>
-                  <span>7 Days (Daily)</span>
+                  <span>{maxDays === 7 ? '7 Days (Daily)' : `${maxDays} Days (Max Allowed)`}</span>
                 </div>
+                {restrictions && restrictions.dayRule !== 'none' && (
+                  <p className="text-xs text-brand-700 mt-2">
+                    <strong>Restrictions:</strong> {describeRestrictions(restrictions)}
+                    {allowedWeekdays && <> · Water on {spreadDays(allowedWeekdays, daysPerWeek).join(', ')}</>}
+                  </p>
+                )}
               </div>
 
+              {restrictionWarning && (
+                <div className="mb-4 p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800">
+                  <strong>Restriction conflict:</strong> {restrictionWarning}
+                </div>
+              )}
+
               <div className="flex items-center gap-3 p-3 bg-white/50 rounded-lg border border-brand-100 text-sm text-brand-800">
                 <svg xmlns="http://www.w3.org/2000/svg" className="h-5 w-5 flex-shrink-0" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                   <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M13 16h-1v-4h-1m1-4h.01M21 12a9 9 0 11-18 0 9 9 0 0118 0z" />
@@ -147,7 +196,7 @@ export const ResultDisplay: React.FC<ResultDisplayProps> = ({ data }) => {
                   {cyclesPerDay > 1 ? (
                      <div className="mt-3">
                         <div className="inline-block bg-blue-50 text-blue-700 text-xs px-2 py-1 rounded font-medium border border-blue-100">
-                           <span className="font-bold">Protocol:</span> Run {minutesPerCycle}m ➔ Soak {data.recommendedSoakTime}m ➔ Repeat
+                           <span className="font-bold">Protocol:</span> Run {minutesPerCycle}m ➔ Soak {data.recommendedSoakTime || 0}m ➔ Repeat
                         </div>
                         <p className="text-[10px] text-slate-500 mt-1">
                           *Multi-cycling prevents runoff on this soil/slope.
@@ -177,6 +226,24 @@ export const ResultDisplay: React.FC<ResultDisplayProps> = ({ data }) => {
                 </div>
              </div>
 
+             {waterUse && (
+                <div className="bg-white p-5 rounded-xl border border-gray-200 shadow-sm">
+                   <h3 className="text-slate-400 font-semibold mb-3 text-xs uppercase tracking-wide">Water Use</h3>
+                   <div className="flex justify-between items-baseline">
+                     <span className="text-2xl font-bold text-slate-800">{waterUse.weeklyGallons.toLocaleString()} <span className="text-sm font-medium text-slate-500">gal / wk</span></span>
+                     <span className="text-lg font-semibold text-green-600">{formatMonthlyCost(waterUse)} <span className="text-xs font-medium text-slate-500">/ mo</span></span>
+                   </div>
+                   <p className="text-[10px] text-slate-500 mt-1">{waterUse.weeklyInches}" applied per week &middot; {waterUse.monthlyGallons.toLocaleString()} gal / month</p>
+                   {waterUseDiscrepancies.length > 0 && (
+                     <div className="mt-2 p-2 bg-amber-50 border border-amber-200 rounded text-xs text-amber-800">
+                       <strong>Advisor figures differ:</strong>{' '}
+                       {waterUseDiscrepancies.map(d => `${d.label} ${d.advisorValue.toLocaleString()} vs ${d.computedValue.toLocaleString()} calculated`).join('; ')}.
+                       Calculated values are shown.
+                     </div>
+                   )}
+                </div>
+             )}
+
              <div className="bg-white p-5 rounded-xl border border-gray-200 shadow-sm">
                 <h3 className="text-slate-400 font-semibold mb-3 text-xs uppercase tracking-wide">Maintenance</h3>
                 <div className="flex items-center gap-2 mb-2">
@@ -205,27 +272,50 @@ export const ResultDisplay: React.FC<ResultDisplayProps> = ({ data }) => {
         <div className="grid grid-cols-1 md:grid-cols-2 gap-8">
            <div>
               <h3 className="text-slate-400 font-semibold mb-4 text-xs uppercase tracking-wide">Soil Moisture Projection</h3>
-              <div className="h-64 w-full bg-white border border-gray-200 rounded-xl p-4 shadow-sm">
-                <ResponsiveContainer width="100%" height="100%">
-                  <AreaChart data={data.moistureCurveData}>
-                    <defs>
-                      <linearGradient id="colorMoisture" x1="0" y1="0" x2="0" y2="1">
-                        <stop offset="5%" stopColor="#3b82f6" stopOpacity={0.8}/>
-                        <stop offset="95%" stopColor="#3b82f6" stopOpacity={0}/>
-                      </linearGradient>
-                    </defs>
-                    <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e5e7eb" />
-                    <XAxis dataKey="day" axisLine={false} tickLine={false} tick={{fontSize: 12, fill: '#9ca3af'}} tickFormatter={(v) => `Day ${v}`}/>
-                    <YAxis hide domain={[0, 100]}/>
-                    <Tooltip 
-                      contentStyle={{borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)'}}
-                      itemStyle={{color: '#2563eb', fontWeight: 600}}
-                      formatter={(value: number) => [`${value}%`, 'Moisture']}
-                    />
-                    <Area type="monotone" dataKey="moistureLevel" stroke="#2563eb" strokeWidth={3} fillOpacity={1} fill="url(#colorMoisture)" />
-                  </AreaChart>
-                </ResponsiveContainer>
-              </div>
+              {waterBalance ? (
+                <>
+                  <div className="h-64 w-full bg-white border border-gray-200 rounded-xl p-4 shadow-sm">
+                    <ResponsiveContainer width="100%" height="100%">
+                      <AreaChart data={waterBalance.days}>
+                        <defs>
+                          <linearGradient id="colorMoisture" x1="0" y1="0" x2="0" y2="1">
+                            <stop offset="5%" stopColor="#3b82f6" stopOpacity={0.8}/>
+                            <stop offset="95%" stopColor="#3b82f6" stopOpacity={0}/>
+                          </linearGradient>
+                        </defs>
+                        <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e5e7eb" />
+                        <XAxis dataKey="day" axisLine={false} tickLine={false} tick={{fontSize: 12, fill: '#9ca3af'}} tickFormatter={(v) => `Day ${v}`}/>
+                        <YAxis hide domain={[0, 100]}/>
+                        <Tooltip 
+                          contentStyle={{borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)'}}
+                          itemStyle={{color: '#2563eb', fontWeight: 600}}
+                          formatter={(value: number) => [`${value}%`, 'Available Water']}
+                          labelFormatter={(day: number) => `Day ${day} (${waterBalance.days[day - 1]?.weekday})`}
+                        />
+                        <ReferenceLine y={waterBalance.stressThreshold} stroke="#f59e0b" strokeDasharray="4 4" label={{ value: 'Stress (MAD)', position: 'insideBottomRight', fontSize: 10, fill: '#b45309' }} />
+                        <Area type="monotone" dataKey="moistureLevel" stroke="#2563eb" strokeWidth={3} fillOpacity={1} fill="url(#colorMoisture)" />
+                      </AreaChart>
+                    </ResponsiveContainer>
+                  </div>
+                  <p className="text-[10px] text-slate-500 mt-2">
+                    Root zone {waterBalance.profile.rootDepth}" &middot; holds {waterBalance.profile.totalAvailableWater}" available water &middot; MAD {Math.round(waterBalance.profile.mad * 100)}% ({waterBalance.profile.readilyAvailableWater}") &middot; Watering {wateringDays.join(', ')}
+                  </p>
+                  {waterBalance.stressDays.length > 0 && (
+                    <p className="text-xs text-amber-700 mt-1">
+                      <strong>Stress:</strong> moisture drops below the MAD threshold on day {waterBalance.stressDays.join(', ')}. Water more often or apply more per day.
+                    </p>
+                  )}
+                  {waterBalance.overFieldCapacityDays.length > 0 && (
+                    <p className="text-xs text-blue-700 mt-1">
+                      <strong>Over-watering:</strong> field capacity exceeded on day {waterBalance.overFieldCapacityDays.join(', ')} ({waterBalance.totalDrainage}" lost below the roots). Water less per day, more often.
+                    </p>
+                  )}
+                </>
+              ) : (
+                <div className="h-64 w-full bg-white border border-gray-200 rounded-xl p-4 shadow-sm flex items-center justify-center text-sm text-slate-400">
+                  Select a zone type, soil, slope and nozzle to model soil moisture.
+                </div>
+              )}
            </div>
 
            <div>
@@ -0,0 +1,138 @@
+import React, { useState } from 'react';
+import { ProjectLocation, SavedZone } from '../types';
+import { buildSeasonReport } from '../services/seasonPlan';
+import { ComposedChart, Bar, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+
+interface SeasonPlanProps {
+  zones: SavedZone[];
+  location: ProjectLocation;
+}
+
+const ZONE_COLORS = ['#3b82f6', '#10b981', '#f59e0b', '#8b5cf6', '#ef4444', '#06b6d4', '#84cc16', '#ec4899'];
+const ALL_ZONES = -1;
+
+export const SeasonPlan: React.FC<SeasonPlanProps> = ({ zones, location }) => {
+  const [selected, setSelected] = useState(ALL_ZONES);
+
+  const report = buildSeasonReport(zones, location);
+  const season = selected === ALL_ZONES ? null : report.seasons[selected];
+  const startMonth = season ? season.startMonth : report.startMonth;
+  const stopMonth = season ? season.stopMonth : report.stopMonth;
+  const seasonCost = season ? season.seasonCost : report.seasonCost;
+
+  // One stacked bar per zone so the totals view shows who drives peak demand
+  const chartData = report.totals.map((t, idx) => {
+    const row: Record<string, string | number> = {
+      month: t.month.substring(0, 3),
+      cost: parseFloat((season ? season.months[idx].monthlyCost : t.monthlyCost).toFixed(2))
+    };
+    report.seasons.forEach((s, zoneIdx) => {
+      if (!season || zoneIdx === selected) row[`zone${zoneIdx}`] = s.months[idx].weeklyGallons;
+    });
+    return row;
+  });
+
+  return (
+    <div className="p-6 border-t border-slate-200 print:break-inside-avoid">
+      <div className="flex flex-col md:flex-row md:justify-between md:items-end gap-4 mb-4">
+        <div>
+          <h3 className="text-lg font-bold text-slate-700">Season Plan</h3>
+          <p className="text-xs text-slate-500">
+            {startMonth
+              ? <>Irrigation season: <strong>{startMonth}</strong> to <strong>{stopMonth}</strong> &middot; Est. season cost <strong>${seasonCost.toFixed(2)}</strong></>
+              : 'Rainfall covers demand all year.'}
+          </p>
+          {report.skippedZones.length > 0 && (
+            <p className="text-[10px] text-amber-600 mt-1">Not included (missing inputs or nozzle): {report.skippedZones.join(', ')}</p>
+          )}
+        </div>
+        <select
+          value={selected}
+          onChange={(e) => setSelected(parseInt(e.target.value))}
+          className="px-2 py-1.5 rounded-lg border border-gray-300 text-sm outline-none focus:ring-2 focus:ring-brand-500 print:hidden"
+        >
+          <option value={ALL_ZONES}>All zones (totals)</option>
+          {report.seasons.map((s, idx) => <option key={idx} value={idx}>{s.zoneName}</option>)}
+        </select>
+      </div>
+
+      <div className="bg-slate-50 rounded-xl p-4 border border-slate-100 h-72 mb-4">
+        <ResponsiveContainer width="100%" height="100%">
+          <ComposedChart data={chartData} margin={{ top: 5, right: 10, bottom: 5, left: 0 }}>
+            <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#e2e8f0" />
+            <XAxis dataKey="month" tick={{ fontSize: 11, fill: '#64748b' }} />
+            <YAxis yAxisId="gal" tick={{ fontSize: 11, fill: '#64748b' }} />
+            <YAxis yAxisId="cost" orientation="right" tick={{ fontSize: 11, fill: '#64748b' }} tickFormatter={(v) => `$${v}`} />
+            <Tooltip contentStyle={{ borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)' }} />
+            <Legend wrapperStyle={{ fontSize: 11 }} />
+            {report.seasons.map((s, idx) => (!season || idx === selected) && (
+              <Bar key={idx} yAxisId="gal" dataKey={`zone${idx}`} name={`${s.zoneName} (gal/wk)`} stackId="gal" fill={ZONE_COLORS[idx % ZONE_COLORS.length]} />
+            ))}
+            <Line yAxisId="cost" type="monotone" dataKey="cost" name="Monthly cost ($)" stroke="#0f172a" strokeWidth={2} dot={false} />
+          </ComposedChart>
+        </ResponsiveContainer>
+      </div>
+
+      <div className="overflow-x-auto border border-slate-100 rounded-xl">
+        {season ? (
+          <table className="w-full text-sm text-left">
+            <thead className="bg-slate-50 text-slate-500 font-semibold uppercase text-xs border-b">
+              <tr>
+                <th className="px-4 py-2">Month</th>
+                <th className="px-4 py-2">ET / Rain</th>
+                <th className="px-4 py-2">Net Need</th>
+                <th className="px-4 py-2">Wkly Time</th>
+                <th className="px-4 py-2">Freq</th>
+                <th className="px-4 py-2">Cycles</th>
+                <th className="px-4 py-2">Wkly Gal</th>
+                <th className="px-4 py-2">Mo. Cost</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {season.months.map(m => (
+                <tr key={m.month} className={m.isActive ? 'hover:bg-slate-50/50' : 'text-slate-400'}>
+                  <td className="px-4 py-2 font-medium">{m.month}</td>
+                  <td className="px-4 py-2">{m.estWeeklyEt}" / {m.estWeeklyRain}"</td>
+                  <td className="px-4 py-2">{m.netWeeklyInches}"</td>
+                  {m.isActive ? (
+                    <>
+                      <td className="px-4 py-2 font-bold text-slate-700">{m.weeklyMinutes} m</td>
+                      <td className="px-4 py-2">{m.frequency} Days</td>
+                      <td className="px-4 py-2 text-brand-600 font-medium">{m.minutesPerCycle}m x {m.cyclesPerDay}</td>
+                      <td className="px-4 py-2">{m.weeklyGallons.toLocaleString()}</td>
+                      <td className="px-4 py-2">${m.monthlyCost.toFixed(2)}</td>
+                    </>
+                  ) : (
+                    <td className="px-4 py-2 text-xs uppercase font-bold" colSpan={5}>Off</td>
+                  )}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        ) : (
+          <table className="w-full text-sm text-left">
+            <thead className="bg-slate-50 text-slate-500 font-semibold uppercase text-xs border-b">
+              <tr>
+                <th className="px-4 py-2">Month</th>
+                <th className="px-4 py-2">Active Zones</th>
+                <th className="px-4 py-2">Wkly Gal</th>
+                <th className="px-4 py-2">Mo. Cost</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-100">
+              {report.totals.map(t => (
+                <tr key={t.month} className={t.activeZones > 0 ? 'hover:bg-slate-50/50' : 'text-slate-400'}>
+                  <td className="px-4 py-2 font-medium">{t.month}</td>
+                  <td className="px-4 py-2">{t.activeZones} / {zones.length}</td>
+                  <td className="px-4 py-2">{t.weeklyGallons.toLocaleString()}</td>
+                  <td className="px-4 py-2">${t.monthlyCost.toFixed(2)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+      {season && <p className="text-[10px] text-slate-400 mt-2">Climate: {season.climateLabel}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,117 @@
+import React, { useState } from 'react';
+import { ZoneSpecies } from '../types';
+import { getSpecies, searchSpecies, getPlantRegion, getSpeciesWaterUse, getSpeciesFactor, summarizeHydrozone } from '../services/plantDatabase';
+
+interface SpeciesPickerProps {
+  species: ZoneSpecies[];
+  zipCode: string;
+  zoneType: string;
+  onChange: (species: ZoneSpecies[]) => void;
+}
+
+const MAX_RESULTS = 8;
+
+const WATER_USE_COLORS: Record<string, string> = {
+  "Very Low": "bg-amber-100 text-amber-800",
+  "Low": "bg-yellow-100 text-yellow-800",
+  "Moderate": "bg-green-100 text-green-800",
+  "High": "bg-blue-100 text-blue-800"
+};
+
+export const SpeciesPicker: React.FC<SpeciesPickerProps> = ({ species, zipCode, zoneType, onChange }) => {
+  const [query, setQuery] = useState('');
+  const region = getPlantRegion(zipCode);
+  const summary = summarizeHydrozone(species, region);
+  const selectedIds = new Set(species.map(s => s.speciesId));
+  const results = query
+    ? searchSpecies(query, zoneType.includes('Turf')).filter(s => !selectedIds.has(s.id)).slice(0, MAX_RESULTS)
+    : [];
+
+  const handleAdd = (speciesId: string) => {
+    onChange([...species, { speciesId, sharePercent: 0 }]);
+    setQuery('');
+  };
+
+  const cellInput = "w-full px-2 py-1 rounded border border-gray-300 text-sm outline-none focus:ring-2 focus:ring-brand-500";
+
+  return (
+    <div className="md:col-span-2 bg-slate-50 rounded-lg border border-slate-200 p-3">
+      <div className="mb-2">
+        <h4 className="text-sm font-semibold text-gray-700">Plant Species</h4>
+        <p className="text-[10px] text-gray-500">Optional. Replaces the zone type's plant factor and root depth with the mix below ({region} ratings).</p>
+      </div>
+
+      <input
+        type="text"
+        placeholder="Search by common or botanical name..."
+        value={query}
+        onChange={(e) => setQuery(e.target.value)}
+        className={cellInput}
+      />
+      {results.length > 0 && (
+        <ul className="mt-1 bg-white border border-slate-200 rounded divide-y divide-slate-100">
+          {results.map(s => (
+            <li key={s.id}>
+              <button onClick={() => handleAdd(s.id)} className="w-full text-left px-2 py-1.5 text-sm hover:bg-brand-50 flex justify-between">
+                <span>{s.commonName} <span className="italic text-xs text-slate-400">{s.botanicalName}</span></span>
+                <span className="text-xs text-slate-500">{s.type} &middot; {getSpeciesWaterUse(s, region)}</span>
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {species.length > 0 && (
+        <table className="w-full text-sm mt-2">
+          <thead className="text-[10px] text-slate-400 uppercase">
+            <tr>
+              <th className="text-left font-bold pb-1">Species</th>
+              <th className="text-left font-bold pb-1 w-24">Water Use</th>
+              <th className="text-left font-bold pb-1 w-20">Share (%)</th>
+              <th className="w-6"></th>
+            </tr>
+          </thead>
+          <tbody>
+            {species.map(entry => {
+              const s = getSpecies(entry.speciesId);
+              if (!s) return null;
+              const waterUse = getSpeciesWaterUse(s, region);
+              return (
+                <tr key={entry.speciesId}>
+                  <td className="pr-2 pb-1">
+                    {s.commonName}
+                    <span className="text-[10px] text-slate-400 ml-1">Kc {getSpeciesFactor(s, region)} &middot; {s.rootDepthIn}" roots</span>
+                  </td>
+                  <td className="pr-2 pb-1">
+                    <span className={`text-[10px] font-bold px-1.5 py-0.5 rounded ${WATER_USE_COLORS[waterUse]}`}>{waterUse}</span>
+                  </td>
+                  <td className="pr-2 pb-1">
+                    <input
+                      type="number"
+                      placeholder="Even"
+                      value={entry.sharePercent || ''}
+                      onChange={(e) => onChange(species.map(m => m.speciesId === entry.speciesId ? { ...m, sharePercent: parseFloat(e.target.value) || 0 } : m))}
+                      className={cellInput}
+                    />
+                  </td>
+                  <td className="pb-1 text-right">
+                    <button onClick={() => onChange(species.filter(m => m.speciesId !== entry.speciesId))} className="text-xs text-slate-400 hover:text-red-600 px-1">✕</button>
+                  </td>
+                </tr>
+              );
+            })}
+          </tbody>
+        </table>
+      )}
+
+      {summary && (
+        <div className="mt-2 pt-2 border-t border-slate-200 text-xs text-slate-600">
+          Hydrozone coefficient <strong>{summary.coefficient}</strong> &middot; Root depth <strong>{summary.rootDepthIn}"</strong>
+          {summary.mixWarning && (
+            <p className="mt-1 text-amber-700"><strong>Mixed water use:</strong> {summary.mixWarning}</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { SavedZone } from '../types';
+import { buildWaterBudget, ETAF_BY_LANDSCAPE, CONVERSION_PLANT_FACTOR, CONVERSION_EFFICIENCY } from '../services/waterBudget';
+
+interface WaterBudgetReportProps {
+  zones: SavedZone[];
+}
+
+export const WaterBudgetReport: React.FC<WaterBudgetReportProps> = ({ zones }) => {
+  const [landscapeType, setLandscapeType] = useState('Residential');
+  const [etoOverride, setEtoOverride] = useState('');
+  const [effectivePrecip, setEffectivePrecip] = useState('');
+
+  const budget = buildWaterBudget(zones, {
+    landscapeType,
+    annualEtoInches: parseFloat(etoOverride) || undefined,
+    effectivePrecipInches: parseFloat(effectivePrecip) || 0
+  });
+
+  const inputClass = "w-full px-2 py-1.5 rounded-lg border border-gray-300 text-sm outline-none focus:ring-2 focus:ring-brand-500";
+  const labelClass = "block text-[10px] font-bold text-slate-500 uppercase mb-1";
+
+  return (
+    <div className="p-6 border-t border-slate-200 print:break-inside-avoid">
+      <div className="flex flex-col md:flex-row md:justify-between md:items-start gap-4 mb-4">
+        <div>
+          <h3 className="text-lg font-bold text-slate-700">Water Budget (MAWA vs ETWU)</h3>
+          <p className="text-xs text-slate-500">
+            ETo {budget.annualEtoInches}"/yr ({budget.etoLabel}) &middot; ETAF {budget.etaf} &middot; {budget.totalAreaSqFt.toLocaleString()} sq ft landscaped
+          </p>
+        </div>
+        <div className="grid grid-cols-3 gap-2 print:hidden">
+          <div>
+            <label className={labelClass}>Landscape</label>
+            <select value={landscapeType} onChange={(e) => setLandscapeType(e.target.value)} className={inputClass}>
+              {Object.keys(ETAF_BY_LANDSCAPE).map(t => <option key={t} value={t}>{t}</option>)}
+            </select>
+          </div>
+          <div>
+            <label className={labelClass}>Annual ETo (in)</label>
+            <input type="number" placeholder={String(budget.annualEtoInches)} value={etoOverride} onChange={(e) => setEtoOverride(e.target.value)} className={inputClass} />
+          </div>
+          <div>
+            <label className={labelClass}>Eff. Rain (in)</label>
+            <input type="number" placeholder="0" value={effectivePrecip} onChange={(e) => setEffectivePrecip(e.target.value)} className={inputClass} />
+          </div>
+        </div>
+      </div>
+
+      <div className="overflow-x-auto">
+        <table className="w-full text-sm text-left">
+          <thead className="bg-slate-50 text-slate-500 font-semibold uppercase text-xs border-b">
+            <tr>
+              <th className="px-4 py-2">Zone</th>
+              <th className="px-4 py-2">Area</th>
+              <th className="px-4 py-2">PF</th>
+              <th className="px-4 py-2">IE</th>
+              <th className="px-4 py-2">MAWA (gal/yr)</th>
+              <th className="px-4 py-2">ETWU (gal/yr)</th>
+              <th className="px-4 py-2"></th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-100">
+            {budget.zones.map((z, idx) => (
+              <tr key={idx}>
+                <td className="px-4 py-2 font-medium text-slate-800">{z.name}</td>
+                <td className="px-4 py-2 text-slate-600">{z.areaSqFt.toLocaleString()}</td>
+                <td className="px-4 py-2 text-slate-600">{z.plantFactor}</td>
+                <td className="px-4 py-2 text-slate-600">{Math.round(z.efficiency * 100)}%</td>
+                <td className="px-4 py-2 text-slate-600">{z.mawaGallons.toLocaleString()}</td>
+                <td className={`px-4 py-2 font-semibold ${z.isOverBudget ? 'text-red-600' : 'text-slate-700'}`}>{z.etwuGallons.toLocaleString()}</td>
+                <td className="px-4 py-2 text-xs font-bold">
+                  {z.isOverBudget ? <span className="text-red-600">OVER</span> : <span className="text-green-600">OK</span>}
+                </td>
+              </tr>
+            ))}
+          </tbody>
+          <tfoot className="bg-slate-50 font-bold text-slate-700 border-t">
+            <tr>
+              <td className="px-4 py-2" colSpan={4}>LANDSCAPE TOTAL</td>
+              <td className="px-4 py-2">{budget.mawaGallons.toLocaleString()}</td>
+              <td className={`px-4 py-2 ${budget.passes ? 'text-green-600' : 'text-red-600'}`}>{budget.etwuGallons.toLocaleString()}</td>
+              <td className="px-4 py-2 text-xs">
+                {budget.passes ? <span className="text-green-600">PASS</span> : <span className="text-red-600">FAIL</span>}
+              </td>
+            </tr>
+          </tfoot>
+        </table>
+      </div>
+
+      {budget.skippedZones.length > 0 && (
+        <p className="text-xs text-slate-400 mt-2">Not counted (no area entered): {budget.skippedZones.join(', ')}</p>
+      )}
+
+      {!budget.passes && (
+        <div className="mt-4 bg-amber-50 border border-amber-200 rounded-lg p-4 text-sm text-amber-900">
+          <p className="font-semibold mb-1">
+            Over budget by {(budget.etwuGallons - budget.mawaGallons).toLocaleString()} gal/yr.
+            {budget.suggestions.length > 0 && ` Convert to low water use plants (PF ${CONVERSION_PLANT_FACTOR}) on drip (IE ${Math.round(CONVERSION_EFFICIENCY * 100)}%):`}
+          </p>
+          <ul className="list-disc ml-5">
+            {budget.suggestions.map((s, idx) => (
+              <li key={idx}>{s.name}: saves {s.conversionSavingsGallons.toLocaleString()} gal/yr</li>
+            ))}
+          </ul>
+          {budget.shortfallAfterSuggestions > 0 && (
+            <p className="mt-1">Still {budget.shortfallAfterSuggestions.toLocaleString()} gal/yr over after every conversion; reduce irrigated area.</p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,170 @@
+import React, { useState, useEffect } from 'react';
+import { SavedZone, Weekday, WateringRestrictions } from '../types';
+import { BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine, Cell } from 'recharts';
+import { buildWateringSchedule, formatWindowOffset, DayTimeline } from '../services/wateringScheduler';
+import { WEEKDAYS } from '../services/controllerProgram';
+import { getAllowedWeekdays } from '../services/wateringRestrictions';
+
+interface WindowSchedulerProps {
+  zones: SavedZone[];
+  restrictions?: WateringRestrictions;
+}
+
+const PROGRAM_COLORS: Record<string, string> = { A: '#3b82f6', B: '#10b981', C: '#f59e0b', D: '#8b5cf6' };
+
+// One row per station; alternating transparent "gap" and colored "run" bars stack into a Gantt row
+const toGanttData = (timeline: DayTimeline) => {
+  const stations = Array.from(new Set(timeline.segments.map(s => s.station))).sort((a, b) => a - b);
+  let maxCycles = 0;
+  const rows = stations.map(station => {
+    const segments = timeline.segments.filter(s => s.station === station).sort((a, b) => a.start - b.start);
+    maxCycles = Math.max(maxCycles, segments.length);
+    const row: Record<string, string | number> = {
+      name: `${station}. ${segments[0].zoneName.length > 12 ? segments[0].zoneName.substring(0, 12) + '...' : segments[0].zoneName}`,
+      program: segments[0].program
+    };
+    let cursor = 0;
+    segments.forEach((seg, idx) => {
+      row[`gap${idx}`] = seg.start - cursor;
+      row[`run${idx}`] = seg.end - seg.start;
+      cursor = seg.end;
+    });
+    return row;
+  });
+  return { rows, maxCycles };
+};
+
+export const WindowScheduler: React.FC<WindowSchedulerProps> = ({ zones, restrictions }) => {
+  const [windowStart, setWindowStart] = useState('22:00');
+  const [windowEnd, setWindowEnd] = useState('06:00');
+  const [programCount, setProgramCount] = useState(2);
+  const [allowedDays, setAllowedDays] = useState<Weekday[]>(() => getAllowedWeekdays(restrictions) || [...WEEKDAYS]);
+  const [selectedDay, setSelectedDay] = useState<Weekday | null>(null);
+
+  // Day toggles are a what-if on top of the restrictions; start over when the restrictions change
+  const restrictedDaysKey = (getAllowedWeekdays(restrictions) || WEEKDAYS).join(',');
+  useEffect(() => {
+    setAllowedDays(getAllowedWeekdays(restrictions) || [...WEEKDAYS]);
+  }, [restrictedDaysKey]);
+
+  const schedule = buildWateringSchedule(zones, {
+    windowStart,
+    windowEnd,
+    programCount,
+    allowedDays,
+    restrictions
+  });
+  // Default to the busiest day so the tightest fit is what the user sees first
+  const busiest = schedule.days.reduce<DayTimeline | null>((max, d) => (!max || d.totalMinutes > max.totalMinutes ? d : max), null);
+  const timeline = schedule.days.find(d => d.day === selectedDay) || busiest;
+  const gantt = timeline ? toGanttData(timeline) : { rows: [], maxCycles: 0 };
+  const xMax = Math.max(schedule.windowMinutes, timeline?.totalMinutes || 0);
+
+  const toggleDay = (day: Weekday) => {
+    setAllowedDays(prev => prev.includes(day) ? prev.filter(d => d !== day) : [...prev, day]);
+  };
+
+  return (
+    <div className="p-6 border-t border-slate-200 print:break-inside-avoid">
+      <h3 className="text-lg font-bold text-slate-700 mb-1">Watering Window Scheduler</h3>
+      <p className="text-xs text-slate-500 mb-4">Stations run one at a time; other zones run while a zone soaks.</p>
+
+      <div className="flex flex-wrap items-end gap-4 mb-4 print:hidden">
+        <div>
+          <label className="block text-[10px] font-bold text-slate-400 uppercase mb-1">Window</label>
+          <div className="flex items-center gap-1">
+            <input type="time" value={windowStart} onChange={(e) => setWindowStart(e.target.value)} className="px-2 py-1.5 rounded-lg border border-gray-300 text-sm outline-none focus:ring-2 focus:ring-brand-500" />
+            <span className="text-slate-400 text-xs">to</span>
+            <input type="time" value={windowEnd} onChange={(e) => setWindowEnd(e.target.value)} className="px-2 py-1.5 rounded-lg border border-gray-300 text-sm outline-none focus:ring-2 focus:ring-brand-500" />
+          </div>
+        </div>
+        <div>
+          <label className="block text-[10px] font-bold text-slate-400 uppercase mb-1">Programs</label>
+          <select value={programCount} onChange={(e) => setProgramCount(parseInt(e.target.value))} className="px-2 py-1.5 rounded-lg border border-gray-300 text-sm outline-none focus:ring-2 focus:ring-brand-500">
+            {[1, 2, 3, 4].map(n => <option key={n} value={n}>{n}</option>)}
+          </select>
+        </div>
+        <div>
+          <label className="block text-[10px] font-bold text-slate-400 uppercase mb-1">Allowed Days</label>
+          <div className="flex gap-1">
+            {WEEKDAYS.map(day => (
+              <button
+                key={day}
+                onClick={() => toggleDay(day)}
+                className={`text-xs px-2 py-1.5 rounded font-semibold border transition-colors
+                  ${allowedDays.includes(day) ? 'bg-brand-600 text-white border-brand-600' : 'bg-white text-slate-400 border-slate-200'}`}
+              >
+                {day}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {schedule.warnings.length > 0 && (
+        <ul className="mb-4 p-3 bg-amber-50 border-l-4 border-amber-400 text-amber-800 rounded-md text-xs space-y-1">
+          {schedule.warnings.map((w, idx) => <li key={idx}>{w}</li>)}
+        </ul>
+      )}
+
+      {timeline && (
+        <>
+          <div className="flex flex-wrap items-center gap-2 mb-3">
+            {schedule.days.map(d => (
+              <button
+                key={d.day}
+                onClick={() => setSelectedDay(d.day)}
+                className={`text-xs px-2 py-1 rounded border font-medium
+                  ${d.day === timeline.day ? 'bg-slate-800 text-white border-slate-800' : 'bg-white text-slate-600 border-slate-200 hover:bg-slate-50'}
+                  ${d.fits ? '' : 'ring-1 ring-amber-400'}`}
+              >
+                {d.day} · {d.totalMinutes}m
+              </button>
+            ))}
+            <span className={`ml-auto text-xs font-semibold ${timeline.fits ? 'text-green-600' : 'text-amber-600'}`}>
+              {timeline.fits ? '✓ Fits window' : '⚠ Exceeds window'} ({timeline.totalMinutes} / {schedule.windowMinutes} min)
+            </span>
+          </div>
+
+          <div className="bg-slate-50 rounded-xl p-4 border border-slate-100" style={{ height: Math.max(160, gantt.rows.length * 36 + 60) }}>
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={gantt.rows} layout="vertical" margin={{ top: 5, right: 20, bottom: 5, left: 20 }}>
+                <CartesianGrid strokeDasharray="3 3" horizontal={false} stroke="#e2e8f0" />
+                <XAxis
+                  type="number"
+                  domain={[0, xMax]}
+                  tick={{fontSize: 11, fill: '#64748b'}}
+                  tickFormatter={(v) => formatWindowOffset(windowStart, v)}
+                />
+                <YAxis type="category" dataKey="name" width={110} tick={{fontSize: 11, fill: '#64748b'}} />
+                <Tooltip
+                  cursor={{fill: '#f1f5f9'}}
+                  contentStyle={{borderRadius: '8px', border: 'none', boxShadow: '0 4px 6px -1px rgba(0, 0, 0, 0.1)'}}
+                  formatter={(value: number, key: string) => key.startsWith('gap') ? [null, null] : [`${value} min`, `Cycle ${Number(key.replace('run', '')) + 1}`]}
+                />
+                <ReferenceLine x={schedule.windowMinutes} stroke="#ef4444" strokeDasharray="4 4" label={{ value: 'Window End', fontSize: 10, fill: '#ef4444', position: 'top' }} />
+                {Array.from({ length: gantt.maxCycles }).flatMap((_, idx) => [
+                  <Bar key={`gap${idx}`} dataKey={`gap${idx}`} stackId="timeline" fill="transparent" isAnimationActive={false} />,
+                  <Bar key={`run${idx}`} dataKey={`run${idx}`} stackId="timeline" radius={2} isAnimationActive={false}>
+                    {gantt.rows.map((row, rowIdx) => (
+                      <Cell key={`cell-${rowIdx}`} fill={PROGRAM_COLORS[row.program as string] || '#64748b'} />
+                    ))}
+                  </Bar>
+                ])}
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+
+          <div className="flex flex-wrap gap-4 mt-3 text-xs text-slate-500">
+            {schedule.programs.map(p => (
+              <span key={p.program} className="flex items-center gap-1.5">
+                <span className="w-2.5 h-2.5 rounded-sm" style={{ backgroundColor: PROGRAM_COLORS[p.program] || '#64748b' }}></span>
+                <strong className="text-slate-700">Program {p.program}</strong>: {p.wateringDays.join(' ')} · Stations {p.stations.map(s => s.station).join(', ')}
+              </span>
+            ))}
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,56 @@
+import { AdvisorErrorCategory } from "../types";
+
+export class AdvisorError extends Error {
+  category: AdvisorErrorCategory;
+
+  constructor(category: AdvisorErrorCategory, message: string) {
+    super(message);
+    this.name = 'AdvisorError';
+    this.category = category;
+  }
+}
+
+// Failures worth another attempt; the rest fail the same way every time
+export const RETRYABLE_CATEGORIES: AdvisorErrorCategory[] = ['network', 'timeout'];
+
+export const ADVISOR_ERROR_TITLES: Record<AdvisorErrorCategory, string> = {
+  'quota': 'AI quota reached',
+  'network': 'Network problem',
+  'timeout': 'Advisor timed out',
+  'invalid-response': 'Unusable advisor response',
+  'safety': 'Blocked by safety filters',
+  'unavailable': 'Advisor unavailable',
+  'cancelled': 'Request cancelled',
+  'unknown': 'Advisor error'
+};
+
+export const ADVISOR_ERROR_HINTS: Record<AdvisorErrorCategory, string> = {
+  'quota': 'Wait a minute and try again, or switch to the offline advisor.',
+  'network': 'Check your connection and try again.',
+  'timeout': 'The advisor took too long. Try again, or switch to the offline advisor.',
+  'invalid-response': 'The advisor returned a plan that failed validation. Try again.',
+  'safety': 'Try a different photo or zone name.',
+  'unavailable': 'Check the API key, or switch to the offline advisor.',
+  'cancelled': 'The form changed while the plan was being written.',
+  'unknown': 'Try again, or switch to the offline advisor.'
+};
+
+/**
+ * Sorts an error thrown by a provider or the SDK into a category. The SDK reports
+ * HTTP failures as ApiError with a status; fetch failures surface as TypeError.
+ */
+export const classifyAdvisorError = (error: unknown): AdvisorError => {
+  if (error instanceof AdvisorError) return error;
+  const message = error instanceof Error ? error.message : String(error);
+  const status = typeof (error as { status?: unknown })?.status === 'number' ? (error as { status: number }).status : 0;
+
+  if (error instanceof Error && error.name === 'AbortError') return new AdvisorError('cancelled', message);
+  if (error instanceof SyntaxError) return new AdvisorError('invalid-response', message);
+  if (status === 429 || /quota|RESOURCE_EXHAUSTED|rate limit/i.test(message)) return new AdvisorError('quota', message);
+  if (/safety|blocked/i.test(message)) return new AdvisorError('safety', message);
+  if (status === 401 || status === 403 || /API key/i.test(message)) return new AdvisorError('unavailable', message);
+  if (status >= 500 || error instanceof TypeError || /network|fetch|ECONN|UNAVAILABLE/i.test(message)) {
+    return new AdvisorError('network', message);
+  }
+  return new AdvisorError('unknown', message);
+};
@@ -0,0 +1,153 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { PlantFormData } from '../types';
+import { analyzeZonePhoto, clearAdvisorCache, generateWateringPlan } from './advisorProvider';
+import { DEFAULT_ADVISOR_FIXTURES, createMockAdvisorProvider } from './mockAdvisor';
+import { offlineAdvisorProvider } from './offlineAdvisor';
+import { calculateZone } from './zoneCalculator';
+
+const makeForm = (overrides: Partial<PlantFormData> = {}): PlantFormData => ({
+  customZoneName: 'Front Lawn',
+  zoneType: 'Cool Season Turf Grass',
+  zoneAreaSqFt: '',
+  frequencyMode: 'legacy',
+  location: '',
+  zipCode: '84401',
+  month: 'July',
+  nozzleType: 'Fixed Spray (Generic)',
+  pressure: '',
+  efficiency: '',
+  soilType: 'Loam',
+  slope: '0-15%',
+  sunlight: 'Direct Sun',
+  mowingHeight: '3.0',
+  waterSource: 'Culinary',
+  waterPrice: '3.00',
+  image: null,
+  ...overrides
+});
+
+const planFixture = DEFAULT_ADVISOR_FIXTURES.plans[0] as Record<string, unknown>;
+
+const makePhoto = (name = 'lawn.jpg') => new File(['photo'], name, { type: 'image/jpeg', lastModified: 1 });
+
+beforeEach(() => {
+  clearAdvisorCache();
+});
+
+describe('generateWateringPlan', () => {
+  it('rejects a response missing required fields', async () => {
+    const provider = createMockAdvisorProvider({ plans: [{ zoneName: 'Front Lawn', tips: 'water more' }], weather: [], photos: [] });
+    await expect(generateWateringPlan(provider, makeForm(), null)).rejects.toMatchObject({ category: 'invalid-response' });
+  });
+
+  it('keeps the advisor numbers when there is no baseline', async () => {
+    const provider = createMockAdvisorProvider();
+    const plan = await generateWateringPlan(provider, makeForm(), null);
+    expect(plan.totalWeeklyWaterDurationMinutes).toBe(84);
+    expect(plan.maxRunTimePerCycle).toBe(10);
+    expect(plan.disagreements).toBeUndefined();
+  });
+
+  it('replaces the advisor numbers with the baseline and lists the gaps', async () => {
+    const provider = createMockAdvisorProvider();
+    const form = makeForm();
+    // Baseline: 68 min/week, 20 min max run, 30 min soak, 3 days
+    const stats = calculateZone(form);
+    const plan = await generateWateringPlan(provider, form, stats);
+
+    expect(plan.totalWeeklyWaterDurationMinutes).toBe(stats.weeklyTotalMinutes);
+    expect(plan.maxRunTimePerCycle).toBe(stats.maxRunTime);
+    expect(plan.recommendedSoakTime).toBe(stats.recommendedSoakTime);
+    expect(plan.recommendedFrequencyDaysPerWeek).toBe(stats.suggestedFrequency);
+    expect(plan.disagreements).toEqual([
+      { field: 'totalWeeklyWaterDurationMinutes', label: 'Weekly minutes', modelValue: 84, baselineValue: 68 },
+      { field: 'maxRunTimePerCycle', label: 'Max run time (min)', modelValue: 10, baselineValue: 20 }
+    ]);
+  });
+
+  it('does not report gaps within the tolerance', async () => {
+    const provider = createMockAdvisorProvider({
+      plans: [{ ...planFixture, totalWeeklyWaterDurationMinutes: 70, maxRunTimePerCycle: 20 }],
+      weather: [],
+      photos: []
+    });
+    const form = makeForm();
+    const plan = await generateWateringPlan(provider, form, calculateZone(form));
+    expect(plan.disagreements).toBeUndefined();
+  });
+
+  it('answers a repeated request from the cache', async () => {
+    const provider = createMockAdvisorProvider();
+    const form = makeForm();
+    const stats = calculateZone(form);
+    const first = await generateWateringPlan(provider, form, stats);
+    const second = await generateWateringPlan(provider, { ...form }, stats);
+
+    expect(second).toBe(first);
+    expect(provider.planRequests.length).toBe(1);
+  });
+
+  it('queries again when the zone changes', async () => {
+    const provider = createMockAdvisorProvider();
+    await generateWateringPlan(provider, makeForm(), null);
+    await generateWateringPlan(provider, makeForm({ soilType: 'Clay' }), null);
+    expect(provider.planRequests.length).toBe(2);
+  });
+
+  it('loops through the fixtures', async () => {
+    const provider = createMockAdvisorProvider({
+      plans: [{ ...planFixture, zoneName: 'First' }, { ...planFixture, zoneName: 'Second' }],
+      weather: [],
+      photos: []
+    });
+    const names: string[] = [];
+    for (const soilType of ['Loam', 'Clay', 'Sand']) {
+      names.push((await generateWateringPlan(provider, makeForm({ soilType }), null)).zoneName);
+    }
+    expect(names).toEqual(['First', 'Second', 'First']);
+
+    provider.reset();
+    expect(provider.planRequests.length).toBe(0);
+    expect((await generateWateringPlan(provider, makeForm({ soilType: 'Clay Loam' }), null)).zoneName).toBe('First');
+  });
+});
+
+describe('analyzeZonePhoto', () => {
+  it('suggests only what differs from the zone', async () => {
+    const provider = createMockAdvisorProvider();
+    const analysis = await analyzeZonePhoto(provider, makePhoto(), makeForm());
+
+    // Zone type, slope and spray heads already match; the photo shows part shade and bluegrass
+    expect(analysis.suggestions).toEqual([
+      { field: 'species', value: 'kbg', label: 'Kentucky Bluegrass' },
+      { field: 'sunlight', value: 'Partial Sun', label: 'Partial Sun' }
+    ]);
+    expect(analysis.nozzleFamily).toBe('Fixed spray');
+    expect(analysis.stressAreas).toEqual(['Dry strip along the driveway edge']);
+  });
+
+  it('suggests a head family when the zone uses another', async () => {
+    const provider = createMockAdvisorProvider();
+    const analysis = await analyzeZonePhoto(provider, makePhoto(), makeForm({ nozzleType: 'Rotor (Gear Drive - PGP/5000)' }));
+    expect(analysis.suggestions).toContainEqual({ field: 'nozzleType', value: 'Fixed Spray (Generic)', label: 'Fixed spray' });
+  });
+
+  it('re-reads a cached photo against the current form', async () => {
+    const provider = createMockAdvisorProvider();
+    const photo = makePhoto();
+    await analyzeZonePhoto(provider, photo, makeForm());
+    const analysis = await analyzeZonePhoto(provider, photo, makeForm({ sunlight: 'Partial Sun' }));
+
+    expect(provider.photoRequests.length).toBe(1);
+    expect(analysis.suggestions.map(s => s.field)).toEqual(['species']);
+  });
+
+  it('rejects a response that is not an object', async () => {
+    const provider = createMockAdvisorProvider({ plans: [], weather: [], photos: ['Looks like grass.'] });
+    await expect(analyzeZonePhoto(provider, makePhoto(), makeForm())).rejects.toMatchObject({ category: 'invalid-response' });
+  });
+
+  it('is unavailable for providers that cannot see images', async () => {
+    await expect(analyzeZonePhoto(offlineAdvisorProvider, makePhoto(), makeForm())).rejects.toMatchObject({ category: 'unavailable' });
+  });
+});
@@ -0,0 +1,138 @@
+import { AdvisorProviderId, LiveCalculation, PhotoAnalysis, PlantFormData, WateringSchedule } from "../types";
+import { validateWateringSchedule, reconcileWithBaseline } from "./planValidation";
+import { validatePhotoAnalysis } from "./photoAnalysis";
+import { geminiAdvisorProvider } from "./geminiService";
+import { offlineAdvisorProvider } from "./offlineAdvisor";
+import { mockAdvisorProvider } from "./mockAdvisor";
+import { AdvisorError } from "./advisorErrors";
+import { AdvisorRequestOptions, runAdvisorRequest, getAdvisorCacheKey, createAdvisorCache } from "./advisorRequest";
+
+const ADVISOR_KEY = 'irrigation-calculator:advisor';
+
+export interface LocationWeatherEstimate {
+  estWeeklyEt: number;
+  estWeeklyRain: number;
+  summary: string;
+}
+
+/**
+ * A backend that writes the narrative half of a plan (tips, advice, summaries).
+ * Providers hand back the raw response; generateWateringPlan validates it and holds
+ * its numbers to the calculated baseline, so every backend gets the same checks.
+ */
+export interface AdvisorProvider {
+  id: AdvisorProviderId;
+  label: string;
+  isAvailable: () => boolean; // False when a key or network the provider needs is missing
+  requestPlan: (data: PlantFormData, stats: LiveCalculation | null, signal?: AbortSignal) => Promise<unknown>;
+  // Resolves to null when the provider has no climate estimate to offer
+  requestWeather: (zip: string, month: string, signal?: AbortSignal) => Promise<unknown | null>;
+  // Only providers that can see images implement this
+  analyzePhoto?: (image: File, data: PlantFormData, signal?: AbortSignal) => Promise<unknown>;
+}
+
+// Identical zones and locations are answered from memory instead of re-querying
+const planCache = createAdvisorCache<WateringSchedule>();
+const weatherCache = createAdvisorCache<LocationWeatherEstimate | null>();
+// Raw responses, since suggestions depend on what the form already holds
+const photoCache = createAdvisorCache<unknown>();
+
+export const clearAdvisorCache = () => {
+  planCache.clear();
+  weatherCache.clear();
+  photoCache.clear();
+};
+
+export const ADVISOR_PROVIDERS: AdvisorProvider[] = [
+  geminiAdvisorProvider,
+  offlineAdvisorProvider,
+  ...(process.env.ENABLE_MOCK_ADVISOR ? [mockAdvisorProvider] : [])
+];
+
+export const getAdvisorProvider = (id: AdvisorProviderId): AdvisorProvider =>
+  ADVISOR_PROVIDERS.find(p => p.id === id && p.isAvailable()) || offlineAdvisorProvider;
+
+// Gemini when a key is configured, otherwise the rule-based advisor
+export const getDefaultAdvisorProviderId = (): AdvisorProviderId =>
+  geminiAdvisorProvider.isAvailable() ? geminiAdvisorProvider.id : offlineAdvisorProvider.id;
+
+export const loadAdvisorProviderId = (): AdvisorProviderId => {
+  try {
+    const stored = localStorage.getItem(ADVISOR_KEY);
+    const provider = ADVISOR_PROVIDERS.find(p => p.id === stored);
+    if (provider && provider.isAvailable()) return provider.id;
+  } catch (error) {
+    console.error("Advisor Load Error:", error);
+  }
+  return getDefaultAdvisorProviderId();
+};
+
+export const saveAdvisorProviderId = (id: AdvisorProviderId) => {
+  try {
+    localStorage.setItem(ADVISOR_KEY, id);
+  } catch (error) {
+    console.error("Advisor Save Error:", error);
+  }
+};
+
+export const generateWateringPlan = async (
+  provider: AdvisorProvider,
+  data: PlantFormData,
+  stats: LiveCalculation | null,
+  options: AdvisorRequestOptions = {}
+): Promise<WateringSchedule> => {
+  const cacheKey = getAdvisorCacheKey(provider.id, data, stats);
+  const cached = planCache.get(cacheKey);
+  if (cached) return cached;
+
+  const raw = await runAdvisorRequest(signal => provider.requestPlan(data, stats, signal), options);
+  const { schedule, errors } = validateWateringSchedule(raw);
+  if (!schedule) throw new AdvisorError('invalid-response', errors.join(' '));
+  // The baseline is sent as STRICT; hold the model to it
+  const reconciled = stats ? reconcileWithBaseline(schedule, data, stats) : schedule;
+  // Kept with the plan so figures derived from it don't follow later form edits
+  const plan = { ...reconciled, inputs: { ...data, image: null } };
+  planCache.set(cacheKey, plan);
+  return plan;
+};
+
+export const estimateLocationWeather = async (
+  provider: AdvisorProvider,
+  zip: string,
+  month: string,
+  options: AdvisorRequestOptions = {}
+): Promise<LocationWeatherEstimate | null> => {
+  const cacheKey = getAdvisorCacheKey(provider.id, zip, month);
+  const cached = weatherCache.get(cacheKey);
+  if (cached !== undefined) return cached;
+
+  const raw = await runAdvisorRequest(signal => provider.requestWeather(zip, month, signal), options);
+  let estimate: LocationWeatherEstimate | null = null;
+  if (raw !== null) {
+    const data = (typeof raw === 'object' ? raw : {}) as Record<string, unknown>;
+    const estWeeklyEt = Number(data.estWeeklyEt);
+    const estWeeklyRain = Number(data.estWeeklyRain);
+    if (!(estWeeklyEt >= 0) || !(estWeeklyRain >= 0)) throw new AdvisorError('invalid-response', "Weather estimate is missing ET or rain.");
+    estimate = { estWeeklyEt, estWeeklyRain, summary: typeof data.summary === 'string' ? data.summary : '' };
+  }
+  weatherCache.set(cacheKey, estimate);
+  return estimate;
+};
+
+export const analyzeZonePhoto = async (
+  provider: AdvisorProvider,
+  image: File,
+  data: PlantFormData,
+  options: AdvisorRequestOptions = {}
+): Promise<PhotoAnalysis> => {
+  if (!provider.analyzePhoto) throw new AdvisorError('unavailable', `${provider.label} cannot analyze photos.`);
+  const cacheKey = getAdvisorCacheKey(provider.id, image, data.zipCode);
+  let raw = photoCache.get(cacheKey);
+  if (raw === undefined) {
+    raw = await runAdvisorRequest(signal => provider.analyzePhoto(image, data, signal), options);
+  }
+  const analysis = validatePhotoAnalysis(raw, data);
+  if (!analysis) throw new AdvisorError('invalid-response', "Photo analysis is not a JSON object.");
+  photoCache.set(cacheKey, raw);
+  return analysis;
+};
@@ -0,0 +1,125 @@
+import { AdvisorError, RETRYABLE_CATEGORIES, classifyAdvisorError } from "./advisorErrors";
+
+export const ADVISOR_TIMEOUT_MS = 45000;
+export const ADVISOR_MAX_RETRIES = 2;
+export const RETRY_BASE_DELAY_MS = 1000;
+export const ADVISOR_CACHE_LIMIT = 20;
+
+export interface AdvisorRequestOptions {
+  signal?: AbortSignal;  // Aborted when the user edits the form mid-request
+  timeoutMs?: number;    // Per attempt
+  retries?: number;
+}
+
+const cancelled = () => new AdvisorError('cancelled', 'Request cancelled.');
+
+// Waits ms, rejecting early if the signal aborts
+const delay = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (signal?.aborted) {
+    reject(cancelled());
+    return;
+  }
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(cancelled());
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// One attempt with its own deadline; the caller's signal still cancels it
+const attempt = async <T>(run: (signal: AbortSignal) => Promise<T>, timeoutMs: number, signal?: AbortSignal): Promise<T> => {
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, timeoutMs);
+  const onAbort = () => controller.abort();
+  signal?.addEventListener('abort', onAbort, { once: true });
+
+  try {
+    // Not every provider honours the signal, so the abort is raced as well
+    return await new Promise<T>((resolve, reject) => {
+      controller.signal.addEventListener('abort', () => reject(new Error('Aborted')), { once: true });
+      run(controller.signal).then(resolve, reject);
+    });
+  } catch (error) {
+    if (timedOut) throw new AdvisorError('timeout', `No response after ${Math.round(timeoutMs / 1000)} seconds.`);
+    if (signal?.aborted) throw cancelled();
+    throw classifyAdvisorError(error);
+  } finally {
+    clearTimeout(timer);
+    signal?.removeEventListener('abort', onAbort);
+  }
+};
+
+/**
+ * Runs an advisor call with a per-attempt timeout, retrying network failures and
+ * timeouts with exponential backoff. Every failure comes out as an AdvisorError.
+ */
+export const runAdvisorRequest = async <T>(run: (signal: AbortSignal) => Promise<T>, options: AdvisorRequestOptions = {}): Promise<T> => {
+  const { signal, timeoutMs = ADVISOR_TIMEOUT_MS, retries = ADVISOR_MAX_RETRIES } = options;
+  for (let tryIdx = 0; ; tryIdx++) {
+    if (signal?.aborted) throw cancelled();
+    try {
+      return await attempt(run, timeoutMs, signal);
+    } catch (error) {
+      const advisorError = classifyAdvisorError(error);
+      if (tryIdx >= retries || !RETRYABLE_CATEGORIES.includes(advisorError.category)) throw advisorError;
+      // 1s, 2s, 4s... plus jitter so open tabs don't retry in step
+      await delay(RETRY_BASE_DELAY_MS * 2 ** tryIdx * (1 + Math.random() * 0.25), signal);
+    }
+  }
+};
+
+// Drops blanks and sorts keys so equivalent inputs produce the same key
+const normalize = (value: unknown): unknown => {
+  if (typeof File !== 'undefined' && value instanceof File) {
+    return { name: value.name, size: value.size, lastModified: value.lastModified };
+  }
+  if (Array.isArray(value)) return value.map(normalize);
+  if (typeof value === 'string') return value.trim();
+  if (typeof value === 'object' && value !== null) {
+    const result: Record<string, unknown> = {};
+    Object.keys(value).sort().forEach(key => {
+      const entry = normalize((value as Record<string, unknown>)[key]);
+      const isBlank = entry === undefined || entry === null || entry === '' || (Array.isArray(entry) && entry.length === 0);
+      if (!isBlank) result[key] = entry;
+    });
+    return result;
+  }
+  return value;
+};
+
+export const getAdvisorCacheKey = (...parts: unknown[]) => JSON.stringify(normalize(parts));
+
+export interface AdvisorCache<T> {
+  get: (key: string) => T | undefined;
+  set: (key: string, value: T) => void;
+  clear: () => void;
+}
+
+// Least recently used entries are evicted first
+export const createAdvisorCache = <T>(limit = ADVISOR_CACHE_LIMIT): AdvisorCache<T> => {
+  const entries = new Map<string, T>();
+  return {
+    get: (key) => {
+      if (!entries.has(key)) return undefined;
+      const value = entries.get(key);
+      // Map keeps insertion order, so re-inserting marks the entry as recent
+      entries.delete(key);
+      entries.set(key, value);
+      return value;
+    },
+    set: (key, value) => {
+      entries.delete(key);
+      entries.set(key, value);
+      if (entries.size > limit) entries.delete(entries.keys().next().value);
+    },
+    clear: () => entries.clear()
+  };
+};
@@ -0,0 +1,92 @@
+import { describe, it, expect } from 'vitest';
+import { PlantFormData } from '../types';
+import { DEFAULT_CUP_DIAMETER_IN, DEFAULT_TEST_MINUTES, MIN_AUDIT_CUPS, calculateCatchCanAudit } from './catchCanAudit';
+import { calculateZone } from './zoneCalculator';
+
+// Volume a default 3.5" cup holds at a given catch depth
+const toMl = (inches: number) => inches * Math.PI * Math.pow(DEFAULT_CUP_DIAMETER_IN / 2, 2) * 16.387;
+
+const audit = (depths: number[], minutes = DEFAULT_TEST_MINUTES) =>
+  calculateCatchCanAudit(depths.map(toMl), DEFAULT_CUP_DIAMETER_IN, minutes);
+
+// Average 0.2", driest two cups average 0.1"
+const EIGHT_CUPS = [0.2, 0.3, 0.1, 0.2, 0.3, 0.2, 0.1, 0.2];
+
+describe('calculateCatchCanAudit', () => {
+  it('works out net precip rate and DU(lq)', () => {
+    const result = audit(EIGHT_CUPS);
+    expect(result.measuredPrecipRate).toBe(0.8);  // 0.2" x 60 / 15 min
+    expect(result.duLq).toBe(0.5);                // 0.1 / 0.2
+    expect(result.schedulingMultiplier).toBe(1.43); // 1 / (0.4 + 0.6 x 0.5)
+    expect(result.cupVolumesMl).toHaveLength(8);
+  });
+
+  it('scales the rate to the test length', () => {
+    expect(audit(EIGHT_CUPS, 30).measuredPrecipRate).toBe(0.4);
+  });
+
+  it('needs no stretch for a perfectly even catch', () => {
+    const result = audit(Array(12).fill(0.25));
+    expect(result.duLq).toBe(1);
+    expect(result.schedulingMultiplier).toBe(1);
+  });
+
+  it('takes the lowest quarter rounded down', () => {
+    // 10 cups: the two driest (0 and 0.2) average 0.1 against an overall 0.3
+    const result = audit([0, 0.2, 0.35, 0.35, 0.35, 0.35, 0.35, 0.35, 0.4, 0.3]);
+    expect(result.duLq).toBe(0.33);
+    expect(result.schedulingMultiplier).toBe(1.67);
+  });
+
+  it('skips blank and negative readings', () => {
+    const result = calculateCatchCanAudit([...EIGHT_CUPS.map(toMl), NaN, -5], DEFAULT_CUP_DIAMETER_IN, DEFAULT_TEST_MINUTES);
+    expect(result.cupVolumesMl).toHaveLength(8);
+    expect(result.duLq).toBe(0.5);
+  });
+
+  it(`needs at least ${MIN_AUDIT_CUPS} cups and a real cup and test length`, () => {
+    expect(audit(EIGHT_CUPS.slice(1))).toBeNull();
+    expect(calculateCatchCanAudit(EIGHT_CUPS.map(toMl), 0, DEFAULT_TEST_MINUTES)).toBeNull();
+    expect(audit(EIGHT_CUPS, 0)).toBeNull();
+  });
+
+  it('rejects an audit where every cup is dry', () => {
+    expect(audit(Array(8).fill(0))).toBeNull();
+  });
+
+  it('rejects an audit where the driest quarter caught nothing', () => {
+    expect(audit([0, 0, 0.2, 0.3, 0.2, 0.4, 0.3, 0.2])).toBeNull();
+  });
+});
+
+describe('calculateZone with an audit', () => {
+  const makeForm = (overrides: Partial<PlantFormData> = {}): PlantFormData => ({
+    customZoneName: 'Test Zone',
+    zoneType: 'Cool Season Turf Grass',
+    zoneAreaSqFt: '',
+    frequencyMode: 'legacy',
+    location: '',
+    zipCode: '',
+    month: '',
+    nozzleType: 'Fixed Spray (Generic)',
+    pressure: '',
+    efficiency: '',
+    soilType: 'Loam',
+    slope: '0-15%',
+    sunlight: 'Direct Sun',
+    mowingHeight: '3.0',
+    waterSource: 'Culinary',
+    waterPrice: '3.00',
+    image: null,
+    ...overrides
+  });
+
+  it('uses the measured rate and the scheduling multiplier', () => {
+    const calc = calculateZone(makeForm({ audit: audit(EIGHT_CUPS) }));
+    // 1.1875 in/week over 0.8 in/hr x 0.70 (1 / 1.43)
+    expect(calc.precipRate).toBe(0.8);
+    expect(calc.efficiency).toBe(0.7);
+    expect(calc.weeklyTotalMinutes).toBe(128); // ceil(1.1875 / 0.56 * 60)
+    expect(calc.isAudited).toBe(true);
+  });
+});
@@ -0,0 +1,49 @@
+import { CatchCanAudit } from "../types";
+
+const CUBIC_INCHES_PER_ML = 1 / 16.387;
+
+export const DEFAULT_CUP_DIAMETER_IN = 3.5;
+export const DEFAULT_TEST_MINUTES = 15;
+
+// Fewer cups than this can't give a meaningful lowest quarter
+export const MIN_AUDIT_CUPS = 8;
+
+/**
+ * Irrigation Association catch-can math.
+ * - Net PR: average catch depth over the test, scaled to in/hr
+ * - DU(lq): average of the lowest quarter of cups / overall average
+ * - Scheduling multiplier: 1 / (0.4 + 0.6 * DU), the run time stretch needed so the
+ *   dry spots still get the target depth
+ *
+ * Returns null when the driest quarter caught nothing: DU(lq) would be 0 and no run
+ * time can make up for heads that miss part of the zone entirely.
+ */
+export const calculateCatchCanAudit = (
+  cupVolumesMl: number[],
+  cupDiameterIn: number,
+  testMinutes: number
+): CatchCanAudit | null => {
+  const volumes = cupVolumesMl.filter(v => isFinite(v) && v >= 0);
+  if (volumes.length < MIN_AUDIT_CUPS || !(cupDiameterIn > 0) || !(testMinutes > 0)) return null;
+
+  const cupAreaSqIn = Math.PI * Math.pow(cupDiameterIn / 2, 2);
+  const depths = volumes.map(v => (v * CUBIC_INCHES_PER_ML) / cupAreaSqIn);
+  const average = depths.reduce((sum, d) => sum + d, 0) / depths.length;
+  if (average <= 0) return null;
+
+  const sorted = [...depths].sort((a, b) => a - b);
+  const quarter = sorted.slice(0, Math.max(1, Math.floor(sorted.length / 4)));
+  const lowQuarterAverage = quarter.reduce((sum, d) => sum + d, 0) / quarter.length;
+  const duLq = lowQuarterAverage / average;
+  if (parseFloat(duLq.toFixed(2)) <= 0) return null;
+
+  return {
+    cupVolumesMl: volumes,
+    cupDiameterIn,
+    testMinutes,
+    measuredPrecipRate: parseFloat(((average * 60) / testMinutes).toFixed(2)),
+    duLq: parseFloat(duLq.toFixed(2)),
+    schedulingMultiplier: parseFloat((1 / (0.4 + 0.6 * duLq)).toFixed(2)),
+    auditedAt: Date.now()
+  };
+};
@@ -0,0 +1,124 @@
+/**
+ * Bundled monthly climate normals for the service areas we work in most.
+ * Values are monthly totals in inches, January..December. ETo is grass reference ET.
+ *
+ * These are approximate long-term normals rounded to 0.1", good enough for
+ * seasonal scheduling. Replace a station's rows with local weather network
+ * data when tighter numbers are needed.
+ */
+export interface ClimateStation {
+  id: string;
+  name: string;
+  latitude: number;
+  elevationFt: number;
+  plantRegion: string; // Key of PLANT_REGIONS, picks the regional water use class
+  monthlyEto: number[];
+  monthlyRain: number[];
+}
+
+export const CLIMATE_STATIONS: Record<string, ClimateStation> = {
+  SLC: {
+    id: 'SLC',
+    name: 'Salt Lake City, UT',
+    latitude: 40.76,
+    elevationFt: 4226,
+    plantRegion: 'Intermountain',
+    monthlyEto: [0.9, 1.4, 2.7, 4.0, 5.6, 7.0, 7.9, 7.0, 5.0, 3.1, 1.4, 0.8],
+    monthlyRain: [1.4, 1.3, 1.9, 2.0, 2.1, 0.9, 0.6, 0.7, 1.1, 1.6, 1.4, 1.4]
+  },
+  OGDEN: {
+    id: 'OGDEN',
+    name: 'Ogden, UT',
+    latitude: 41.22,
+    elevationFt: 4300,
+    plantRegion: 'Intermountain',
+    monthlyEto: [0.8, 1.3, 2.6, 3.9, 5.4, 6.8, 7.7, 6.8, 4.8, 2.9, 1.3, 0.7],
+    monthlyRain: [1.9, 1.8, 2.3, 2.5, 2.4, 1.2, 0.6, 0.8, 1.3, 2.0, 1.9, 1.9]
+  },
+  LOGAN: {
+    id: 'LOGAN',
+    name: 'Logan, UT',
+    latitude: 41.74,
+    elevationFt: 4535,
+    plantRegion: 'Intermountain',
+    monthlyEto: [0.6, 1.0, 2.2, 3.5, 5.0, 6.3, 7.3, 6.4, 4.4, 2.6, 1.0, 0.5],
+    monthlyRain: [1.4, 1.3, 1.7, 1.9, 2.0, 1.1, 0.7, 0.8, 1.3, 1.5, 1.4, 1.4]
+  },
+  PROVO: {
+    id: 'PROVO',
+    name: 'Provo, UT',
+    latitude: 40.23,
+    elevationFt: 4551,
+    plantRegion: 'Intermountain',
+    monthlyEto: [0.9, 1.4, 2.7, 4.0, 5.6, 7.0, 7.8, 6.9, 4.9, 3.0, 1.4, 0.8],
+    monthlyRain: [1.3, 1.3, 1.8, 1.8, 1.6, 0.8, 0.6, 0.7, 1.1, 1.5, 1.2, 1.3]
+  },
+  PRICE: {
+    id: 'PRICE',
+    name: 'Price / Moab, UT',
+    latitude: 39.6,
+    elevationFt: 5567,
+    plantRegion: 'Intermountain',
+    monthlyEto: [1.0, 1.6, 3.2, 4.8, 6.5, 7.8, 8.3, 7.3, 5.4, 3.4, 1.6, 0.9],
+    monthlyRain: [0.6, 0.6, 0.8, 0.8, 0.8, 0.4, 0.8, 0.9, 0.9, 1.0, 0.6, 0.5]
+  },
+  ST_GEORGE: {
+    id: 'ST_GEORGE',
+    name: 'St. George, UT',
+    latitude: 37.1,
+    elevationFt: 2860,
+    plantRegion: 'Desert Southwest',
+    monthlyEto: [1.5, 2.2, 3.8, 5.3, 7.2, 8.4, 8.8, 7.9, 6.1, 4.0, 2.0, 1.3],
+    monthlyRain: [1.1, 1.2, 1.0, 0.4, 0.3, 0.1, 0.5, 0.6, 0.4, 0.6, 0.6, 0.7]
+  },
+  BOISE: {
+    id: 'BOISE',
+    name: 'Boise, ID',
+    latitude: 43.6,
+    elevationFt: 2730,
+    plantRegion: 'Intermountain',
+    monthlyEto: [0.7, 1.2, 2.5, 3.9, 5.3, 6.6, 8.0, 6.9, 4.6, 2.7, 1.1, 0.6],
+    monthlyRain: [1.4, 1.1, 1.4, 1.3, 1.3, 0.7, 0.3, 0.2, 0.5, 0.8, 1.3, 1.4]
+  },
+  DENVER: {
+    id: 'DENVER',
+    name: 'Denver, CO',
+    latitude: 39.74,
+    elevationFt: 5280,
+    plantRegion: 'Intermountain',
+    monthlyEto: [1.2, 1.6, 2.9, 4.2, 5.4, 6.7, 7.2, 6.3, 4.8, 3.2, 1.7, 1.1],
+    monthlyRain: [0.4, 0.5, 1.0, 1.7, 2.1, 1.9, 2.2, 1.8, 1.1, 1.0, 0.8, 0.4]
+  },
+  LAS_VEGAS: {
+    id: 'LAS_VEGAS',
+    name: 'Las Vegas, NV',
+    latitude: 36.17,
+    elevationFt: 2030,
+    plantRegion: 'Desert Southwest',
+    monthlyEto: [2.0, 2.8, 4.6, 6.3, 8.2, 9.4, 9.6, 8.6, 6.8, 4.6, 2.6, 1.8],
+    monthlyRain: [0.5, 0.8, 0.4, 0.2, 0.1, 0.1, 0.4, 0.3, 0.3, 0.3, 0.4, 0.5]
+  },
+  PHOENIX: {
+    id: 'PHOENIX',
+    name: 'Phoenix, AZ',
+    latitude: 33.45,
+    elevationFt: 1086,
+    plantRegion: 'Desert Southwest',
+    monthlyEto: [2.3, 3.1, 4.9, 6.6, 8.5, 9.3, 9.0, 8.1, 6.7, 4.9, 2.9, 2.1],
+    monthlyRain: [0.9, 0.9, 1.0, 0.3, 0.1, 0.0, 1.1, 1.0, 0.6, 0.6, 0.7, 0.9]
+  }
+};
+
+// First three digits of the zip code -> nearest station
+export const ZIP_PREFIX_STATIONS: Record<string, string> = {
+  "840": "SLC", "841": "SLC",
+  "843": "LOGAN",
+  "844": "OGDEN",
+  "845": "PRICE",
+  "846": "PROVO",
+  "847": "ST_GEORGE",
+  "836": "BOISE", "837": "BOISE",
+  "800": "DENVER", "801": "DENVER", "802": "DENVER", "803": "DENVER", "804": "DENVER", "805": "DENVER",
+  "889": "LAS_VEGAS", "890": "LAS_VEGAS", "891": "LAS_VEGAS",
+  "850": "PHOENIX", "852": "PHOENIX", "853": "PHOENIX"
+};
@@ -0,0 +1,82 @@
+import { ClimateSource } from "../types";
+import { CLIMATE_STATIONS, ZIP_PREFIX_STATIONS, ClimateStation } from "./climateData";
+import { AdvisorProvider, estimateLocationWeather } from "./advisorProvider";
+import { AdvisorRequestOptions } from "./advisorRequest";
+
+export const MONTHS = ["January", "February", "March", "April", "May", "June", "July", "August", "September", "October", "November", "December"];
+
+const DAYS_IN_MONTH = [31, 28.25, 31, 30, 31, 30, 31, 31, 30, 31, 30, 31];
+
+export interface WeeklyClimate {
+  estWeeklyEt: number;
+  estWeeklyRain: number;
+  source: ClimateSource;
+}
+
+/**
+ * A source of weekly ET / rain normals. Returns null when it has no data for
+ * the location so the next provider in the chain can be tried.
+ */
+export interface ClimateProvider {
+  id: ClimateSource['provider'];
+  getWeeklyClimate: (zip: string, month: string) => Promise<WeeklyClimate | null>;
+}
+
+// Converts a monthly total to a weekly amount for that month
+const toWeekly = (monthlyInches: number, monthIdx: number) =>
+  parseFloat(((monthlyInches * 7) / DAYS_IN_MONTH[monthIdx]).toFixed(2));
+
+export const getClimateStation = (zip: string): ClimateStation | undefined =>
+  CLIMATE_STATIONS[ZIP_PREFIX_STATIONS[zip.trim().substring(0, 3)]];
+
+// Weekly ET / rain normals for every month of the year at a station
+export const getStationWeeklyNormals = (station: ClimateStation) =>
+  MONTHS.map((_, monthIdx) => ({
+    estWeeklyEt: toWeekly(station.monthlyEto[monthIdx], monthIdx),
+    estWeeklyRain: toWeekly(station.monthlyRain[monthIdx], monthIdx)
+  }));
+
+export const bundledClimateProvider: ClimateProvider = {
+  id: 'bundled',
+  getWeeklyClimate: async (zip, month) => {
+    const monthIdx = MONTHS.indexOf(month);
+    const station = getClimateStation(zip);
+    if (!station || monthIdx < 0) return null;
+    return {
+      estWeeklyEt: toWeekly(station.monthlyEto[monthIdx], monthIdx),
+      estWeeklyRain: toWeekly(station.monthlyRain[monthIdx], monthIdx),
+      source: { provider: 'bundled', label: `Normals: ${station.name}` }
+    };
+  }
+};
+
+export const createAdvisorClimateProvider = (advisor: AdvisorProvider, options: AdvisorRequestOptions = {}): ClimateProvider => ({
+  id: 'advisor',
+  getWeeklyClimate: async (zip, month) => {
+    const data = await estimateLocationWeather(advisor, zip, month, options);
+    if (!data) return null;
+    return {
+      estWeeklyEt: data.estWeeklyEt,
+      estWeeklyRain: data.estWeeklyRain,
+      source: { provider: 'advisor', label: `Advisor estimate: ${advisor.label}` }
+    };
+  }
+});
+
+/**
+ * Tries the bundled dataset first; the advisor is only asked when aiFallback
+ * is given and no bundled station covers the zip code.
+ */
+export const fetchWeeklyClimate = async (
+  zip: string,
+  month: string,
+  aiFallback: AdvisorProvider | null,
+  options: AdvisorRequestOptions = {}
+): Promise<WeeklyClimate> => {
+  const providers = aiFallback ? [bundledClimateProvider, createAdvisorClimateProvider(aiFallback, options)] : [bundledClimateProvider];
+  for (const provider of providers) {
+    const result = await provider.getWeeklyClimate(zip, month);
+    if (result) return result;
+  }
+  throw new Error(`No bundled climate data for zip ${zip}.`);
+};
@@ -0,0 +1,185 @@
+import { SavedZone, Weekday } from "../types";
+
+export const WEEKDAYS: Weekday[] = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+/**
+ * Neutral controller program (format "irrigation-calculator/controller-program", v1).
+ *
+ * One entry per station, in station order:
+ * - wateringDays: days of the week the station runs (spread evenly over the week)
+ * - startTime: "HH:MM" (24h) when the station's first cycle begins
+ * - cycles / runMinutesPerCycle / soakMinutes: cycle-and-soak settings; soak is 0 for single-cycle stations
+ * - totalMinutesPerDay: cycles x runMinutesPerCycle (soak excluded)
+ *
+ * restrictionWarnings is set when the program does not meet the watering restrictions
+ * (e.g. an odd/even date rule, or runs into no-watering hours) and must be adjusted by hand.
+ *
+ * Stations are stacked back-to-back by run time only. Controllers with cycle-and-soak
+ * run other stations during each soak, so soak time does not push later starts out.
+ */
+export interface StationProgram {
+  station: number;
+  zoneName: string;
+  wateringDays: Weekday[];
+  startTime: string;
+  cycles: number;
+  runMinutesPerCycle: number;
+  soakMinutes: number;
+  totalMinutesPerDay: number;
+}
+
+export interface ControllerProgram {
+  format: 'irrigation-calculator/controller-program';
+  version: 1;
+  generatedAt: string;
+  stations: StationProgram[];
+  restrictionWarnings?: string[];
+}
+
+export interface ControllerProgramOptions {
+  startTime?: string; // "HH:MM", defaults to 04:00
+  allowedDays?: Weekday[] | null; // Restricted days; null/undefined means any day
+}
+
+export interface ControllerAdapter {
+  id: string;
+  label: string;
+  toLayout: (program: ControllerProgram) => unknown;
+}
+
+const DEFAULT_START_TIME = '04:00';
+
+export const toMinutes = (time: string) => {
+  const [h, m] = time.split(':').map(Number);
+  return (h || 0) * 60 + (m || 0);
+};
+
+export const formatClock = (totalMinutes: number) => {
+  const wrapped = ((Math.round(totalMinutes) % 1440) + 1440) % 1440;
+  const h = Math.floor(wrapped / 60);
+  const m = wrapped % 60;
+  return `${String(h).padStart(2, '0')}:${String(m).padStart(2, '0')}`;
+};
+
+// Spreads N watering days as evenly as possible, starting Monday
+export const pickWateringDays = (frequency: number): Weekday[] => {
+  const days = Math.max(1, Math.min(7, Math.round(frequency)));
+  const picked = new Set<number>();
+  for (let i = 0; i < days; i++) {
+    picked.add((1 + Math.round((i * 7) / days)) % 7);
+  }
+  return WEEKDAYS.filter((_, idx) => picked.has(idx));
+};
+
+// Picks N days from the allowed list, spaced as evenly as possible
+export const spreadDays = (allowed: Weekday[], count: number): Weekday[] => {
+  const ordered = WEEKDAYS.filter(d => allowed.includes(d));
+  if (count >= ordered.length) return ordered;
+  const picked = new Set<Weekday>();
+  for (let i = 0; i < count; i++) {
+    picked.add(ordered[Math.floor((i * ordered.length) / count)]);
+  }
+  return ordered.filter(d => picked.has(d));
+};
+
+export const buildControllerProgram = (zones: SavedZone[], options: ControllerProgramOptions = {}): ControllerProgram => {
+  let clock = toMinutes(options.startTime || DEFAULT_START_TIME);
+
+  const stations = zones.map((zone, idx) => {
+    const { cyclesPerDay, minutesPerCycle, recommendedSoakTime, suggestedFrequency } = zone.stats;
+    const cycles = Math.max(1, cyclesPerDay);
+    const station: StationProgram = {
+      station: idx + 1,
+      zoneName: zone.name,
+      wateringDays: options.allowedDays
+        ? spreadDays(options.allowedDays, suggestedFrequency)
+        : pickWateringDays(suggestedFrequency),
+      startTime: formatClock(clock),
+      cycles,
+      runMinutesPerCycle: minutesPerCycle,
+      soakMinutes: cycles > 1 ? recommendedSoakTime : 0,
+      totalMinutesPerDay: cycles * minutesPerCycle
+    };
+    clock += station.totalMinutesPerDay;
+    return station;
+  });
+
+  return {
+    format: 'irrigation-calculator/controller-program',
+    version: 1,
+    generatedAt: new Date().toISOString(),
+    stations
+  };
+};
+
+// Stations run back to back, so this is how long the whole program keeps the valves busy
+export const getProgramRunMinutes = (program: ControllerProgram) =>
+  program.stations.reduce((sum, s) => sum + s.totalMinutesPerDay, 0);
+
+// --- ADAPTERS ---
+
+const PROGRAM_LETTERS = ['A', 'B', 'C', 'D'];
+
+// Stations sharing the same watering days share a program
+const groupByDays = (stations: StationProgram[]) => {
+  const groups = new Map<string, StationProgram[]>();
+  stations.forEach(s => {
+    const key = s.wateringDays.join(',');
+    groups.set(key, [...(groups.get(key) || []), s]);
+  });
+  return Array.from(groups.values()).map((group, idx) => ({
+    program: PROGRAM_LETTERS[idx] || `P${idx + 1}`,
+    stations: group
+  }));
+};
+
+// Rain Bird ESP-Me style: programs A-D with days and start times; cycle+soak set per station
+export const rainBirdEspAdapter: ControllerAdapter = {
+  id: 'rainbird-esp',
+  label: 'Rain Bird ESP-Me / ESP-TM2',
+  toLayout: (program) => ({
+    controller: 'Rain Bird ESP',
+    ...(program.restrictionWarnings ? { warnings: program.restrictionWarnings } : {}),
+    programs: groupByDays(program.stations).map(({ program: letter, stations }) => ({
+      program: letter,
+      wateringDays: stations[0].wateringDays,
+      startTimes: [stations[0].startTime],
+      stationRunTimes: stations.map(s => ({ station: s.station, runTimeMinutes: s.totalMinutesPerDay }))
+    })),
+    cycleAndSoak: program.stations
+      .filter(s => s.cycles > 1)
+      .map(s => ({ station: s.station, cycleMinutes: s.runMinutesPerCycle, soakMinutes: s.soakMinutes }))
+  })
+};
+
+// Hunter Pro-C / X-Core style: run time per cycle with one program start per cycle, no native soak
+export const hunterProCAdapter: ControllerAdapter = {
+  id: 'hunter-proc',
+  label: 'Hunter Pro-C / X-Core',
+  toLayout: (program) => ({
+    controller: 'Hunter Pro-C',
+    ...(program.restrictionWarnings ? { warnings: program.restrictionWarnings } : {}),
+    programs: groupByDays(program.stations).map(({ program: letter, stations }) => {
+      const cycles = Math.max(...stations.map(s => s.cycles));
+      const soak = Math.max(...stations.map(s => s.soakMinutes));
+      // Stations needing fewer cycles than the program get their daily total spread across its starts
+      const stationRunTimes = stations.map(s => ({
+        station: s.station,
+        runTimeMinutes: Math.ceil(s.totalMinutesPerDay / cycles)
+      }));
+      const blockMinutes = stationRunTimes.reduce((sum, s) => sum + s.runTimeMinutes, 0);
+      const firstStart = toMinutes(stations[0].startTime);
+      // Each start re-runs the whole program, so space starts by program length plus soak
+      const startTimes = Array.from({ length: cycles }, (_, i) => formatClock(firstStart + i * (blockMinutes + soak)));
+      return {
+        program: letter,
+        dayMode: 'Days of Week',
+        wateringDays: stations[0].wateringDays,
+        startTimes,
+        stationRunTimes
+      };
+    })
+  })
+};
+
+export const CONTROLLER_ADAPTERS: ControllerAdapter[] = [rainBirdEspAdapter, hunterProCAdapter];
@@ -0,0 +1,129 @@
+import { DripDesign, DripPlant, DripPlantResult, DripResult, PlantFormData } from "../types";
+import { WATER_USE_FACTORS } from "./plantDatabase";
+
+export const DEFAULT_DRIP_EFFICIENCY = 0.9;
+export const DEFAULT_EMITTER_GPH = 1;
+
+// Longest / shortest plant run time on one valve before we suggest re-emittering
+export const MAX_RUNTIME_SPREAD = 1.5;
+
+const GALLONS_PER_SQFT_INCH = 0.623;
+// in/hr from GPH over sq ft: 231 cu in per gallon / 144 sq in per sq ft
+const IN_PER_GPH_SQFT = 231 / 144;
+
+const round1 = (value: number) => parseFloat(value.toFixed(1));
+const round2 = (value: number) => parseFloat(value.toFixed(2));
+
+export const createDripPlantId = () => `plant-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+export const createDripPlant = (): DripPlant => ({
+  id: createDripPlantId(),
+  count: 1,
+  canopyDiameterFt: 3,
+  waterUse: 'Moderate',
+  emitterGph: DEFAULT_EMITTER_GPH,
+  emittersPerPlant: 2
+});
+
+const isValidPlant = (p: DripPlant) =>
+  p.count > 0 && p.canopyDiameterFt > 0 && p.emitterGph > 0 && p.emittersPerPlant > 0;
+
+const getCanopyArea = (p: DripPlant) => Math.PI * Math.pow(p.canopyDiameterFt / 2, 2);
+
+// True when a drip zone has enough design input to replace the nozzle math
+export const hasDripDesign = (formData: PlantFormData): boolean => {
+  const design = formData.drip;
+  if (formData.zoneType !== 'Drip' || !design) return false;
+  if (design.layout === 'dripline') {
+    return [design.driplineGph, design.emitterSpacingIn, design.rowSpacingIn, formData.zoneAreaSqFt]
+      .every(v => parseFloat(v || '') > 0);
+  }
+  return design.plants.some(isValidPlant);
+};
+
+/**
+ * Sizes a drip zone from what the plants need rather than inches over the lawn.
+ * Point-source emitters water each plant's canopy, and the thirstiest plant sets
+ * the valve's run time. Inline dripline wets the whole bed like a very slow sprinkler.
+ */
+export const calculateDripDesign = (
+  design: DripDesign,
+  weeklyEtInches: number,
+  weeklyRainInches: number,
+  efficiency: number,
+  areaSqFt: number
+): DripResult => {
+  const netFor = (plantFactor: number) => Math.max(0, weeklyEtInches * plantFactor - weeklyRainInches);
+
+  if (design.layout === 'dripline') {
+    const plantFactor = WATER_USE_FACTORS[design.driplineWaterUse || ''] || WATER_USE_FACTORS['Moderate'];
+    const gph = parseFloat(design.driplineGph || '0');
+    const emitterSpacing = parseFloat(design.emitterSpacingIn || '0');
+    const rowSpacing = parseFloat(design.rowSpacingIn || '0');
+    const netWeeklyInches = netFor(plantFactor);
+    const precipRate = (231 * gph) / (emitterSpacing * rowSpacing);
+    const runHoursPerWeek = netWeeklyInches / (precipRate * efficiency);
+    const totalGph = (areaSqFt * 144 / (emitterSpacing * rowSpacing)) * gph;
+    return {
+      layout: 'dripline',
+      plants: [],
+      netWeeklyInches: round2(netWeeklyInches),
+      precipRate: round2(precipRate),
+      totalGph: Math.round(totalGph),
+      gallonsPerWeek: Math.round(totalGph * runHoursPerWeek),
+      runHoursPerWeek: round1(runHoursPerWeek)
+    };
+  }
+
+  const plants = design.plants.filter(isValidPlant);
+  const needs = plants.map(p => {
+    const plantFactor = WATER_USE_FACTORS[p.waterUse] || WATER_USE_FACTORS['Moderate'];
+    const gallonsPerPlantWeek = netFor(plantFactor) * getCanopyArea(p) * GALLONS_PER_SQFT_INCH / efficiency;
+    return { plant: p, plantFactor, gallonsPerPlantWeek, runHoursPerWeek: gallonsPerPlantWeek / (p.emitterGph * p.emittersPerPlant) };
+  });
+
+  const hours = needs.map(n => n.runHoursPerWeek);
+  const runHoursPerWeek = Math.max(...hours);
+  const shortest = Math.min(...hours);
+  const totalGph = plants.reduce((sum, p) => sum + p.count * p.emitterGph * p.emittersPerPlant, 0);
+  const canopyArea = plants.reduce((sum, p) => sum + p.count * getCanopyArea(p), 0);
+  const netWeeklyInches = Math.max(...needs.map(n => netFor(n.plantFactor)));
+
+  const warning = shortest > 0 && runHoursPerWeek / shortest > MAX_RUNTIME_SPREAD
+    ? `Plants on this valve need between ${round1(shortest)} and ${round1(runHoursPerWeek)} hours a week. Running long enough for the thirstiest overwaters the rest; change emitter counts to the suggested values so they finish together, or split them onto separate valves.`
+    : undefined;
+
+  // Balanced run time: the plant needing the least from a single emitter gets one,
+  // everyone else gets enough emitters to finish in the same time
+  const balancedHours = Math.min(...needs.map(n => n.gallonsPerPlantWeek / n.plant.emitterGph));
+
+  const results: DripPlantResult[] = needs.map(n => ({
+    id: n.plant.id,
+    plantFactor: n.plantFactor,
+    gallonsPerPlantWeek: round1(n.gallonsPerPlantWeek),
+    runHoursPerWeek: round1(n.runHoursPerWeek),
+    suggestedEmitters: balancedHours > 0
+      ? Math.max(1, Math.round(n.gallonsPerPlantWeek / (balancedHours * n.plant.emitterGph)))
+      : n.plant.emittersPerPlant
+  }));
+
+  return {
+    layout: 'emitters',
+    plants: results,
+    netWeeklyInches: round2(netWeeklyInches),
+    precipRate: canopyArea > 0 ? round2(totalGph * IN_PER_GPH_SQFT / canopyArea) : 0,
+    totalGph: round1(totalGph),
+    gallonsPerWeek: Math.round(totalGph * runHoursPerWeek),
+    runHoursPerWeek: round1(runHoursPerWeek),
+    ...(warning ? { warning } : {})
+  };
+};
+
+// Short description for reports and zone cards
+export const describeDripDesign = (design: DripDesign): string => {
+  if (design.layout === 'dripline') {
+    return `Dripline ${design.driplineGph} GPH @ ${design.emitterSpacingIn}" x ${design.rowSpacingIn}" rows`;
+  }
+  const count = design.plants.reduce((sum, p) => sum + (p.count || 0), 0);
+  return `Drip emitters (${count} plants)`;
+};
@@ -0,0 +1,118 @@
+import { describe, it, expect } from 'vitest';
+import {
+  EtInputs,
+  calculateReferenceEt,
+  extraterrestrialRadiation,
+  getDayOfYear,
+  hargreavesEto,
+  hasPenmanMonteithInputs,
+  penmanMonteithEto
+} from './etCalculator';
+
+const cToF = (c: number) => c * 9 / 5 + 32;
+const M_TO_FT = 3.28084;
+const MS_TO_MPH = 2.23694;
+
+// FAO-56 Example 18: Uccle (Brussels), 6 July, 50°48'N, 100 m
+const BRUSSELS: EtInputs = {
+  tMaxF: cToF(21.5),
+  tMinF: cToF(12.3),
+  latitude: 50.8,
+  dayOfYear: 187,
+  elevationFt: 100 * M_TO_FT,
+  rhMax: 84,
+  rhMin: 63,
+  windMph: 2.78 * MS_TO_MPH,
+  windHeightFt: 10 * M_TO_FT,
+  solarRadiation: 22.07
+};
+
+// FAO-56 Example 17: Bangkok, April, 13°44'N, 2 m, with ea = 2.85 kPa given as a mean RH
+const BANGKOK: EtInputs = {
+  tMaxF: cToF(34.8),
+  tMinF: cToF(25.6),
+  latitude: 13.73,
+  dayOfYear: 105,
+  elevationFt: 2 * M_TO_FT,
+  rhMean: (2.85 / 4.42) * 100,
+  windMph: 2 * MS_TO_MPH,
+  solarRadiation: 22.65
+};
+
+describe('extraterrestrialRadiation', () => {
+  it('matches FAO-56 Example 8 (20°S, 3 September)', () => {
+    expect(extraterrestrialRadiation(-20, 246)).toBeCloseTo(32.2, 1);
+  });
+
+  it('matches the Ra of Example 18', () => {
+    expect(extraterrestrialRadiation(50.8, 187)).toBeCloseTo(41.09, 1);
+  });
+});
+
+describe('getDayOfYear', () => {
+  it('counts from 1 January', () => {
+    expect(getDayOfYear(new Date(2023, 0, 1))).toBe(1);
+    expect(getDayOfYear(new Date(2023, 6, 6))).toBe(187);
+    expect(getDayOfYear(new Date(2024, 11, 31))).toBe(366);
+  });
+});
+
+describe('penmanMonteithEto', () => {
+  it('reproduces FAO-56 Example 18 step by step', () => {
+    const result = penmanMonteithEto(BRUSSELS);
+    const i = result.intermediates;
+    expect(result.method).toBe('penman-monteith');
+    expect(i.pressure).toBeCloseTo(100.1, 1);
+    expect(i.gamma).toBeCloseTo(0.0666, 3);
+    expect(i.delta).toBeCloseTo(0.122, 3);
+    expect(i.es).toBeCloseTo(1.997, 2);
+    expect(i.ea).toBeCloseTo(1.409, 2);
+    expect(i.u2).toBeCloseTo(2.078, 2);
+    expect(i.rso).toBeCloseTo(30.90, 1);
+    expect(i.rns).toBeCloseTo(17.00, 1);
+    expect(i.rnl).toBeCloseTo(3.71, 1);
+    expect(i.rn).toBeCloseTo(13.28, 1);
+    expect(result.etoMmPerDay).toBeCloseTo(3.9, 1);
+  });
+
+  it('lands on FAO-56 Example 17 without the monthly soil heat flux', () => {
+    // The example's 5.72 mm/day includes G = 0.14 MJ/m²/day, which daily steps leave out
+    const result = penmanMonteithEto(BANGKOK);
+    expect(result.intermediates.ea).toBeCloseTo(2.85, 2);
+    expect(result.intermediates.rn).toBeCloseTo(14.33, 1);
+    expect(result.etoMmPerDay).toBeGreaterThan(5.72);
+    expect(result.etoMmPerDay).toBeCloseTo(5.76, 1);
+  });
+
+  it('reports inches per day and per week', () => {
+    const result = penmanMonteithEto(BRUSSELS);
+    expect(result.etoInPerDay).toBeCloseTo(result.etoMmPerDay / 25.4, 2);
+    expect(result.weeklyInches).toBeCloseTo(result.etoMmPerDay * 7 / 25.4, 1);
+  });
+});
+
+describe('hargreavesEto', () => {
+  it('follows FAO-56 eq. 52', () => {
+    // 0.0023 x (16.9 + 17.8) x sqrt(21.5 - 12.3) x 0.408 x 41.09
+    const result = hargreavesEto({ tMaxF: BRUSSELS.tMaxF, tMinF: BRUSSELS.tMinF, latitude: 50.8, dayOfYear: 187 });
+    expect(result.method).toBe('hargreaves');
+    expect(result.intermediates.tMeanC).toBeCloseTo(16.9, 2);
+    expect(result.etoMmPerDay).toBeCloseTo(4.06, 1);
+  });
+
+  it('never goes below zero', () => {
+    expect(hargreavesEto({ tMaxF: -40, tMinF: -60, latitude: 70, dayOfYear: 355 }).etoMmPerDay).toBe(0);
+  });
+});
+
+describe('calculateReferenceEt', () => {
+  it('uses Penman-Monteith only with humidity, wind and solar radiation', () => {
+    expect(hasPenmanMonteithInputs(BRUSSELS)).toBe(true);
+    expect(calculateReferenceEt(BRUSSELS).method).toBe('penman-monteith');
+
+    const noSolar = { ...BRUSSELS, solarRadiation: undefined };
+    expect(hasPenmanMonteithInputs(noSolar)).toBe(false);
+    expect(calculateReferenceEt(noSolar).method).toBe('hargreaves');
+    expect(calculateReferenceEt({ ...BRUSSELS, rhMax: undefined }).method).toBe('hargreaves');
+  });
+});
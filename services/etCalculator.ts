@@ -0,0 +1,152 @@
+/**
+ * Reference evapotranspiration (ETo) following FAO Irrigation & Drainage Paper 56.
+ * Inputs are in US units (°F, mph, ft) and converted to SI for the equations;
+ * every intermediate is returned so a tech can audit the number.
+ */
+
+export interface EtInputs {
+  tMaxF: number;
+  tMinF: number;
+  latitude: number;   // Decimal degrees, negative south of the equator
+  dayOfYear: number;  // 1-366
+  elevationFt?: number;
+  // Penman-Monteith only: used when humidity, wind and solar radiation are all present
+  rhMax?: number;          // %
+  rhMin?: number;          // %
+  rhMean?: number;         // %, used when min/max are not available
+  windMph?: number;
+  windHeightFt?: number;   // Anemometer height, defaults to 2 m (6.56 ft)
+  solarRadiation?: number; // MJ/m²/day
+}
+
+export interface EtIntermediates {
+  tMeanC: number;
+  ra: number;      // Extraterrestrial radiation, MJ/m²/day
+  // Penman-Monteith terms
+  pressure?: number;  // kPa
+  gamma?: number;     // Psychrometric constant, kPa/°C
+  delta?: number;     // Slope of vapour pressure curve, kPa/°C
+  es?: number;        // Saturation vapour pressure, kPa
+  ea?: number;        // Actual vapour pressure, kPa
+  u2?: number;        // Wind speed at 2 m, m/s
+  rso?: number;       // Clear-sky radiation, MJ/m²/day
+  rns?: number;       // Net shortwave, MJ/m²/day
+  rnl?: number;       // Net longwave, MJ/m²/day
+  rn?: number;        // Net radiation, MJ/m²/day
+}
+
+export interface EtResult {
+  method: 'hargreaves' | 'penman-monteith';
+  etoMmPerDay: number;
+  etoInPerDay: number;
+  weeklyInches: number;
+  intermediates: EtIntermediates;
+}
+
+const MM_PER_INCH = 25.4;
+const STEFAN_BOLTZMANN = 4.903e-9; // MJ/K⁴/m²/day
+
+const fToC = (f: number) => (f - 32) * 5 / 9;
+const round = (value: number, digits = 3) => parseFloat(value.toFixed(digits));
+
+// Saturation vapour pressure at temperature T (°C), kPa (FAO-56 eq. 11)
+const saturationVapourPressure = (tC: number) => 0.6108 * Math.exp((17.27 * tC) / (tC + 237.3));
+
+export const getDayOfYear = (date: Date) => {
+  const start = Date.UTC(date.getFullYear(), 0, 0);
+  const current = Date.UTC(date.getFullYear(), date.getMonth(), date.getDate());
+  return Math.floor((current - start) / 86400000);
+};
+
+// Extraterrestrial radiation Ra, MJ/m²/day (FAO-56 eq. 21)
+export const extraterrestrialRadiation = (latitude: number, dayOfYear: number) => {
+  const phi = (Math.PI / 180) * latitude;
+  const dr = 1 + 0.033 * Math.cos((2 * Math.PI / 365) * dayOfYear);
+  const declination = 0.409 * Math.sin((2 * Math.PI / 365) * dayOfYear - 1.39);
+  const ws = Math.acos(Math.max(-1, Math.min(1, -Math.tan(phi) * Math.tan(declination))));
+  return (24 * 60 / Math.PI) * 0.082 * dr *
+    (ws * Math.sin(phi) * Math.sin(declination) + Math.cos(phi) * Math.cos(declination) * Math.sin(ws));
+};
+
+const toResult = (method: EtResult['method'], etoMm: number, intermediates: EtIntermediates): EtResult => {
+  const eto = Math.max(0, etoMm);
+  return {
+    method,
+    etoMmPerDay: round(eto, 2),
+    etoInPerDay: round(eto / MM_PER_INCH),
+    weeklyInches: round((eto * 7) / MM_PER_INCH, 2),
+    intermediates
+  };
+};
+
+// Hargreaves-Samani: temperature and latitude only (FAO-56 eq. 52)
+export const hargreavesEto = (inputs: EtInputs): EtResult => {
+  const tMax = fToC(inputs.tMaxF);
+  const tMin = fToC(inputs.tMinF);
+  const tMean = (tMax + tMin) / 2;
+  const ra = extraterrestrialRadiation(inputs.latitude, inputs.dayOfYear);
+  // 0.408 converts MJ/m²/day to mm/day of evaporation
+  const eto = 0.0023 * (tMean + 17.8) * Math.sqrt(Math.max(0, tMax - tMin)) * 0.408 * ra;
+  return toResult('hargreaves', eto, { tMeanC: round(tMean, 2), ra: round(ra, 2) });
+};
+
+// FAO-56 Penman-Monteith daily reference ET (eq. 6)
+export const penmanMonteithEto = (inputs: EtInputs): EtResult => {
+  const tMax = fToC(inputs.tMaxF);
+  const tMin = fToC(inputs.tMinF);
+  const tMean = (tMax + tMin) / 2;
+  const z = (inputs.elevationFt || 0) * 0.3048;
+
+  const pressure = 101.3 * Math.pow((293 - 0.0065 * z) / 293, 5.26);
+  const gamma = 0.000665 * pressure;
+  const delta = (4098 * saturationVapourPressure(tMean)) / Math.pow(tMean + 237.3, 2);
+
+  const esMax = saturationVapourPressure(tMax);
+  const esMin = saturationVapourPressure(tMin);
+  const es = (esMax + esMin) / 2;
+  const ea = inputs.rhMax !== undefined && inputs.rhMin !== undefined
+    ? (esMin * inputs.rhMax / 100 + esMax * inputs.rhMin / 100) / 2
+    : ((inputs.rhMean || 0) / 100) * es;
+
+  const windMs = (inputs.windMph || 0) * 0.44704;
+  const heightM = (inputs.windHeightFt || 6.56) * 0.3048;
+  const u2 = Math.abs(heightM - 2) < 0.01 ? windMs : windMs * 4.87 / Math.log(67.8 * heightM - 5.42);
+
+  const ra = extraterrestrialRadiation(inputs.latitude, inputs.dayOfYear);
+  const rs = inputs.solarRadiation || 0;
+  const rso = (0.75 + 2e-5 * z) * ra;
+  const rns = (1 - 0.23) * rs;
+  const tMaxK4 = Math.pow(tMax + 273.16, 4);
+  const tMinK4 = Math.pow(tMin + 273.16, 4);
+  const relativeShortwave = rso > 0 ? Math.min(1, rs / rso) : 0;
+  const rnl = STEFAN_BOLTZMANN * ((tMaxK4 + tMinK4) / 2) * (0.34 - 0.14 * Math.sqrt(ea)) * (1.35 * relativeShortwave - 0.35);
+  const rn = rns - rnl;
+
+  // Soil heat flux G is ~0 for daily steps
+  const eto = (0.408 * delta * rn + gamma * (900 / (tMean + 273)) * u2 * (es - ea)) /
+    (delta + gamma * (1 + 0.34 * u2));
+
+  return toResult('penman-monteith', eto, {
+    tMeanC: round(tMean, 2),
+    ra: round(ra, 2),
+    pressure: round(pressure, 2),
+    gamma: round(gamma, 4),
+    delta: round(delta, 4),
+    es: round(es),
+    ea: round(ea),
+    u2: round(u2, 2),
+    rso: round(rso, 2),
+    rns: round(rns, 2),
+    rnl: round(rnl, 2),
+    rn: round(rn, 2)
+  });
+};
+
+export const hasPenmanMonteithInputs = (inputs: EtInputs) =>
+  (inputs.rhMean !== undefined || (inputs.rhMax !== undefined && inputs.rhMin !== undefined)) &&
+  inputs.windMph !== undefined &&
+  inputs.solarRadiation !== undefined;
+
+// Uses Penman-Monteith when the full station data is present, otherwise Hargreaves
+export const calculateReferenceEt = (inputs: EtInputs): EtResult =>
+  hasPenmanMonteithInputs(inputs) ? penmanMonteithEto(inputs) : hargreavesEto(inputs);
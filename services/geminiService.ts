@@ -1,8 +1,22 @@
 
-import { GoogleGenAI, Type, Schema } from "@google/genai";
-import { WateringSchedule, PlantFormData, LiveCalculation } from "../types";
-
-const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+import { GoogleGenAI, Type, Schema, GenerateContentResponse, FinishReason } from "@google/genai";
+import { PlantFormData, LiveCalculation } from "../types";
+import { AdvisorProvider } from "./advisorProvider";
+import { AdvisorError } from "./advisorErrors";
+import { describeZoneNozzles } from "./headInventory";
+import { describeZoneSpecies, getZoneHydrozone } from "./plantDatabase";
+import { describeRateSchedule, getRateSchedule } from "./waterRates";
+import { calculateZoneWaterUse, formatMonthlyCost } from "./waterUse";
+import { NOZZLE_FAMILIES, PHOTO_SLOPES, PHOTO_SUNLIGHT, PHOTO_ZONE_TYPES } from "./photoAnalysis";
+
+// Created on first use so the app loads without a key
+let client: GoogleGenAI | null = null;
+
+const getClient = () => {
+  if (!process.env.API_KEY) throw new AdvisorError('unavailable', "No Gemini API key configured.");
+  if (!client) client = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  return client;
+};
 
 const responseSchema: Schema = {
   type: Type.OBJECT,
@@ -14,8 +28,8 @@ const responseSchema: Schema = {
     recommendedSoakTime: { type: Type.NUMBER },
     recommendedFrequencyDaysPerWeek: { type: Type.NUMBER },
     
-    estimatedGallonsPerWeek: { type: Type.NUMBER, description: "Total gallons calculated from area and weekly depth." },
-    estimatedCostPerMonth: { type: Type.STRING, description: "Estimated monthly cost string (e.g. '$15.50' or 'N/A')." },
+    estimatedGallonsPerWeek: { type: Type.NUMBER, description: "Copied from the calculated water use." },
+    estimatedCostPerMonth: { type: Type.STRING, description: "Copied from the calculated water use (e.g. '$15.50' or 'N/A (Secondary)')." },
 
     averageET: { type: Type.STRING },
     climateSummary: { type: Type.STRING },
@@ -28,16 +42,12 @@ const responseSchema: Schema = {
     pressureAdvice: { type: Type.STRING },
     mowingAdvice: { type: Type.STRING, description: "Advice on mowing frequency and height." },
     tips: { type: Type.ARRAY, items: { type: Type.STRING } },
-    warning: { type: Type.STRING },
-    moistureCurveData: {
-      type: Type.ARRAY,
-      items: { type: Type.OBJECT, properties: { day: { type: Type.NUMBER }, moistureLevel: { type: Type.NUMBER } } }
-    }
+    warning: { type: Type.STRING }
   },
   required: [
     "zoneName", "totalWeeklyWaterDurationMinutes", "maxRunTimePerCycle", 
     "recommendedFrequencyDaysPerWeek", "averageET", "nozzlePrecipitationRate", 
-    "tips", "moistureCurveData"
+    "tips"
   ],
 };
 
@@ -51,7 +61,34 @@ const weatherSchema: Schema = {
   required: ["estWeeklyEt", "estWeeklyRain", "summary"]
 };
 
-export const estimateLocationWeather = async (zip: string, month: string) => {
+// Enums match the form's options so answers can be applied as-is
+const photoSchema: Schema = {
+  type: Type.OBJECT,
+  properties: {
+    zoneType: { type: Type.STRING, enum: PHOTO_ZONE_TYPES },
+    turfSpecies: { type: Type.STRING, description: "Common name of the turf grass, or empty if not turf." },
+    nozzleFamily: { type: Type.STRING, enum: Object.keys(NOZZLE_FAMILIES) },
+    slope: { type: Type.STRING, enum: PHOTO_SLOPES },
+    sunlight: { type: Type.STRING, enum: PHOTO_SUNLIGHT },
+    stressAreas: { type: Type.ARRAY, items: { type: Type.STRING } },
+    summary: { type: Type.STRING }
+  },
+  required: ["zoneType", "stressAreas", "summary"]
+};
+
+// Errors propagate untouched; advisorRequest classifies and retries them
+const parseResponse = (response: GenerateContentResponse): unknown => {
+  const blockReason = response.promptFeedback?.blockReason;
+  if (blockReason) throw new AdvisorError('safety', `Prompt blocked (${blockReason}).`);
+  if (response.candidates?.[0]?.finishReason === FinishReason.SAFETY) {
+    throw new AdvisorError('safety', "Response blocked by safety filters.");
+  }
+  const text = response.text;
+  if (!text) throw new AdvisorError('invalid-response', "No data returned.");
+  return JSON.parse(text);
+};
+
+const requestWeather = async (zip: string, month: string, signal?: AbortSignal): Promise<unknown> => {
   const prompt = `
     Retrieve the standard 30-year historical climate averages (NOAA/NWS equivalent data) for Zip Code ${zip} in ${month}.
     1. Get the average daily Reference Evapotranspiration (ETo).
@@ -62,26 +99,20 @@ export const estimateLocationWeather = async (zip: string, month: string) => {
     Return the values as RAW NUMBERS (floats) in the JSON fields 'estWeeklyEt' and 'estWeeklyRain'. Do not include units like "inches".
   `;
 
-  try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: prompt,
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: weatherSchema,
-        temperature: 0,
-      }
-    });
-    const text = response.text;
-    if (!text) throw new Error("No data returned");
-    return JSON.parse(text);
-  } catch (error) {
-    console.error("Weather Fetch Error:", error);
-    throw new Error("Could not fetch weather data.");
-  }
+  const response = await getClient().models.generateContent({
+    model: 'gemini-2.5-flash',
+    contents: prompt,
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: weatherSchema,
+      temperature: 0,
+      abortSignal: signal,
+    }
+  });
+  return parseResponse(response);
 };
 
-export const generateWateringPlan = async (data: PlantFormData, stats: LiveCalculation | null): Promise<WateringSchedule> => {
+const requestPlan = async (data: PlantFormData, stats: LiveCalculation | null, signal?: AbortSignal): Promise<unknown> => {
   const modelId = data.image ? 'gemini-2.5-flash-image' : 'gemini-2.5-flash';
   
   const hydraulicContext = stats ? `
@@ -97,17 +128,18 @@ export const generateWateringPlan = async (data: PlantFormData, stats: LiveCalcu
 
   const isSecondary = data.waterSource === 'Secondary';
   const mowingInfo = data.mowingHeight ? `- Turf Mowing Height: ${data.mowingHeight} inches.` : "";
+  const hydrozone = getZoneHydrozone(data);
+  const plantingInfo = hydrozone ? `- Plants: ${describeZoneSpecies(data)} (hydrozone coefficient ${hydrozone.coefficient}, ${hydrozone.region} ratings).` : "";
 
-  const areaContext = data.zoneAreaSqFt ? `
-    AREA DATA:
+  // Water use is computed here; the model only echoes it back
+  const usage = stats && data.zoneAreaSqFt ? calculateZoneWaterUse(data, stats) : null;
+  const areaContext = usage ? `
+    WATER USE (CALCULATED - copy these values, do not recalculate):
     - Zone Size: ${data.zoneAreaSqFt} Sq Ft.
-    - Water Source: ${data.waterSource}.
-    - Water Price: ${isSecondary ? "N/A" : "$" + (data.waterPrice || "3.00") + " per 1000 Gallons"}.
-    - Task: Calculate Estimated Weekly Gallons = (NetWeeklyInches / Efficiency) * AreaSqFt * 0.623.
-    - Task: Estimate Monthly Cost. 
-      ${isSecondary ? "Water Source is Secondary (Unmetered/Flat Rate). Set estimatedCostPerMonth to 'N/A (Secondary)'." : 
-      `Use the user-provided price per 1000 gallons ($${data.waterPrice || "3.00"}). Formula: (Weekly Gallons * 4.3 / 1000) * Rate.`}
-  ` : "Area not provided. Leave gallons/cost fields 0 or empty.";
+    - Water Source: ${data.waterSource}${isSecondary ? "" : ` at ${describeRateSchedule(getRateSchedule(data), data.month)}`}.
+    - estimatedGallonsPerWeek: ${usage.weeklyGallons}.
+    - estimatedCostPerMonth: '${formatMonthlyCost(usage)}'.
+  ` : "Water use not calculated (area or zone inputs missing). Leave gallons/cost fields 0 or empty.";
 
   const promptText = `
     Act as an expert hydraulic engineer and turf grass specialist.
@@ -115,10 +147,11 @@ export const generateWateringPlan = async (data: PlantFormData, stats: LiveCalcu
     - Zone: ${data.customZoneName || data.zoneType}
     - Location: ${data.zipCode}, ${data.month}
     - Soil: ${data.soilType}, Slope: ${data.slope}
-    - Nozzle: ${data.nozzleType}, PSI: ${data.pressure}
+    - Nozzle: ${describeZoneNozzles(data)}, PSI: ${data.pressure}
     - System Efficiency: ${data.efficiency || "Auto"}%
     - Weekly ET: ${data.estWeeklyEt || "Auto"}, Rain: ${data.estWeeklyRain || "Auto"}
     ${mowingInfo}
+    ${plantingInfo}
     
     ${hydraulicContext}
     ${areaContext}
@@ -148,24 +181,48 @@ export const generateWateringPlan = async (data: PlantFormData, stats: LiveCalcu
     });
   }
 
-  try {
-    const response = await ai.models.generateContent({
-      model: modelId,
-      contents: { parts },
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: responseSchema,
-        temperature: 0,
-      },
-    });
+  const response = await getClient().models.generateContent({
+    model: modelId,
+    contents: { parts },
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: responseSchema,
+      temperature: 0,
+      abortSignal: signal,
+    },
+  });
+  return parseResponse(response);
+};
 
-    const resultText = response.text;
-    if (!resultText) throw new Error("No response");
-    return JSON.parse(resultText) as WateringSchedule;
-  } catch (error) {
-    console.error("Gemini API Error:", error);
-    throw new Error("Failed to generate plan.");
-  }
+const analyzePhoto = async (image: File, data: PlantFormData, signal?: AbortSignal): Promise<unknown> => {
+  const promptText = `
+    Act as an irrigation auditor looking at a photo of one irrigation zone${data.zipCode ? ` near zip code ${data.zipCode}` : ""}.
+    Identify:
+    - zoneType: the planting that dominates the photo.
+    - turfSpecies: the turf grass species if the zone is lawn (e.g. "Kentucky Bluegrass"), otherwise empty.
+    - nozzleFamily: the sprinkler heads visible or most likely for this planting.
+    - slope: the steepest grade visible.
+    - sunlight: exposure at the time of day the photo suggests, allowing for tree and building shade.
+    - stressAreas: visible dry spots, browning, overspray or runoff, each as a short phrase with its location in the photo.
+    Leave out any field you cannot judge from the photo.
+  `;
+
+  const response = await getClient().models.generateContent({
+    model: 'gemini-2.5-flash',
+    contents: {
+      parts: [
+        { inlineData: { data: await fileToGenerativePart(image), mimeType: image.type } },
+        { text: promptText }
+      ]
+    },
+    config: {
+      responseMimeType: "application/json",
+      responseSchema: photoSchema,
+      temperature: 0,
+      abortSignal: signal,
+    },
+  });
+  return parseResponse(response);
 };
 
 async function fileToGenerativePart(file: File): Promise<string> {
@@ -180,3 +237,12 @@ async function fileToGenerativePart(file: File): Promise<string> {
     reader.readAsDataURL(file);
   });
 }
+
+export const geminiAdvisorProvider: AdvisorProvider = {
+  id: 'gemini',
+  label: 'Gemini (AI)',
+  isAvailable: () => Boolean(process.env.API_KEY),
+  requestPlan,
+  requestWeather,
+  analyzePhoto
+};
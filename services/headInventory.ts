@@ -0,0 +1,102 @@
+import { HeadGroup, PlantFormData } from "../types";
+import { getNozzle, getNozzlePerformance, getArcFlow } from "./nozzleLibrary";
+import { hasDripDesign, describeDripDesign } from "./dripDesign";
+
+export const DEFAULT_ARCS = [90, 180, 270, 360];
+
+// Highest / lowest precip rate on one valve before we call it mismatched
+export const MAX_PRECIP_RATIO = 1.25;
+
+// PR (in/hr) = 96.3 * GPM / area (sq ft)
+const PR_CONSTANT = 96.3;
+
+export interface HeadGroupResult {
+  group: HeadGroup;
+  label: string;
+  precipRate: number;
+  gpmPerHead: number;
+  efficiency: number;     // Catalog efficiency of the group's nozzle
+  wettedAreaSqFt: number; // All heads in the group
+}
+
+export interface HeadInventorySummary {
+  groups: HeadGroupResult[];
+  headCount: number;
+  precipRate: number;   // Area-weighted
+  efficiency: number;   // Area-weighted catalog efficiency
+  totalGpm: number;
+  wettedAreaSqFt: number;
+  mismatchWarning: string | null;
+}
+
+const round2 = (value: number) => parseFloat(value.toFixed(2));
+
+export const createHeadGroupId = () => `head-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+// Same test summarizeHeadInventory applies, so a true result always summarizes
+const isUsableGroup = (group: HeadGroup) =>
+  group.count > 0 && group.arc > 0 && group.radiusFt > 0 && Boolean(getNozzle(group.nozzleId));
+
+export const hasHeadInventory = (formData: PlantFormData) =>
+  Boolean(formData.heads && formData.heads.some(isUsableGroup));
+
+/**
+ * Rolls a head inventory up into one valve. Each group's area is the wetted sector
+ * of its radius; flow comes from the library's GPM table when it has one, otherwise
+ * it is backed out of the precip rate over that area.
+ */
+export const summarizeHeadInventory = (heads: HeadGroup[], pressure: number | ''): HeadInventorySummary | null => {
+  const groups: HeadGroupResult[] = [];
+  heads.forEach(group => {
+    const nozzle = getNozzle(group.nozzleId);
+    if (!nozzle || !isUsableGroup(group)) return;
+    const performance = getNozzlePerformance(nozzle, pressure);
+    const areaPerHead = Math.PI * Math.pow(group.radiusFt, 2) * Math.min(group.arc, 360) / 360;
+    const gpmPerHead = performance.gpm !== undefined
+      ? getArcFlow(performance.gpm, group.arc)
+      : round2((performance.precipRate * areaPerHead) / PR_CONSTANT);
+    groups.push({
+      group,
+      label: nozzle.label,
+      precipRate: performance.precipRate,
+      gpmPerHead,
+      efficiency: nozzle.efficiency,
+      wettedAreaSqFt: areaPerHead * group.count
+    });
+  });
+  if (groups.length === 0) return null;
+
+  const wettedAreaSqFt = groups.reduce((sum, g) => sum + g.wettedAreaSqFt, 0);
+  const weighted = (value: (g: HeadGroupResult) => number) =>
+    groups.reduce((sum, g) => sum + value(g) * g.wettedAreaSqFt, 0) / wettedAreaSqFt;
+
+  const rates = groups.map(g => g.precipRate);
+  const minRate = Math.min(...rates);
+  const maxRate = Math.max(...rates);
+  const mismatchWarning = minRate > 0 && maxRate / minRate > MAX_PRECIP_RATIO
+    ? `Precipitation rates on this valve range from ${minRate} to ${maxRate}"/hr. Low-rate areas will stay dry while high-rate areas overwater; split them onto separate valves or use matched-precip nozzles.`
+    : null;
+
+  return {
+    groups,
+    headCount: groups.reduce((sum, g) => sum + g.group.count, 0),
+    precipRate: round2(weighted(g => g.precipRate)),
+    efficiency: round2(weighted(g => g.efficiency)),
+    totalGpm: round2(groups.reduce((sum, g) => sum + g.gpmPerHead * g.group.count, 0)),
+    wettedAreaSqFt: Math.round(wettedAreaSqFt),
+    mismatchWarning
+  };
+};
+
+// Short nozzle description for reports and zone cards
+export const describeZoneNozzles = (formData: PlantFormData): string => {
+  if (hasDripDesign(formData)) return describeDripDesign(formData.drip);
+  if (!hasHeadInventory(formData)) return getNozzle(formData.nozzleType)?.label || formData.nozzleType;
+  const ids = Array.from(new Set(formData.heads.map(h => h.nozzleId)));
+  const count = formData.heads.reduce((sum, h) => sum + (h.count || 0), 0);
+  return ids.length === 1 ? `${getNozzle(ids[0])?.label || ids[0]} (${count} heads)` : `Mixed (${count} heads)`;
+};
+
+// Every library entry a zone depends on
+export const getZoneNozzleIds = (formData: PlantFormData): string[] =>
+  Array.from(new Set([formData.nozzleType, ...(formData.heads || []).map(h => h.nozzleId)].filter(Boolean)));
@@ -0,0 +1,160 @@
+import { describe, it, expect } from 'vitest';
+import { PipeRun, PlantFormData } from '../types';
+import {
+  MAX_PIPE_VELOCITY,
+  checkHydraulics,
+  estimateZoneFlow,
+  getFrictionLossPsi,
+  getMeterLossPsi,
+  getVelocity,
+  hasHydraulicInputs
+} from './hydraulics';
+import { calculateZone } from './zoneCalculator';
+
+const run = (size: string, lengthFt: string, material = 'PVC Sch 40'): PipeRun => ({ material, size, lengthFt });
+
+const makeForm = (overrides: Partial<PlantFormData> = {}): PlantFormData => ({
+  customZoneName: 'Test Zone',
+  zoneType: 'Cool Season Turf Grass',
+  zoneAreaSqFt: '',
+  frequencyMode: 'legacy',
+  location: '',
+  zipCode: '',
+  month: '',
+  nozzleType: 'Fixed Spray (Generic)',
+  pressure: 60,
+  efficiency: '',
+  soilType: 'Loam',
+  slope: '0-15%',
+  sunlight: 'Direct Sun',
+  waterSource: 'Culinary',
+  waterPrice: '3.00',
+  image: null,
+  zoneHydraulics: { lateral: run('1', '100') },
+  ...overrides
+});
+
+const totalLoss = (losses: { psi: number }[]) => losses.reduce((sum, l) => sum + l.psi, 0);
+
+describe('getFrictionLossPsi', () => {
+  it('matches published Hazen-Williams losses per 100 ft', () => {
+    expect(getFrictionLossPsi(10, run('1', '100'))).toBeCloseTo(2.61, 1);     // 1" Sch 40 at 10 GPM
+    expect(getFrictionLossPsi(10, run('3/4', '100'))).toBeCloseTo(8.68, 1);   // 3/4" Sch 40 at 10 GPM
+    expect(getFrictionLossPsi(20, run('1-1/2', '100'))).toBeCloseTo(1.13, 1); // 1-1/2" Sch 40 at 20 GPM
+  });
+
+  it('scales with length and the 1.852 power of flow', () => {
+    const base = getFrictionLossPsi(10, run('1', '100'));
+    expect(getFrictionLossPsi(10, run('1', '200'))).toBeCloseTo(base * 2, 6);
+    expect(getFrictionLossPsi(20, run('1', '100'))).toBeCloseTo(base * Math.pow(2, 1.852), 6);
+  });
+
+  it('is lower in smoother pipe of the same bore', () => {
+    expect(getFrictionLossPsi(10, run('1', '100', 'Copper K'))).toBeGreaterThan(getFrictionLossPsi(10, run('1', '100')));
+  });
+
+  it('is 0 without flow, length or a known size', () => {
+    expect(getFrictionLossPsi(0, run('1', '100'))).toBe(0);
+    expect(getFrictionLossPsi(10, run('1', ''))).toBe(0);
+    expect(getFrictionLossPsi(10, run('3', '100'))).toBe(0);
+  });
+});
+
+describe('getVelocity', () => {
+  it('matches published pipe velocities', () => {
+    expect(getVelocity(10, run('1', '100'))).toBeCloseTo(3.86, 1);
+    expect(getVelocity(10, run('3/4', '100'))).toBeCloseTo(6.32, 1);
+  });
+});
+
+describe('getMeterLossPsi', () => {
+  it('scales the rated loss with the square of flow', () => {
+    expect(getMeterLossPsi(30, '3/4"')).toBe(15);
+    expect(getMeterLossPsi(15, '3/4"')).toBeCloseTo(3.75, 6);
+    expect(getMeterLossPsi(15, 'None')).toBe(0);
+  });
+});
+
+describe('estimateZoneFlow', () => {
+  it('backs flow out of the precip rate over the area', () => {
+    expect(estimateZoneFlow(1.5, 1000)).toBeCloseTo(15.58, 2); // 1.5 x 1000 / 96.3
+    expect(estimateZoneFlow(1.5, 0)).toBe(0);
+  });
+});
+
+describe('hasHydraulicInputs', () => {
+  it('needs a static pressure and a lateral size', () => {
+    expect(hasHydraulicInputs(makeForm())).toBe(true);
+    expect(hasHydraulicInputs(makeForm({ pressure: '' }))).toBe(false);
+    expect(hasHydraulicInputs(makeForm({ zoneHydraulics: { lateral: run('', '100') } }))).toBe(false);
+  });
+});
+
+describe('checkHydraulics', () => {
+  it('subtracts valve, lateral and elevation losses at a fixed flow', () => {
+    const check = checkHydraulics(makeForm({ zoneHydraulics: { lateral: run('1', '100'), elevationChangeFt: '10' } }), () => 10);
+    // 60 - 3 (valve) - 2.61 x 0.38 (lateral with outlets) - 10 x 0.433 (elevation)
+    expect(check.flowGpm).toBe(10);
+    expect(check.losses.map(l => l.label)).toEqual(['Valve', 'Lateral friction', 'Elevation']);
+    expect(check.losses.find(l => l.label === 'Lateral friction').psi).toBe(1);
+    expect(check.losses.find(l => l.label === 'Elevation').psi).toBe(4.3);
+    expect(check.headPsi).toBeCloseTo(51.7, 1);
+    expect(check.lateralVelocity).toBeCloseTo(3.9, 1);
+    expect(check.warnings).toEqual([]);
+  });
+
+  it('adds meter, backflow and mainline losses from the supply', () => {
+    const check = checkHydraulics(makeForm({
+      supply: { meterSize: '3/4"', mainline: run('1', '100'), backflowLossPsi: '5' }
+    }), () => 15);
+    expect(check.losses.map(l => l.label)).toEqual(['Meter', 'Backflow', 'Mainline friction', 'Valve', 'Lateral friction']);
+    expect(check.losses.find(l => l.label === 'Meter').psi).toBe(3.8);
+    expect(check.staticPsi - totalLoss(check.losses)).toBeCloseTo(check.headPsi, 0);
+  });
+
+  it('solves for the pressure where flow and losses balance', () => {
+    // Flow rises with the square root of the pressure left at the heads
+    const flowAt = (psi: number) => 2 * Math.sqrt(psi);
+    const check = checkHydraulics(makeForm({ zoneHydraulics: { lateral: run('3/4', '300') } }), flowAt);
+    // Both sides are reported to 0.1
+    expect(Math.abs(check.flowGpm - flowAt(check.headPsi))).toBeLessThan(0.1);
+    expect(check.headPsi + totalLoss(check.losses)).toBeCloseTo(60, 0);
+    expect(check.headPsi).toBeLessThan(60 - 3);
+  });
+
+  it('warns when velocity is over the limit', () => {
+    const check = checkHydraulics(makeForm({ zoneHydraulics: { lateral: run('3/4', '50') } }), () => 10);
+    expect(check.lateralVelocity).toBeGreaterThan(MAX_PIPE_VELOCITY);
+    expect(check.warnings.some(w => w.startsWith('Lateral velocity'))).toBe(true);
+  });
+
+  it('warns when the heads get less than their rated pressure', () => {
+    const check = checkHydraulics(makeForm({ pressure: 30 }), () => 10, 30);
+    expect(check.warnings[0]).toMatch(/below the 30 PSI they are rated for/);
+  });
+
+  it('reports 0 PSI when losses use up the supply', () => {
+    const check = checkHydraulics(makeForm({ pressure: 20, zoneHydraulics: { lateral: run('3/4', '300') } }), () => 30);
+    expect(check.headPsi).toBe(0);
+    expect(check.warnings[0]).toMatch(/cannot deliver/);
+  });
+
+  it('warns when the zone loads the meter past 75%', () => {
+    const check = checkHydraulics(makeForm({ supply: { meterSize: '5/8"', mainline: run('1', '') } }), () => 16);
+    expect(check.warnings.some(w => w.includes('meter'))).toBe(true);
+  });
+});
+
+describe('calculateZone hydraulics', () => {
+  it('uses the pressure left at the heads for the precip rate', () => {
+    const calc = calculateZone(makeForm({ zoneAreaSqFt: '1000', zoneHydraulics: { lateral: run('3/4', '200') } }));
+    expect(calc.hydraulics.headPsi).toBeLessThan(60);
+    expect(calc.hydraulicsNeedsArea).toBeUndefined();
+  });
+
+  it('asks for the area instead of running a single-nozzle zone at 0 GPM', () => {
+    const calc = calculateZone(makeForm());
+    expect(calc.hydraulics).toBeUndefined();
+    expect(calc.hydraulicsNeedsArea).toBe(true);
+  });
+});
@@ -0,0 +1,147 @@
+import { PlantFormData, PipeRun, HydraulicCheck, HydraulicLoss } from "../types";
+
+// Inside diameters (in) by nominal size, and Hazen-Williams C factor
+export const PIPE_MATERIALS: Record<string, { label: string; c: number; insideDiameters: Record<string, number> }> = {
+  "PVC Sch 40": {
+    label: "PVC Schedule 40", c: 150,
+    insideDiameters: { "1/2": 0.602, "3/4": 0.804, "1": 1.029, "1-1/4": 1.360, "1-1/2": 1.590, "2": 2.047 }
+  },
+  "PVC Class 200": {
+    label: "PVC Class 200", c: 150,
+    insideDiameters: { "3/4": 0.930, "1": 1.189, "1-1/4": 1.502, "1-1/2": 1.720, "2": 2.149 }
+  },
+  "Poly": {
+    label: "Polyethylene (SIDR 15)", c: 140,
+    insideDiameters: { "1/2": 0.622, "3/4": 0.824, "1": 1.049, "1-1/4": 1.380, "1-1/2": 1.610, "2": 2.067 }
+  },
+  "Copper K": {
+    label: "Copper Type K", c: 140,
+    insideDiameters: { "1/2": 0.527, "3/4": 0.745, "1": 0.995, "1-1/4": 1.245, "1-1/2": 1.481, "2": 1.959 }
+  }
+};
+
+// Max safe flow (AWWA) and the loss a meter shows at that flow
+export const METER_DATA: Record<string, { maxGpm: number; lossAtMaxPsi: number }> = {
+  '5/8"': { maxGpm: 20, lossAtMaxPsi: 15 },
+  '3/4"': { maxGpm: 30, lossAtMaxPsi: 15 },
+  '1"': { maxGpm: 50, lossAtMaxPsi: 15 },
+  '1-1/2"': { maxGpm: 100, lossAtMaxPsi: 15 },
+  '2"': { maxGpm: 160, lossAtMaxPsi: 15 },
+};
+
+export const MAX_PIPE_VELOCITY = 5; // ft/s, above this water hammer becomes a risk
+export const MAX_METER_LOAD = 0.75; // Design to 75% of the meter's safe flow
+export const DEFAULT_VALVE_LOSS_PSI = 3;
+
+const PSI_PER_FT_HEAD = 0.433;
+// Christiansen factor: a lateral with many outlets loses ~38% of what the full flow would
+const LATERAL_OUTLET_FACTOR = 0.38;
+// PR (in/hr) = 96.3 * GPM / area (sq ft)
+const PR_CONSTANT = 96.3;
+// Bisection steps when solving for head pressure; 20 halvings of the static range is well under 0.1 PSI
+const PRESSURE_ITERATIONS = 20;
+
+const round1 = (value: number) => parseFloat(value.toFixed(1));
+const num = (value?: string) => {
+  const parsed = parseFloat(value || '');
+  return isNaN(parsed) ? 0 : parsed;
+};
+
+const getInsideDiameter = (run: PipeRun) => PIPE_MATERIALS[run.material]?.insideDiameters[run.size];
+
+// Hazen-Williams friction loss (psi) for a pipe run
+export const getFrictionLossPsi = (gpm: number, run: PipeRun): number => {
+  const d = getInsideDiameter(run);
+  const length = num(run.lengthFt);
+  if (!d || length <= 0 || gpm <= 0) return 0;
+  const c = PIPE_MATERIALS[run.material].c;
+  // psi per foot = 4.52 * Q^1.852 / (C^1.852 * d^4.87), Q in GPM and d in inches
+  return length * 4.52 * Math.pow(gpm, 1.852) / (Math.pow(c, 1.852) * Math.pow(d, 4.8704));
+};
+
+export const getVelocity = (gpm: number, run: PipeRun): number => {
+  const d = getInsideDiameter(run);
+  return d ? 0.4085 * gpm / (d * d) : 0;
+};
+
+export const getMeterLossPsi = (gpm: number, meterSize: string): number => {
+  const meter = METER_DATA[meterSize];
+  return meter ? meter.lossAtMaxPsi * Math.pow(gpm / meter.maxGpm, 2) : 0;
+};
+
+// Static pressure plus a lateral pipe size is the minimum for a check
+export const hasHydraulicInputs = (formData: PlantFormData) =>
+  Number(formData.pressure) > 0 && Boolean(formData.zoneHydraulics && getInsideDiameter(formData.zoneHydraulics.lateral));
+
+// Flow for a single-nozzle zone, backed out of the precip rate over the zone area
+export const estimateZoneFlow = (precipRate: number, areaSqFt: number) =>
+  areaSqFt > 0 ? (precipRate * areaSqFt) / PR_CONSTANT : 0;
+
+/**
+ * Walks the water from the point of connection to the farthest head: meter,
+ * backflow, mainline, valve, lateral and elevation. Head flow itself depends on the
+ * pressure left at the heads, so flowAtPressure is re-evaluated while solving for it.
+ */
+export const checkHydraulics = (formData: PlantFormData, flowAtPressure: (psi: number) => number, ratedPsi?: number): HydraulicCheck => {
+  const staticPsi = Number(formData.pressure);
+  const supply = formData.supply;
+  const zone = formData.zoneHydraulics;
+  const elevationFt = num(zone.elevationChangeFt);
+  const valveLoss = zone.valveLossPsi ? num(zone.valveLossPsi) : DEFAULT_VALVE_LOSS_PSI;
+
+  const lossesAt = (gpm: number): HydraulicLoss[] => [
+    { label: 'Meter', psi: supply ? getMeterLossPsi(gpm, supply.meterSize) : 0 },
+    { label: 'Backflow', psi: supply ? num(supply.backflowLossPsi) : 0 },
+    { label: 'Mainline friction', psi: supply ? getFrictionLossPsi(gpm, supply.mainline) : 0 },
+    { label: 'Valve', psi: valveLoss },
+    { label: 'Lateral friction', psi: getFrictionLossPsi(gpm, zone.lateral) * LATERAL_OUTLET_FACTOR },
+    { label: 'Elevation', psi: elevationFt * PSI_PER_FT_HEAD }
+  ];
+
+  const residualAt = (psi: number) => {
+    const gpm = flowAtPressure(Math.max(psi, 1));
+    const zoneLosses = lossesAt(gpm);
+    return { gpm, zoneLosses, headPsi: staticPsi - zoneLosses.reduce((sum, l) => sum + l.psi, 0) };
+  };
+
+  // More pressure at the heads means more flow and more loss, so the balance point
+  // (assumed pressure = pressure left over) is found by halving the range
+  let low = 0;
+  let high = staticPsi;
+  for (let i = 0; i < PRESSURE_ITERATIONS; i++) {
+    const mid = (low + high) / 2;
+    if (residualAt(mid).headPsi > mid) low = mid;
+    else high = mid;
+  }
+  const { gpm: flowGpm, zoneLosses: losses, headPsi } = residualAt(low);
+
+  const mainlineVelocity = supply ? getVelocity(flowGpm, supply.mainline) : 0;
+  const lateralVelocity = getVelocity(flowGpm, zone.lateral);
+
+  const warnings: string[] = [];
+  if (headPsi <= 0) {
+    warnings.push(`The supply cannot deliver ${round1(flowGpm)} GPM: losses exceed the ${staticPsi} PSI static pressure. Split the zone or upsize pipe.`);
+  } else if (ratedPsi && headPsi < ratedPsi) {
+    warnings.push(`Only ${round1(headPsi)} PSI reaches the heads, below the ${ratedPsi} PSI they are rated for. Expect shorter throw and gaps in coverage.`);
+  }
+  if (mainlineVelocity > MAX_PIPE_VELOCITY) {
+    warnings.push(`Mainline velocity is ${round1(mainlineVelocity)} ft/s (max ${MAX_PIPE_VELOCITY}). Upsize the mainline or reduce zone flow.`);
+  }
+  if (lateralVelocity > MAX_PIPE_VELOCITY) {
+    warnings.push(`Lateral velocity is ${round1(lateralVelocity)} ft/s (max ${MAX_PIPE_VELOCITY}). Upsize the lateral or reduce zone flow.`);
+  }
+  const meter = supply ? METER_DATA[supply.meterSize] : undefined;
+  if (meter && flowGpm > meter.maxGpm * MAX_METER_LOAD) {
+    warnings.push(`Zone flow of ${round1(flowGpm)} GPM is over ${MAX_METER_LOAD * 100}% of the ${supply.meterSize} meter's ${meter.maxGpm} GPM safe flow.`);
+  }
+
+  return {
+    flowGpm: round1(flowGpm),
+    staticPsi,
+    headPsi: round1(Math.max(0, headPsi)),
+    losses: losses.filter(l => l.psi !== 0).map(l => ({ ...l, psi: round1(l.psi) })),
+    mainlineVelocity: round1(mainlineVelocity),
+    lateralVelocity: round1(lateralVelocity),
+    warnings
+  };
+};
@@ -0,0 +1,119 @@
+import { ProjectLocation, SavedZone } from "../types";
+import { downloadTextFile } from "./download";
+import { describeZoneNozzles } from "./headInventory";
+import { allocateMonthlyCosts, getRateSchedule } from "./waterRates";
+import { calculateZoneGallons, WEEKS_PER_MONTH } from "./waterUse";
+
+export interface MasterReportRow {
+  name: string;
+  area: string;
+  pr: number;
+  weeklyMin: number;
+  freq: number;
+  cycle: string;
+  gallons: number;
+  cost: number;
+  isSecondary: boolean;
+  // Inputs behind the numbers
+  zoneType: string;
+  soilType: string;
+  slope: string;
+  nozzleType: string;
+  pressure: number | '';
+  efficiency: number;
+}
+
+export interface MasterReportTotals {
+  gallons: number;
+  monthlyCost: number;
+}
+
+// Costs use the project's location (month and rate schedule), which zones only hold a copy of
+export const buildMasterReport = (zones: SavedZone[], location: ProjectLocation): { rows: MasterReportRow[]; totals: MasterReportTotals } => {
+  let totalGallons = 0;
+  let totalMonthlyCost = 0;
+
+  const zoneGallons = zones.map(z => calculateZoneGallons(z));
+  // Tiers apply to the whole property, so costs are split after summing every zone
+  const zoneCosts = allocateMonthlyCosts(
+    zones.map((z, idx) => ({ formData: z.formData, monthlyGallons: zoneGallons[idx] * WEEKS_PER_MONTH })),
+    location.month,
+    getRateSchedule(location)
+  );
+
+  const rows = zones.map((z, idx) => {
+    const gallons = zoneGallons[idx];
+    totalGallons += gallons;
+
+    const cost = zoneCosts[idx];
+    totalMonthlyCost += cost;
+
+    return {
+      name: z.name,
+      area: z.formData.zoneAreaSqFt || '-',
+      pr: z.stats.precipRate,
+      weeklyMin: z.stats.weeklyTotalMinutes,
+      freq: z.stats.suggestedFrequency,
+      cycle: `${z.stats.minutesPerCycle}m x ${z.stats.cyclesPerDay}`,
+      gallons: gallons,
+      cost: cost,
+      isSecondary: z.formData.waterSource === 'Secondary',
+      zoneType: z.formData.zoneType,
+      soilType: z.formData.soilType,
+      slope: z.formData.slope,
+      nozzleType: describeZoneNozzles(z.formData),
+      pressure: z.formData.pressure,
+      efficiency: z.stats.efficiency
+    };
+  });
+
+  return { rows, totals: { gallons: totalGallons, monthlyCost: totalMonthlyCost } };
+};
+
+// --- CSV EXPORT ---
+
+const CSV_HEADERS = [
+  'Zone Name', 'Zone Type', 'Area (Sq Ft)', 'Soil', 'Slope', 'Nozzle', 'PSI', 'Efficiency (%)',
+  'Nozzle PR (in/hr)', 'Weekly Minutes', 'Frequency (Days/Wk)', 'Cycle Protocol',
+  'Est. Weekly Gallons', 'Est. Monthly Cost ($)'
+];
+
+const escapeCsv = (value: string | number) => {
+  const text = String(value);
+  // Leading =, +, -, @ would be evaluated as formulas by spreadsheet apps
+  const safe = /^[=+\-@]/.test(text) && isNaN(Number(text)) ? `'${text}` : text;
+  return /[",\r\n]/.test(safe) ? `"${safe.replace(/"/g, '""')}"` : safe;
+};
+
+export const buildMasterReportCsv = (zones: SavedZone[], location: ProjectLocation): string => {
+  const { rows, totals } = buildMasterReport(zones, location);
+
+  const lines = [
+    CSV_HEADERS,
+    ...rows.map(row => [
+      row.name,
+      row.zoneType,
+      row.area,
+      row.soilType,
+      row.slope,
+      row.nozzleType,
+      row.pressure,
+      Math.round(row.efficiency * 100),
+      row.pr,
+      row.weeklyMin,
+      row.freq,
+      row.cycle,
+      row.gallons,
+      row.isSecondary && row.cost === 0 ? 'Secondary' : row.cost.toFixed(2)
+    ]),
+    ['TOTALS', '', '', '', '', '', '', '', '', '', '', '', totals.gallons, totals.monthlyCost.toFixed(2)]
+  ];
+
+  // CRLF line endings so Excel opens the file without an import wizard
+  return lines.map(line => line.map(escapeCsv).join(',')).join('\r\n');
+};
+
+export const downloadMasterReportCsv = (zones: SavedZone[], location: ProjectLocation, fileName = 'master-irrigation-report.csv') => {
+  // UTF-8 BOM keeps Excel from mangling non-ASCII zone names
+  downloadTextFile('\uFEFF' + buildMasterReportCsv(zones, location), fileName, 'text/csv;charset=utf-8');
+};
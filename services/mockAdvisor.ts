@@ -0,0 +1,97 @@
+import { LiveCalculation, PlantFormData } from "../types";
+import { AdvisorProvider } from "./advisorProvider";
+
+/**
+ * Replays recorded advisor responses in order, looping when they run out, and keeps
+ * every request it was given. Responses go through the same validation as live ones.
+ */
+
+export interface AdvisorFixtures {
+  plans: unknown[];
+  weather: unknown[];
+  photos: unknown[];
+}
+
+export interface MockAdvisorProvider extends AdvisorProvider {
+  planRequests: { data: PlantFormData; stats: LiveCalculation | null }[];
+  weatherRequests: { zip: string; month: string }[];
+  photoRequests: { image: File; data: PlantFormData }[];
+  reset: () => void;
+}
+
+// Shaped like a Gemini response for a cool season turf zone
+export const DEFAULT_ADVISOR_FIXTURES: AdvisorFixtures = {
+  plans: [{
+    zoneName: "Front Lawn",
+    scientificName: "Poa pratensis",
+    totalWeeklyWaterDurationMinutes: 84,
+    maxRunTimePerCycle: 10,
+    recommendedSoakTime: 30,
+    recommendedFrequencyDaysPerWeek: 3,
+    averageET: "1.6\"/wk",
+    climateSummary: "Hot, dry summer with little rain.",
+    rainfallOffset: "0.1\"/wk",
+    soilInfiltrationRate: "0.5 in/hr",
+    nozzlePrecipitationRate: "1.6 in/hr",
+    sunlightNeeds: "Full sun",
+    difficulty: "Moderate",
+    humidityPreference: "Low",
+    pressureAdvice: "Pressure is good for spray nozzles.",
+    mowingAdvice: "Mow at 3 inches to shade the soil.",
+    tips: [
+      "Cycle and soak to avoid runoff on loam.",
+      "Water before 10 AM to limit evaporation."
+    ]
+  }],
+  weather: [{ estWeeklyEt: 1.6, estWeeklyRain: 0.1, summary: "Fixture climate" }],
+  photos: [{
+    zoneType: "Cool Season Turf Grass",
+    turfSpecies: "Kentucky Bluegrass",
+    nozzleFamily: "spray",
+    slope: "0-15%",
+    sunlight: "Partial Sun",
+    stressAreas: ["Dry strip along the driveway edge"],
+    summary: "Bluegrass lawn on spray heads, shaded by a tree on the left."
+  }]
+};
+
+export const createMockAdvisorProvider = (fixtures: AdvisorFixtures = DEFAULT_ADVISOR_FIXTURES): MockAdvisorProvider => {
+  let planIdx = 0;
+  let weatherIdx = 0;
+  let photoIdx = 0;
+
+  const provider: MockAdvisorProvider = {
+    id: 'mock',
+    label: 'Mock (fixtures)',
+    isAvailable: () => true,
+    planRequests: [],
+    weatherRequests: [],
+    photoRequests: [],
+    requestPlan: async (data, stats) => {
+      provider.planRequests.push({ data, stats });
+      if (fixtures.plans.length === 0) throw new Error("No plan fixtures loaded.");
+      return fixtures.plans[planIdx++ % fixtures.plans.length];
+    },
+    requestWeather: async (zip, month) => {
+      provider.weatherRequests.push({ zip, month });
+      if (fixtures.weather.length === 0) return null;
+      return fixtures.weather[weatherIdx++ % fixtures.weather.length];
+    },
+    analyzePhoto: async (image, data) => {
+      provider.photoRequests.push({ image, data });
+      if (fixtures.photos.length === 0) throw new Error("No photo fixtures loaded.");
+      return fixtures.photos[photoIdx++ % fixtures.photos.length];
+    },
+    reset: () => {
+      planIdx = 0;
+      weatherIdx = 0;
+      photoIdx = 0;
+      provider.planRequests = [];
+      provider.weatherRequests = [];
+      provider.photoRequests = [];
+    }
+  };
+  return provider;
+};
+
+export const mockAdvisorProvider = createMockAdvisorProvider();
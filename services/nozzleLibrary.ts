@@ -0,0 +1,134 @@
+import { NozzleProduct, NozzlePerformancePoint } from "../types";
+
+const NOZZLE_LIBRARY_KEY = 'irrigation-calculator:nozzle-library';
+
+// Built-in catalog: Precise Precipitation Rates (in/hr), Optimal Pressure, and Application Efficiency (DU)
+export const NOZZLE_DATA: Record<string, { rate: number, label: string, optimalPsi: number, efficiency: number }> = {
+  "Fixed Spray (Generic)": { rate: 1.5, label: "Fixed Spray (Generic)", optimalPsi: 30, efficiency: 0.70 },
+  "Rainbird 1800 / HE-VAN": { rate: 1.6, label: "Rainbird 1800 / HE-VAN", optimalPsi: 30, efficiency: 0.75 },
+  "Hunter Pro-Spray": { rate: 1.5, label: "Hunter Pro-Spray", optimalPsi: 30, efficiency: 0.75 },
+  "Hunter MP Rotator (Standard)": { rate: 0.4, label: "Hunter MP Rotator (Standard)", optimalPsi: 40, efficiency: 0.80 },
+  "Hunter MP Rotator (MP800 SR)": { rate: 0.8, label: "Hunter MP Rotator (MP800 SR)", optimalPsi: 40, efficiency: 0.80 },
+  "Rainbird R-VAN": { rate: 0.6, label: "Rainbird R-VAN", optimalPsi: 45, efficiency: 0.75 },
+  "Rotor (Gear Drive - PGP/5000)": { rate: 0.5, label: "Rotor (Gear Drive - PGP/5000)", optimalPsi: 45, efficiency: 0.80 },
+  "Rotor (Low Angle)": { rate: 0.75, label: "Rotor (Low Angle)", optimalPsi: 45, efficiency: 0.80 },
+  "Drip Line (0.9 GPH - 12in Spacing)": { rate: 0.8, label: "Drip Line (0.9 GPH @ 12in)", optimalPsi: 30, efficiency: 0.90 },
+  "Drip Line (0.6 GPH - 12in Spacing)": { rate: 0.5, label: "Drip Line (0.6 GPH @ 12in)", optimalPsi: 30, efficiency: 0.90 },
+  "Drip Line (0.4 GPH - 12in Spacing)": { rate: 0.35, label: "Drip Line (0.4 GPH @ 12in)", optimalPsi: 30, efficiency: 0.90 },
+  "Bubbler (Flood)": { rate: 12.0, label: "Bubbler (High Flow)", optimalPsi: 30, efficiency: 0.85 },
+};
+
+// Catalog entries keep their NOZZLE_DATA key as the id so existing zones still resolve
+export const BUILT_IN_NOZZLES: NozzleProduct[] = Object.entries(NOZZLE_DATA).map(([id, n]) => ({
+  id,
+  label: n.label,
+  optimalPsi: n.optimalPsi,
+  efficiency: n.efficiency,
+  performance: [{ psi: n.optimalPsi, precipRate: n.rate }],
+  isBuiltIn: true
+}));
+
+export interface NozzlePerformance {
+  psi: number;
+  precipRate: number;
+  gpm?: number;            // Full-circle flow at this pressure
+  method: 'table' | 'square-root';
+  isOutOfRange: boolean;   // Pressure is outside the published table
+}
+
+// Loaded from localStorage on first use, then kept in sync by saveCustomNozzles
+let customNozzles: NozzleProduct[] | null = null;
+
+export const loadCustomNozzles = (): NozzleProduct[] => {
+  if (customNozzles) return customNozzles;
+  // Outside a browser (tests, scripts) there is nothing saved to load
+  if (typeof localStorage === 'undefined') {
+    customNozzles = [];
+    return customNozzles;
+  }
+  try {
+    const raw = localStorage.getItem(NOZZLE_LIBRARY_KEY);
+    const parsed = raw ? JSON.parse(raw) : [];
+    customNozzles = Array.isArray(parsed) ? parsed : [];
+  } catch (error) {
+    console.error("Nozzle Library Load Error:", error);
+    customNozzles = [];
+  }
+  return customNozzles;
+};
+
+export const saveCustomNozzles = (nozzles: NozzleProduct[]) => {
+  customNozzles = nozzles;
+  try {
+    localStorage.setItem(NOZZLE_LIBRARY_KEY, JSON.stringify(nozzles));
+  } catch (error) {
+    console.error("Nozzle Library Save Error:", error);
+  }
+};
+
+export const getNozzleLibrary = (): NozzleProduct[] => [...BUILT_IN_NOZZLES, ...loadCustomNozzles()];
+
+export const getNozzle = (id: string): NozzleProduct | undefined =>
+  loadCustomNozzles().find(n => n.id === id) || BUILT_IN_NOZZLES.find(n => n.id === id);
+
+export const createNozzleId = () => `custom-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+
+const lerp = (a: number, b: number, t: number) => a + (b - a) * t;
+const round2 = (value: number) => parseFloat(value.toFixed(2));
+
+/**
+ * Performance at a given pressure. Published tables are interpolated linearly
+ * between points and held at the end values outside them; entries with a single
+ * point fall back to the square-root law, clamped to 0.5x - 1.5x.
+ * An empty pressure means the product is running at its optimal PSI; zero or less
+ * means nothing reaches the nozzle, so it puts out nothing.
+ */
+export const getNozzlePerformance = (nozzle: NozzleProduct, pressure: number | ''): NozzlePerformance => {
+  const points: NozzlePerformancePoint[] = [...nozzle.performance].sort((a, b) => a.psi - b.psi);
+  const psi = pressure === '' || pressure == null ? nozzle.optimalPsi : Number(pressure);
+
+  if (!(psi > 0)) {
+    return {
+      psi: 0,
+      precipRate: 0,
+      gpm: points.some(p => p.gpm !== undefined) ? 0 : undefined,
+      method: points.length < 2 ? 'square-root' : 'table',
+      isOutOfRange: true
+    };
+  }
+
+  if (points.length < 2) {
+    const base = points[0] || { psi: nozzle.optimalPsi, precipRate: 0 };
+    const multiplier = Math.min(Math.max(Math.sqrt(psi / (base.psi || nozzle.optimalPsi)), 0.5), 1.5);
+    return {
+      psi,
+      precipRate: round2(base.precipRate * multiplier),
+      gpm: base.gpm !== undefined ? round2(base.gpm * multiplier) : undefined,
+      method: 'square-root',
+      isOutOfRange: false
+    };
+  }
+
+  const first = points[0];
+  const last = points[points.length - 1];
+  if (psi <= first.psi || psi >= last.psi) {
+    const end = psi <= first.psi ? first : last;
+    return { psi, precipRate: end.precipRate, gpm: end.gpm, method: 'table', isOutOfRange: psi !== end.psi };
+  }
+
+  const upperIdx = points.findIndex(p => p.psi >= psi);
+  const lower = points[upperIdx - 1];
+  const upper = points[upperIdx];
+  const t = (psi - lower.psi) / (upper.psi - lower.psi);
+  return {
+    psi,
+    precipRate: round2(lerp(lower.precipRate, upper.precipRate, t)),
+    gpm: lower.gpm !== undefined && upper.gpm !== undefined ? round2(lerp(lower.gpm, upper.gpm, t)) : undefined,
+    method: 'table',
+    isOutOfRange: false
+  };
+};
+
+// Matched-precipitation heads flow in proportion to their arc
+export const getArcFlow = (fullCircleGpm: number, arcDegrees: number) =>
+  round2(fullCircleGpm * Math.min(360, Math.max(0, arcDegrees)) / 360);
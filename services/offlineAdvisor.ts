@@ -0,0 +1,98 @@
+import { Difficulty, LiveCalculation, PlantFormData, WateringSchedule } from "../types";
+import { AdvisorProvider } from "./advisorProvider";
+import { SOIL_RATES, SLOPE_FACTORS } from "./zoneCalculator";
+import { getNozzle } from "./nozzleLibrary";
+
+// Pressure within this share of the nozzle's optimum counts as good
+const PRESSURE_BAND = 0.1;
+
+// Below this application efficiency an audit usually pays for itself
+const AUDIT_EFFICIENCY = 0.7;
+
+const MIN_MOWING_HEIGHT = 2.5;
+
+const getPressureAdvice = (data: PlantFormData, stats: LiveCalculation): string => {
+  const psi = stats.hydraulics ? stats.hydraulics.headPsi : data.pressure;
+  const nozzle = getNozzle(data.nozzleType);
+  if (stats.drip) return 'Drip zones need a pressure regulator at the valve; most emitters are rated for 15-30 PSI.';
+  if (psi === '' || psi === undefined) return 'No pressure entered. Measure static pressure at a hose bib to check the nozzles.';
+  if (!nozzle) return `Pressure at the heads is ${psi} PSI.`;
+  if (psi > nozzle.optimalPsi * (1 + PRESSURE_BAND)) {
+    return `High pressure: ${psi} PSI against an optimum of ${nozzle.optimalPsi} PSI causes misting. Use pressure-regulating heads or a regulator at the valve.`;
+  }
+  if (psi < nozzle.optimalPsi * (1 - PRESSURE_BAND)) {
+    return `Low pressure: ${psi} PSI against an optimum of ${nozzle.optimalPsi} PSI shortens the throw. Check for undersized pipe or too many heads on the valve.`;
+  }
+  return `Pressure is good: ${psi} PSI is within range of the ${nozzle.optimalPsi} PSI optimum.`;
+};
+
+const getTips = (data: PlantFormData, stats: LiveCalculation): string[] => {
+  const tips: string[] = [];
+  if (stats.cyclesPerDay > 1) {
+    tips.push(`Split each watering day into ${stats.cyclesPerDay} cycles of ${stats.minutesPerCycle} minutes with a ${stats.recommendedSoakTime}-minute soak so the ${data.soilType.toLowerCase()} can take up the water.`);
+  }
+  if ((SLOPE_FACTORS[data.slope] || 1) < 1) {
+    tips.push('Check the low end of the slope for runoff after the first cycle and shorten cycles if water pools.');
+  }
+  if (!stats.isAudited && !stats.drip && stats.efficiency < AUDIT_EFFICIENCY) {
+    tips.push(`Efficiency is ${Math.round(stats.efficiency * 100)}%. A catch-can audit and head adjustments can cut run time.`);
+  }
+  [stats.pressureWarning, stats.headMismatchWarning, stats.hydrozoneWarning, stats.restrictionWarning, ...(stats.hydraulics?.warnings || [])]
+    .filter(Boolean)
+    .forEach(warning => tips.push(warning));
+  if (stats.drip) {
+    tips.push('Flush drip lines and check emitters each spring; a clogged emitter starves its plant silently.');
+  }
+  tips.push('Water in the early morning to cut evaporation and wind drift.');
+  tips.push('Update the weekly ET each month; run times follow the season.');
+  return tips;
+};
+
+const getMowingAdvice = (data: PlantFormData): string | undefined => {
+  const height = parseFloat(data.mowingHeight || '');
+  if (!data.zoneType.includes('Turf') || isNaN(height)) return undefined;
+  return height < MIN_MOWING_HEIGHT
+    ? `Raise the mowing height from ${height}" to about 3". Taller turf shades the soil and roots deeper.`
+    : `Mowing at ${height}" supports deep roots. Remove no more than a third of the blade per cut.`;
+};
+
+const getDifficulty = (data: PlantFormData, stats: LiveCalculation): Difficulty => {
+  if (stats.cyclesPerDay > 2 || (SLOPE_FACTORS[data.slope] || 1) <= 0.5) return Difficulty.HARD;
+  if (stats.cyclesPerDay > 1 || stats.restrictionWarning) return Difficulty.MODERATE;
+  return Difficulty.EASY;
+};
+
+// Rule-based plan built entirely from the calculator's output
+export const buildOfflinePlan = (data: PlantFormData, stats: LiveCalculation | null): WateringSchedule => {
+  if (!stats) throw new Error("The offline advisor needs the zone type, soil, slope and nozzle to build a plan.");
+  const mowingAdvice = getMowingAdvice(data);
+  const infiltration = SOIL_RATES[data.soilType];
+
+  return {
+    zoneName: data.customZoneName || data.zoneType,
+    scientificName: '',
+    totalWeeklyWaterDurationMinutes: stats.weeklyTotalMinutes,
+    maxRunTimePerCycle: stats.maxRunTime,
+    recommendedSoakTime: stats.recommendedSoakTime,
+    recommendedFrequencyDaysPerWeek: stats.suggestedFrequency,
+    averageET: data.estWeeklyEt ? `${data.estWeeklyEt}"/wk` : 'Not set',
+    climateSummary: data.climateSource?.label || '',
+    rainfallOffset: data.estWeeklyRain ? `${data.estWeeklyRain}"/wk` : 'N/A',
+    soilInfiltrationRate: infiltration ? `${infiltration} in/hr` : 'N/A',
+    nozzlePrecipitationRate: `${stats.precipRate} in/hr`,
+    sunlightNeeds: data.sunlight || 'Not specified',
+    difficulty: getDifficulty(data, stats),
+    tips: getTips(data, stats),
+    ...(mowingAdvice ? { mowingAdvice } : {}),
+    pressureAdvice: getPressureAdvice(data, stats),
+    humidityPreference: ''
+  };
+};
+
+export const offlineAdvisorProvider: AdvisorProvider = {
+  id: 'offline',
+  label: 'Offline (rules)',
+  isAvailable: () => true,
+  requestPlan: async (data, stats) => buildOfflinePlan(data, stats),
+  requestWeather: async () => null
+};
@@ -0,0 +1,102 @@
+import { PhotoAnalysis, PhotoSuggestion, PlantFormData } from "../types";
+import { MAD_FACTORS } from "./zoneCalculator";
+import { getNozzle } from "./nozzleLibrary";
+import { PLANT_SPECIES } from "./plantDatabase";
+
+/**
+ * Turns an advisor's read of a zone photo into form suggestions. Only values the
+ * form offers are kept, and anything the zone already has is left out, so every
+ * suggestion is a real change the user can accept or reject.
+ */
+
+export const PHOTO_ZONE_TYPES = Object.keys(MAD_FACTORS);
+export const PHOTO_SLOPES = ['0-15%', '15-30%', '30-45%', '>45%'];
+export const PHOTO_SUNLIGHT = ['Direct Sun', 'Partial Sun', 'Shade'];
+
+// Heads can be told apart by family in a photo, not by model; each maps to a catalog entry
+export const NOZZLE_FAMILIES: Record<string, { nozzleId: string; label: string; pattern: RegExp }> = {
+  'spray': { nozzleId: 'Fixed Spray (Generic)', label: 'Fixed spray', pattern: /spray|1800|HE-VAN/i },
+  'rotator': { nozzleId: 'Hunter MP Rotator (Standard)', label: 'Rotary nozzle', pattern: /rotator|R-VAN/i },
+  'rotor': { nozzleId: 'Rotor (Gear Drive - PGP/5000)', label: 'Gear-drive rotor', pattern: /rotor/i },
+  'drip': { nozzleId: 'Drip Line (0.9 GPH - 12in Spacing)', label: 'Drip line', pattern: /drip/i },
+  'bubbler': { nozzleId: 'Bubbler (Flood)', label: 'Bubbler', pattern: /bubbler/i }
+};
+
+export const THUMBNAIL_SIZE_PX = 160;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const text = (value: unknown) => typeof value === 'string' ? value.trim() : '';
+
+// Models vary the case and spacing of enum values
+const pick = (value: unknown, options: string[]) =>
+  options.find(o => o.toLowerCase().replace(/\s/g, '') === text(value).toLowerCase().replace(/\s/g, ''));
+
+const findTurfSpecies = (name: string) => {
+  const lower = name.toLowerCase();
+  return lower ? PLANT_SPECIES.find(s => s.type === 'Turf'
+    && (s.commonName.toLowerCase() === lower || s.botanicalName.toLowerCase() === lower)) : undefined;
+};
+
+// A custom or catalog nozzle already in the detected family is kept
+const isInFamily = (nozzleId: string, family: string) => {
+  const nozzle = getNozzle(nozzleId);
+  return Boolean(nozzle) && NOZZLE_FAMILIES[family].pattern.test(`${nozzle.id} ${nozzle.label}`);
+};
+
+export const validatePhotoAnalysis = (raw: unknown, data: PlantFormData): PhotoAnalysis | null => {
+  if (!isObject(raw)) return null;
+  const suggestions: PhotoSuggestion[] = [];
+
+  const zoneType = pick(raw.zoneType, PHOTO_ZONE_TYPES);
+  if (zoneType && zoneType !== data.zoneType) {
+    suggestions.push({ field: 'zoneType', value: zoneType, label: zoneType });
+  }
+
+  const turfSpecies = text(raw.turfSpecies);
+  const species = findTurfSpecies(turfSpecies);
+  const isTurf = (zoneType || data.zoneType).includes('Turf');
+  if (species && isTurf && !(data.species || []).some(s => s.speciesId === species.id)) {
+    suggestions.push({ field: 'species', value: species.id, label: species.commonName });
+  }
+
+  const family = pick(raw.nozzleFamily, Object.keys(NOZZLE_FAMILIES));
+  if (family && !isInFamily(data.nozzleType, family)) {
+    suggestions.push({ field: 'nozzleType', value: NOZZLE_FAMILIES[family].nozzleId, label: NOZZLE_FAMILIES[family].label });
+  }
+
+  const slope = pick(raw.slope, PHOTO_SLOPES);
+  if (slope && slope !== data.slope) suggestions.push({ field: 'slope', value: slope, label: `${slope} slope` });
+
+  const sunlight = pick(raw.sunlight, PHOTO_SUNLIGHT);
+  if (sunlight && sunlight !== data.sunlight) suggestions.push({ field: 'sunlight', value: sunlight, label: sunlight });
+
+  return {
+    suggestions,
+    ...(turfSpecies && { turfSpecies }),
+    ...(family && { nozzleFamily: NOZZLE_FAMILIES[family].label }),
+    stressAreas: Array.isArray(raw.stressAreas) ? raw.stressAreas.map(text).filter(Boolean).slice(0, 5) : [],
+    summary: text(raw.summary)
+  };
+};
+
+// Scaled down to fit THUMBNAIL_SIZE_PX so it can be saved with the zone
+export const createPhotoThumbnail = (image: File): Promise<string> => new Promise((resolve, reject) => {
+  const url = URL.createObjectURL(image);
+  const img = new Image();
+  img.onload = () => {
+    const scale = Math.min(1, THUMBNAIL_SIZE_PX / Math.max(img.width, img.height));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(img.width * scale);
+    canvas.height = Math.round(img.height * scale);
+    canvas.getContext('2d').drawImage(img, 0, 0, canvas.width, canvas.height);
+    URL.revokeObjectURL(url);
+    resolve(canvas.toDataURL('image/jpeg', 0.7));
+  };
+  img.onerror = () => {
+    URL.revokeObjectURL(url);
+    reject(new Error(`Could not read ${image.name}.`));
+  };
+  img.src = url;
+});
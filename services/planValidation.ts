@@ -0,0 +1,126 @@
+import { Difficulty, LiveCalculation, PlantFormData, PlanDisagreement, WateringSchedule } from "../types";
+import { calculateZoneWaterUse, checkWaterUseConsistency, formatMonthlyCost } from "./waterUse";
+
+/**
+ * Advisor responses are checked in two steps:
+ * 1. validateWateringSchedule - shape and types; required fields must be present,
+ *    optional ones get defaults, numbers are clamped and unknown fields are dropped.
+ * 2. reconcileWithBaseline - numbers the calculator already knows replace the model's,
+ *    and any gap beyond the tolerance is recorded so the plan can say so.
+ */
+
+export const MAX_TIPS = 8;
+
+// Relative gap beyond which a replaced value is reported as a disagreement
+export const BASELINE_TOLERANCE = 0.1;
+
+export interface PlanValidationResult {
+  schedule: WateringSchedule | null; // null whenever errors is non-empty
+  errors: string[];
+}
+
+const REQUIRED_NUMBERS: (keyof WateringSchedule)[] = [
+  'totalWeeklyWaterDurationMinutes', 'maxRunTimePerCycle', 'recommendedFrequencyDaysPerWeek'
+];
+
+const REQUIRED_STRINGS: (keyof WateringSchedule)[] = ['zoneName', 'averageET', 'nozzlePrecipitationRate'];
+
+const DIFFICULTIES: string[] = Object.values(Difficulty);
+
+// The numeric plan fields the calculator also produces
+type BaselineField = 'totalWeeklyWaterDurationMinutes' | 'maxRunTimePerCycle' | 'recommendedSoakTime' | 'recommendedFrequencyDaysPerWeek';
+
+const BASELINE_FIELDS: { field: BaselineField; label: string; baseline: (stats: LiveCalculation) => number; minGap: number }[] = [
+  { field: 'totalWeeklyWaterDurationMinutes', label: 'Weekly minutes', baseline: s => s.weeklyTotalMinutes, minGap: 2 },
+  { field: 'maxRunTimePerCycle', label: 'Max run time (min)', baseline: s => s.maxRunTime, minGap: 1 },
+  { field: 'recommendedSoakTime', label: 'Soak time (min)', baseline: s => s.recommendedSoakTime, minGap: 2 },
+  { field: 'recommendedFrequencyDaysPerWeek', label: 'Days per week', baseline: s => s.suggestedFrequency, minGap: 0 }
+];
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// The schema asks for numbers, but models sometimes quote them
+const toNumber = (value: unknown) =>
+  typeof value === 'number' ? value : typeof value === 'string' ? parseFloat(value) : NaN;
+
+const text = (value: unknown, fallback = '') =>
+  typeof value === 'string' && value.trim() ? value.trim() : fallback;
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+export const validateWateringSchedule = (raw: unknown): PlanValidationResult => {
+  if (!isObject(raw)) return { schedule: null, errors: ['Response is not a JSON object.'] };
+
+  const errors: string[] = [];
+  REQUIRED_NUMBERS.forEach(field => {
+    const value = toNumber(raw[field]);
+    if (!isFinite(value) || value < 0) errors.push(`${field}: expected a non-negative number, got ${JSON.stringify(raw[field])}.`);
+  });
+  REQUIRED_STRINGS.forEach(field => {
+    if (!text(raw[field])) errors.push(`${field}: required.`);
+  });
+  const tips: unknown[] | null = Array.isArray(raw.tips) ? raw.tips : null;
+  if (!tips) errors.push(`tips: expected a list, got ${JSON.stringify(raw.tips)}.`);
+  if (errors.length > 0) return { schedule: null, errors };
+
+  const soakTime = toNumber(raw.recommendedSoakTime);
+  const gallons = toNumber(raw.estimatedGallonsPerWeek);
+  const mowingAdvice = text(raw.mowingAdvice);
+  const warning = text(raw.warning);
+  const cost = text(raw.estimatedCostPerMonth);
+
+  const schedule: WateringSchedule = {
+    zoneName: text(raw.zoneName),
+    scientificName: text(raw.scientificName),
+    totalWeeklyWaterDurationMinutes: Math.round(toNumber(raw.totalWeeklyWaterDurationMinutes)),
+    maxRunTimePerCycle: Math.max(1, Math.round(toNumber(raw.maxRunTimePerCycle))),
+    recommendedFrequencyDaysPerWeek: clamp(Math.round(toNumber(raw.recommendedFrequencyDaysPerWeek)), 1, 7),
+    ...(isFinite(soakTime) && soakTime >= 0 ? { recommendedSoakTime: Math.round(soakTime) } : {}),
+    ...(isFinite(gallons) && gallons >= 0 ? { estimatedGallonsPerWeek: Math.round(gallons) } : {}),
+    ...(cost ? { estimatedCostPerMonth: cost } : {}),
+    averageET: text(raw.averageET),
+    climateSummary: text(raw.climateSummary),
+    rainfallOffset: text(raw.rainfallOffset, 'N/A'),
+    soilInfiltrationRate: text(raw.soilInfiltrationRate, 'N/A'),
+    nozzlePrecipitationRate: text(raw.nozzlePrecipitationRate),
+    sunlightNeeds: text(raw.sunlightNeeds),
+    difficulty: (DIFFICULTIES.includes(text(raw.difficulty)) ? text(raw.difficulty) : Difficulty.MODERATE) as Difficulty,
+    tips: tips.filter((tip): tip is string => typeof tip === 'string' && tip.trim() !== '').slice(0, MAX_TIPS),
+    ...(mowingAdvice ? { mowingAdvice } : {}),
+    ...(warning ? { warning } : {}),
+    pressureAdvice: text(raw.pressureAdvice, 'No pressure advice returned.'),
+    humidityPreference: text(raw.humidityPreference)
+  };
+  return { schedule, errors: [] };
+};
+
+/**
+ * Replaces the run-time, soak, frequency, gallon and cost figures with the calculated
+ * ones. Gaps within the tolerance are rounding; larger ones are listed in disagreements.
+ */
+export const reconcileWithBaseline = (schedule: WateringSchedule, formData: PlantFormData, stats: LiveCalculation): WateringSchedule => {
+  const reconciled: WateringSchedule = { ...schedule };
+  const disagreements: PlanDisagreement[] = [];
+
+  BASELINE_FIELDS.forEach(({ field, label, baseline, minGap }) => {
+    const modelValue = schedule[field];
+    const baselineValue = baseline(stats);
+    // A value the model left out is filled in without being reported
+    if (modelValue !== undefined && Math.abs(modelValue - baselineValue) > Math.max(minGap, baselineValue * BASELINE_TOLERANCE)) {
+      disagreements.push({ field, label, modelValue, baselineValue });
+    }
+    reconciled[field] = baselineValue;
+  });
+
+  if (formData.zoneAreaSqFt) {
+    const usage = calculateZoneWaterUse(formData, stats);
+    checkWaterUseConsistency(schedule, usage).forEach(d => {
+      disagreements.push({ field: d.field, label: d.label, modelValue: d.advisorValue, baselineValue: d.computedValue });
+    });
+    reconciled.estimatedGallonsPerWeek = usage.weeklyGallons;
+    reconciled.estimatedCostPerMonth = formatMonthlyCost(usage);
+  }
+
+  return disagreements.length > 0 ? { ...reconciled, disagreements } : reconciled;
+};
@@ -0,0 +1,168 @@
+import { PlantSpecies, ZoneSpecies, PlantFormData } from "../types";
+import { CLIMATE_STATIONS, ZIP_PREFIX_STATIONS } from "./climateData";
+
+/**
+ * Bundled plant list with WUCOLS-style water use classes. The same plant can land in
+ * a different class depending on climate, so each entry is rated per region.
+ * Turf is rated by crop coefficient instead, since WUCOLS does not cover lawns.
+ */
+
+// Plant water use classes (fraction of reference ET)
+export const WATER_USE_FACTORS: Record<string, number> = {
+  "Very Low": 0.1, "Low": 0.2, "Moderate": 0.5, "High": 0.8
+};
+
+const WATER_USE_ORDER = ["Very Low", "Low", "Moderate", "High"];
+
+export const PLANT_REGIONS = ["Intermountain", "Desert Southwest"];
+export const DEFAULT_PLANT_REGION = "Intermountain";
+
+// Classes this far apart on one valve means somebody is over- or under-watered
+const MAX_CLASS_SPREAD = 1;
+
+const rated = (intermountain: string, desert: string) => ({ "Intermountain": intermountain, "Desert Southwest": desert });
+
+export const PLANT_SPECIES: PlantSpecies[] = [
+  // Turf
+  { id: "kbg", commonName: "Kentucky Bluegrass", botanicalName: "Poa pratensis", type: "Turf", turfFactor: 0.95, turfSeason: "cool", rootDepthIn: 6 },
+  { id: "tall-fescue", commonName: "Tall Fescue", botanicalName: "Festuca arundinacea", type: "Turf", turfFactor: 0.85, turfSeason: "cool", rootDepthIn: 10 },
+  { id: "perennial-rye", commonName: "Perennial Ryegrass", botanicalName: "Lolium perenne", type: "Turf", turfFactor: 0.9, turfSeason: "cool", rootDepthIn: 6 },
+  { id: "fine-fescue", commonName: "Fine Fescue", botanicalName: "Festuca rubra", type: "Turf", turfFactor: 0.75, turfSeason: "cool", rootDepthIn: 6 },
+  { id: "bermuda", commonName: "Bermudagrass", botanicalName: "Cynodon dactylon", type: "Turf", turfFactor: 0.7, turfSeason: "warm", rootDepthIn: 8 },
+  { id: "zoysia", commonName: "Zoysiagrass", botanicalName: "Zoysia japonica", type: "Turf", turfFactor: 0.65, turfSeason: "warm", rootDepthIn: 8 },
+  { id: "buffalograss", commonName: "Buffalograss", botanicalName: "Bouteloua dactyloides", type: "Turf", turfFactor: 0.5, turfSeason: "warm", rootDepthIn: 10 },
+  { id: "blue-grama", commonName: "Blue Grama", botanicalName: "Bouteloua gracilis", type: "Turf", turfFactor: 0.5, turfSeason: "warm", rootDepthIn: 10 },
+
+  // Trees
+  { id: "honeylocust", commonName: "Honeylocust", botanicalName: "Gleditsia triacanthos", type: "Tree", waterUse: rated("Moderate", "Moderate"), rootDepthIn: 24 },
+  { id: "bur-oak", commonName: "Bur Oak", botanicalName: "Quercus macrocarpa", type: "Tree", waterUse: rated("Low", "Moderate"), rootDepthIn: 24 },
+  { id: "norway-maple", commonName: "Norway Maple", botanicalName: "Acer platanoides", type: "Tree", waterUse: rated("Moderate", "High"), rootDepthIn: 24 },
+  { id: "bigtooth-maple", commonName: "Bigtooth Maple", botanicalName: "Acer grandidentatum", type: "Tree", waterUse: rated("Low", "Moderate"), rootDepthIn: 24 },
+  { id: "austrian-pine", commonName: "Austrian Pine", botanicalName: "Pinus nigra", type: "Tree", waterUse: rated("Low", "Moderate"), rootDepthIn: 24 },
+  { id: "blue-spruce", commonName: "Colorado Blue Spruce", botanicalName: "Picea pungens", type: "Tree", waterUse: rated("Moderate", "High"), rootDepthIn: 18 },
+  { id: "aspen", commonName: "Quaking Aspen", botanicalName: "Populus tremuloides", type: "Tree", waterUse: rated("High", "High"), rootDepthIn: 18 },
+  { id: "desert-willow", commonName: "Desert Willow", botanicalName: "Chilopsis linearis", type: "Tree", waterUse: rated("Low", "Low"), rootDepthIn: 24 },
+  { id: "palo-verde", commonName: "Blue Palo Verde", botanicalName: "Parkinsonia florida", type: "Tree", waterUse: rated("Low", "Very Low"), rootDepthIn: 24 },
+
+  // Shrubs
+  { id: "lavender", commonName: "English Lavender", botanicalName: "Lavandula angustifolia", type: "Shrub", waterUse: rated("Low", "Low"), rootDepthIn: 12 },
+  { id: "russian-sage", commonName: "Russian Sage", botanicalName: "Perovskia atriplicifolia", type: "Shrub", waterUse: rated("Low", "Low"), rootDepthIn: 18 },
+  { id: "rabbitbrush", commonName: "Rubber Rabbitbrush", botanicalName: "Ericameria nauseosa", type: "Shrub", waterUse: rated("Very Low", "Very Low"), rootDepthIn: 18 },
+  { id: "big-sage", commonName: "Big Sagebrush", botanicalName: "Artemisia tridentata", type: "Shrub", waterUse: rated("Very Low", "Very Low"), rootDepthIn: 18 },
+  { id: "apache-plume", commonName: "Apache Plume", botanicalName: "Fallugia paradoxa", type: "Shrub", waterUse: rated("Very Low", "Low"), rootDepthIn: 18 },
+  { id: "texas-sage", commonName: "Texas Sage", botanicalName: "Leucophyllum frutescens", type: "Shrub", waterUse: rated("Low", "Low"), rootDepthIn: 18 },
+  { id: "boxwood", commonName: "Boxwood", botanicalName: "Buxus spp.", type: "Shrub", waterUse: rated("Moderate", "High"), rootDepthIn: 12 },
+  { id: "burning-bush", commonName: "Burning Bush", botanicalName: "Euonymus alatus", type: "Shrub", waterUse: rated("Moderate", "High"), rootDepthIn: 18 },
+  { id: "lilac", commonName: "Common Lilac", botanicalName: "Syringa vulgaris", type: "Shrub", waterUse: rated("Moderate", "Moderate"), rootDepthIn: 18 },
+  { id: "potentilla", commonName: "Shrubby Cinquefoil", botanicalName: "Dasiphora fruticosa", type: "Shrub", waterUse: rated("Moderate", "Moderate"), rootDepthIn: 12 },
+  { id: "barberry", commonName: "Japanese Barberry", botanicalName: "Berberis thunbergii", type: "Shrub", waterUse: rated("Low", "Moderate"), rootDepthIn: 12 },
+  { id: "hydrangea", commonName: "Smooth Hydrangea", botanicalName: "Hydrangea arborescens", type: "Shrub", waterUse: rated("High", "High"), rootDepthIn: 12 },
+  { id: "shrub-rose", commonName: "Shrub Rose", botanicalName: "Rosa spp.", type: "Shrub", waterUse: rated("Moderate", "High"), rootDepthIn: 18 },
+
+  // Perennials and groundcovers
+  { id: "hosta", commonName: "Hosta", botanicalName: "Hosta spp.", type: "Perennial", waterUse: rated("High", "High"), rootDepthIn: 8 },
+  { id: "daylily", commonName: "Daylily", botanicalName: "Hemerocallis spp.", type: "Perennial", waterUse: rated("Moderate", "Moderate"), rootDepthIn: 12 },
+  { id: "blanket-flower", commonName: "Blanket Flower", botanicalName: "Gaillardia aristata", type: "Perennial", waterUse: rated("Low", "Low"), rootDepthIn: 12 },
+  { id: "penstemon", commonName: "Penstemon", botanicalName: "Penstemon spp.", type: "Perennial", waterUse: rated("Very Low", "Low"), rootDepthIn: 12 },
+  { id: "yarrow", commonName: "Yarrow", botanicalName: "Achillea millefolium", type: "Perennial", waterUse: rated("Low", "Low"), rootDepthIn: 12 },
+  { id: "black-eyed-susan", commonName: "Black-eyed Susan", botanicalName: "Rudbeckia hirta", type: "Perennial", waterUse: rated("Moderate", "Moderate"), rootDepthIn: 12 },
+  { id: "agastache", commonName: "Hummingbird Mint", botanicalName: "Agastache spp.", type: "Perennial", waterUse: rated("Low", "Low"), rootDepthIn: 12 },
+  { id: "creeping-thyme", commonName: "Creeping Thyme", botanicalName: "Thymus serpyllum", type: "Groundcover", waterUse: rated("Low", "Moderate"), rootDepthIn: 6 },
+  { id: "hens-chicks", commonName: "Hens and Chicks", botanicalName: "Sempervivum spp.", type: "Groundcover", waterUse: rated("Very Low", "Low"), rootDepthIn: 6 },
+  { id: "vinca", commonName: "Periwinkle", botanicalName: "Vinca minor", type: "Groundcover", waterUse: rated("Moderate", "High"), rootDepthIn: 8 },
+
+  // Ornamental grasses
+  { id: "feather-reed", commonName: "Feather Reed Grass", botanicalName: "Calamagrostis x acutiflora", type: "Ornamental Grass", waterUse: rated("Moderate", "Moderate"), rootDepthIn: 12 },
+  { id: "little-bluestem", commonName: "Little Bluestem", botanicalName: "Schizachyrium scoparium", type: "Ornamental Grass", waterUse: rated("Low", "Low"), rootDepthIn: 18 },
+  { id: "blue-fescue", commonName: "Blue Fescue", botanicalName: "Festuca glauca", type: "Ornamental Grass", waterUse: rated("Low", "Moderate"), rootDepthIn: 8 }
+];
+
+export interface HydrozoneSummary {
+  region: string;
+  coefficient: number;      // Area-weighted plant factor
+  rootDepthIn: number;      // Area-weighted effective root depth
+  waterUseClasses: string[]; // Classes present, low to high
+  mixWarning: string | null;
+}
+
+const round2 = (value: number) => parseFloat(value.toFixed(2));
+
+export const getSpecies = (id: string): PlantSpecies | undefined => PLANT_SPECIES.find(s => s.id === id);
+
+// Matches common or botanical name, turf first when the zone is turf
+export const searchSpecies = (query: string, preferTurf = false): PlantSpecies[] => {
+  const q = query.trim().toLowerCase();
+  const matches = PLANT_SPECIES.filter(s =>
+    !q || s.commonName.toLowerCase().includes(q) || s.botanicalName.toLowerCase().includes(q) || s.type.toLowerCase().includes(q)
+  );
+  return preferTurf ? [...matches.filter(s => s.type === 'Turf'), ...matches.filter(s => s.type !== 'Turf')] : matches;
+};
+
+export const getPlantRegion = (zipCode: string): string =>
+  CLIMATE_STATIONS[ZIP_PREFIX_STATIONS[(zipCode || '').trim().substring(0, 3)]]?.plantRegion || DEFAULT_PLANT_REGION;
+
+export const getSpeciesWaterUse = (species: PlantSpecies, region: string): string => {
+  if (species.turfFactor !== undefined) {
+    // Place turf on the same scale so mixes with beds can be compared
+    return species.turfFactor >= 0.7 ? "High" : species.turfFactor >= 0.4 ? "Moderate" : "Low";
+  }
+  return species.waterUse[region] || species.waterUse[DEFAULT_PLANT_REGION];
+};
+
+export const getSpeciesFactor = (species: PlantSpecies, region: string): number =>
+  species.turfFactor ?? WATER_USE_FACTORS[getSpeciesWaterUse(species, region)];
+
+/**
+ * Rolls a planting mix up into one hydrozone. Shares weight the coefficient and root
+ * depth; species with a blank share split whatever is left of 100% evenly.
+ */
+export const summarizeHydrozone = (mix: ZoneSpecies[], region: string): HydrozoneSummary | null => {
+  const listed = mix
+    .map(m => ({ species: getSpecies(m.speciesId), share: m.sharePercent > 0 ? m.sharePercent : 0 }))
+    .filter(e => e.species);
+  if (listed.length === 0) return null;
+
+  const blankCount = listed.filter(e => e.share === 0).length;
+  const remainingShare = Math.max(0, 100 - listed.reduce((sum, e) => sum + e.share, 0));
+  const entries = listed.map(e => e.share > 0 ? e : { ...e, share: remainingShare / blankCount });
+
+  const totalShare = entries.reduce((sum, e) => sum + e.share, 0);
+  const weightOf = (share: number) => totalShare > 0 ? share / totalShare : 1 / entries.length;
+  const coefficient = entries.reduce((sum, e) => sum + getSpeciesFactor(e.species, region) * weightOf(e.share), 0);
+  const rootDepthIn = entries.reduce((sum, e) => sum + e.species.rootDepthIn * weightOf(e.share), 0);
+
+  const classes = Array.from(new Set(entries.map(e => getSpeciesWaterUse(e.species, region))))
+    .sort((a, b) => WATER_USE_ORDER.indexOf(a) - WATER_USE_ORDER.indexOf(b));
+  const spread = WATER_USE_ORDER.indexOf(classes[classes.length - 1]) - WATER_USE_ORDER.indexOf(classes[0]);
+  const names = (waterUse: string) => entries
+    .filter(e => getSpeciesWaterUse(e.species, region) === waterUse)
+    .map(e => e.species.commonName)
+    .join(', ');
+
+  const mixWarning = spread > MAX_CLASS_SPREAD
+    ? `${names(classes[classes.length - 1])} (${classes[classes.length - 1]}) and ${names(classes[0])} (${classes[0]}) share this valve. Any schedule overwaters one or underwaters the other; move them to separate hydrozones.`
+    : null;
+
+  return {
+    region,
+    coefficient: round2(coefficient),
+    rootDepthIn: Math.round(rootDepthIn),
+    waterUseClasses: classes,
+    mixWarning
+  };
+};
+
+export const getZoneHydrozone = (formData: PlantFormData): HydrozoneSummary | null =>
+  formData.species && formData.species.length > 0
+    ? summarizeHydrozone(formData.species, getPlantRegion(formData.zipCode))
+    : null;
+
+// Short description for prompts and reports
+export const describeZoneSpecies = (formData: PlantFormData): string =>
+  (formData.species || [])
+    .map(m => {
+      const species = getSpecies(m.speciesId);
+      return species ? `${species.commonName}${m.sharePercent > 0 ? ` ${m.sharePercent}%` : ''}` : null;
+    })
+    .filter(Boolean)
+    .join(', ');
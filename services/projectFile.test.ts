@@ -0,0 +1,193 @@
+import { describe, it, expect } from 'vitest';
+import { NozzleProduct, PlantFormData, Project, ProjectLocation, SavedZone } from '../types';
+import { PROJECT_FILE_SCHEMA, PROJECT_FILE_VERSION, parseProjectFile, toProjectFile } from './projectFile';
+import { createProject } from './projectStorage';
+import { calculateZone } from './zoneCalculator';
+
+const makeForm = (overrides: Partial<PlantFormData> = {}): PlantFormData => ({
+  customZoneName: 'Front Lawn',
+  zoneType: 'Cool Season Turf Grass',
+  zoneAreaSqFt: '1200',
+  frequencyMode: 'soil',
+  location: 'Ogden, UT',
+  zipCode: '84401',
+  month: 'July',
+  nozzleType: 'Fixed Spray (Generic)',
+  pressure: 45,
+  efficiency: '',
+  soilType: 'Loam',
+  slope: '0-15%',
+  sunlight: 'Direct Sun',
+  mowingHeight: '3.0',
+  waterSource: 'Culinary',
+  waterPrice: '3.00',
+  image: null,
+  ...overrides
+});
+
+const makeZone = (id: string, formData: PlantFormData): SavedZone => ({
+  id,
+  name: formData.customZoneName,
+  formData,
+  stats: calculateZone(formData),
+  timestamp: 1700000000000
+});
+
+const LOCATION: ProjectLocation = {
+  location: 'Ogden, UT',
+  zipCode: '84401',
+  month: 'July',
+  estWeeklyEt: '1.8',
+  waterSource: 'Culinary',
+  waterPrice: '3.00',
+  restrictions: { dayRule: 'odd-even', addressParity: 'odd', noWaterStart: '10:00', noWaterEnd: '18:00' }
+};
+
+const makeProject = (): Project => ({
+  ...createProject('Smith Residence', LOCATION),
+  zones: [
+    makeZone('z1', makeForm()),
+    makeZone('z2', makeForm({ customZoneName: 'Side Beds', zoneType: 'Perennials', soilType: 'Clay', pressure: '' }))
+  ]
+});
+
+// Exports the project and hands back the parsed JSON for tampering
+const exportJson = (project = makeProject()) => JSON.parse(JSON.stringify(toProjectFile(project)));
+
+const errorPaths = (text: string) => parseProjectFile(text).errors.map(e => e.path);
+
+describe('toProjectFile / parseProjectFile', () => {
+  it('round-trips a project through JSON', () => {
+    const project = makeProject();
+    const result = parseProjectFile(JSON.stringify(toProjectFile(project)));
+
+    expect(result.errors).toEqual([]);
+    expect(result.nozzles).toEqual([]);
+    expect(result.project.name).toBe('Smith Residence');
+    expect(result.project.location).toEqual(LOCATION);
+    expect(result.project.zones).toEqual(project.zones);
+  });
+
+  it('stamps the schema and current version', () => {
+    const file = toProjectFile(makeProject());
+    expect(file.schema).toBe(PROJECT_FILE_SCHEMA);
+    expect(file.version).toBe(PROJECT_FILE_VERSION);
+  });
+
+  it('drops zone photos from the export', () => {
+    const project = makeProject();
+    project.zones[0].formData.image = new File(['photo'], 'lawn.jpg', { type: 'image/jpeg' });
+    expect(toProjectFile(project).project.zones[0].formData.image).toBeNull();
+  });
+
+  it('reads pressure typed as text back as a number', () => {
+    const json = exportJson();
+    json.project.zones[0].formData.pressure = '45';
+    expect(parseProjectFile(JSON.stringify(json)).project.zones[0].formData.pressure).toBe(45);
+  });
+
+  it('accepts zones that use custom nozzles shipped in the file', () => {
+    const nozzle: NozzleProduct = {
+      id: 'custom-spray',
+      label: 'Custom Spray',
+      optimalPsi: 30,
+      efficiency: 0.7,
+      performance: [{ psi: 30, precipRate: 1.6 }]
+    };
+    const json = exportJson();
+    json.project.nozzles = [nozzle];
+    json.project.zones[0].formData.nozzleType = 'custom-spray';
+
+    const result = parseProjectFile(JSON.stringify(json));
+    expect(result.errors).toEqual([]);
+    expect(result.nozzles).toEqual([nozzle]);
+  });
+});
+
+describe('parseProjectFile migrations', () => {
+  it('lifts the v1 location out of the first zone', () => {
+    const zones = makeProject().zones;
+    const result = parseProjectFile(JSON.stringify({ schema: PROJECT_FILE_SCHEMA, version: 1, exportedAt: '2024-05-01T00:00:00Z', zones }));
+
+    expect(result.errors).toEqual([]);
+    expect(result.project.name).toBe('Imported Project');
+    expect(result.project.location).toMatchObject({ location: 'Ogden, UT', zipCode: '84401', month: 'July', waterSource: 'Culinary' });
+    expect(result.project.zones.map(z => z.name)).toEqual(['Front Lawn', 'Side Beds']);
+  });
+
+  it('opens a bare list of zones', () => {
+    const zones = makeProject().zones.map(({ id, timestamp, ...zone }) => zone);
+    const result = parseProjectFile(JSON.stringify(zones));
+
+    expect(result.errors).toEqual([]);
+    expect(result.project.zones).toHaveLength(2);
+    // Missing ids and timestamps are filled in
+    expect(result.project.zones.every(z => z.id && typeof z.timestamp === 'number')).toBe(true);
+  });
+
+  it('marks zones saved before the soil budget as legacy', () => {
+    const json = exportJson();
+    delete json.project.zones[0].formData.frequencyMode;
+    expect(parseProjectFile(JSON.stringify(json)).project.zones[0].formData.frequencyMode).toBe('legacy');
+  });
+});
+
+describe('parseProjectFile errors', () => {
+  it('rejects text that is not JSON', () => {
+    expect(parseProjectFile('{"schema":')).toEqual({
+      project: null,
+      nozzles: [],
+      errors: [{ path: '$', message: 'File is not valid JSON.' }]
+    });
+  });
+
+  it('rejects other JSON documents', () => {
+    expect(parseProjectFile('"hello"').errors).toEqual([{ path: '$', message: 'File is not a project export.' }]);
+    expect(parseProjectFile(JSON.stringify({ schema: 'something-else', version: 2 })).errors)
+      .toEqual([{ path: 'schema', message: 'Expected "irrigation-calculator/project", got "something-else".' }]);
+  });
+
+  it('rejects files from a newer version', () => {
+    const json = { ...exportJson(), version: PROJECT_FILE_VERSION + 1 };
+    expect(parseProjectFile(JSON.stringify(json)).errors)
+      .toEqual([{ path: 'version', message: `File version ${PROJECT_FILE_VERSION + 1} is newer than this app supports (${PROJECT_FILE_VERSION}).` }]);
+  });
+
+  it('points at each bad field instead of stopping at the first', () => {
+    const json = exportJson();
+    json.project.zones[0].formData.soilType = 'Peat';
+    delete json.project.zones[1].formData.slope;
+    json.project.zones[1].formData.zoneAreaSqFt = 'big';
+    json.project.zones[1].stats.precipRate = null;
+    delete json.project.location.zipCode;
+
+    const result = parseProjectFile(JSON.stringify(json));
+    expect(result.project).toBeNull();
+    expect(result.errors).toEqual([
+      { path: 'project.zones[0].formData.soilType', message: 'Unknown value "Peat".' },
+      { path: 'project.zones[1].formData.slope', message: 'Required.' },
+      { path: 'project.zones[1].formData.zoneAreaSqFt', message: 'Expected a numeric value, got "big".' },
+      { path: 'project.zones[1].stats.precipRate', message: 'Expected a number, got null.' },
+      { path: 'project.location.zipCode', message: 'Required.' }
+    ]);
+  });
+
+  it('checks nozzles referenced by head inventories', () => {
+    const json = exportJson();
+    json.project.zones[0].formData.nozzleType = '';
+    json.project.zones[0].formData.heads = [{ id: 'h1', count: 4, nozzleId: 'missing-nozzle', arc: 'half', radiusFt: 12 }];
+
+    expect(parseProjectFile(JSON.stringify(json)).errors).toEqual([
+      { path: 'project.zones[0].formData.heads[0].nozzleId', message: 'Unknown value "missing-nozzle".' },
+      { path: 'project.zones[0].formData.heads[0].arc', message: 'Expected a number, got "half".' }
+    ]);
+  });
+
+  it('rejects unknown restriction rules and bad custom nozzles', () => {
+    const json = exportJson();
+    json.project.location.restrictions.dayRule = 'weekends';
+    json.project.nozzles = [{ id: 'custom-spray', label: 'Custom Spray', optimalPsi: 30, efficiency: 70, performance: [] }];
+
+    expect(errorPaths(JSON.stringify(json))).toEqual(['project.nozzles[0]', 'project.location.restrictions.dayRule']);
+  });
+});
@@ -0,0 +1,387 @@
+import { Project, ProjectLocation, SavedZone, PlantFormData, LiveCalculation, NozzleProduct } from "../types";
+import { SOIL_RATES, SLOPE_FACTORS, ZONE_FACTORS, SUNLIGHT_FACTORS } from "./zoneCalculator";
+import { getNozzle, getNozzleLibrary } from "./nozzleLibrary";
+import { getZoneNozzleIds } from "./headInventory";
+import { PIPE_MATERIALS } from "./hydraulics";
+import { getSpecies } from "./plantDatabase";
+import { createProject, migrateZone } from "./projectStorage";
+import { downloadTextFile } from "./download";
+
+export const PROJECT_FILE_SCHEMA = 'irrigation-calculator/project';
+export const PROJECT_FILE_VERSION = 2;
+
+/**
+ * On-disk format.
+ * v1: { schema, version: 1, exportedAt, zones } - location lived only inside each zone's formData.
+ * v2: { schema, version: 2, exportedAt, project: { name, location, zones, nozzles? } }
+ *     nozzles carries the custom library entries the zones reference, so the file
+ *     opens on a machine that doesn't have them.
+ */
+export interface ProjectFileV2 {
+  schema: typeof PROJECT_FILE_SCHEMA;
+  version: 2;
+  exportedAt: string;
+  project: {
+    name: string;
+    location: ProjectLocation;
+    zones: SavedZone[];
+    nozzles?: NozzleProduct[];
+  };
+}
+
+export interface ImportFieldError {
+  path: string;
+  message: string;
+}
+
+// project is null whenever errors is non-empty
+export interface ProjectImportResult {
+  project: Project | null;
+  nozzles: NozzleProduct[]; // Custom library entries to add before opening the project
+  errors: ImportFieldError[];
+}
+
+const WATER_SOURCES = ['Culinary', 'Secondary'];
+const DAY_RULES = ['none', 'odd-even', 'assigned'];
+const FREQUENCY_MODES = ['soil', 'legacy'];
+const DRIP_LAYOUTS = ['emitters', 'dripline'];
+const RATE_UNITS = ['kgal', 'ccf'];
+
+const STATS_FIELDS: (keyof LiveCalculation)[] = [
+  'precipRate', 'weeklyTotalMinutes', 'suggestedFrequency', 'dailyRunTime', 'maxRunTime',
+  'recommendedSoakTime', 'cyclesPerDay', 'minutesPerCycle', 'inchesAppliedPerDay', 'efficiency'
+];
+
+const NUMERIC_STRING_FIELDS: (keyof PlantFormData)[] = [
+  'zoneAreaSqFt', 'mowingHeight', 'efficiency', 'estWeeklyEt', 'estWeeklyRain', 'waterPrice', 'depletionPercent'
+];
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNumericString = (value: unknown) =>
+  typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value));
+
+const isOneOf = (value: unknown, options: string[]) => typeof value === 'string' && options.includes(value);
+
+const isPositive = (value: unknown) => typeof value === 'number' && value > 0;
+
+export const toProjectFile = (project: Project): ProjectFileV2 => ({
+  schema: PROJECT_FILE_SCHEMA,
+  version: PROJECT_FILE_VERSION,
+  exportedAt: new Date().toISOString(),
+  project: {
+    name: project.name,
+    location: project.location,
+    zones: project.zones.map(z => ({ ...z, formData: { ...z.formData, image: null } })),
+    nozzles: Array.from(new Set(project.zones.flatMap(z => getZoneNozzleIds(z.formData))))
+      .map(id => getNozzle(id))
+      .filter(n => n && !n.isBuiltIn)
+  }
+});
+
+export const downloadProjectFile = (project: Project) => {
+  const json = JSON.stringify(toProjectFile(project), null, 2);
+  const fileName = `${project.name.replace(/[^a-z0-9-_ ]/gi, '').trim() || 'project'}.json`;
+  downloadTextFile(json, fileName, 'application/json');
+};
+
+// --- MIGRATIONS ---
+
+// v0: a bare SavedZone[] (e.g. copied from localStorage before projects existed)
+const migrateV0 = (zones: unknown[]): Record<string, unknown> => ({
+  schema: PROJECT_FILE_SCHEMA,
+  version: 1,
+  exportedAt: new Date(0).toISOString(),
+  zones
+});
+
+// v1 -> v2: lift location data out of the first zone
+const migrateV1 = (file: Record<string, unknown>): Record<string, unknown> => {
+  const zones: unknown[] = Array.isArray(file.zones) ? file.zones : [];
+  const first = isObject(zones[0]) && isObject(zones[0].formData) ? zones[0].formData : {};
+  return {
+    schema: PROJECT_FILE_SCHEMA,
+    version: 2,
+    exportedAt: file.exportedAt,
+    project: {
+      name: 'Imported Project',
+      location: {
+        location: first.location || '',
+        zipCode: first.zipCode || '',
+        month: first.month || '',
+        estWeeklyEt: first.estWeeklyEt,
+        estWeeklyRain: first.estWeeklyRain,
+        waterSource: first.waterSource || 'Culinary',
+        waterPrice: first.waterPrice
+      },
+      zones
+    }
+  };
+};
+
+const migrate = (raw: unknown, errors: ImportFieldError[]): Record<string, unknown> | null => {
+  let file: Record<string, unknown>;
+  if (Array.isArray(raw)) {
+    file = migrateV0(raw);
+  } else if (isObject(raw)) {
+    file = raw;
+  } else {
+    errors.push({ path: '$', message: 'File is not a project export.' });
+    return null;
+  }
+
+  if (file.schema !== PROJECT_FILE_SCHEMA) {
+    errors.push({ path: 'schema', message: `Expected "${PROJECT_FILE_SCHEMA}", got ${JSON.stringify(file.schema)}.` });
+    return null;
+  }
+  if (typeof file.version !== 'number' || file.version < 1) {
+    errors.push({ path: 'version', message: 'Missing or invalid schema version.' });
+    return null;
+  }
+  if (file.version > PROJECT_FILE_VERSION) {
+    errors.push({ path: 'version', message: `File version ${file.version} is newer than this app supports (${PROJECT_FILE_VERSION}).` });
+    return null;
+  }
+
+  if (file.version === 1) file = migrateV1(file);
+  return file;
+};
+
+// --- VALIDATION ---
+
+const validatePipeRun = (run: unknown, path: string, errors: ImportFieldError[]) => {
+  if (!isObject(run)) {
+    errors.push({ path, message: 'Missing pipe run.' });
+    return;
+  }
+  if (!(typeof run.material === 'string' && run.material in PIPE_MATERIALS)) {
+    errors.push({ path: `${path}.material`, message: `Unknown value ${JSON.stringify(run.material)}.` });
+  }
+  if (run.lengthFt !== '' && !isNumericString(run.lengthFt)) {
+    errors.push({ path: `${path}.lengthFt`, message: `Expected a numeric value, got ${JSON.stringify(run.lengthFt)}.` });
+  }
+};
+
+const validateFormData = (formData: unknown, path: string, errors: ImportFieldError[], nozzleIds: Record<string, unknown>) => {
+  if (!isObject(formData)) {
+    errors.push({ path, message: 'Missing zone inputs.' });
+    return;
+  }
+
+  const checkOption = (field: keyof PlantFormData, options: Record<string, unknown>, required: boolean) => {
+    const value = formData[field];
+    if (value === undefined || value === '') {
+      if (required) errors.push({ path: `${path}.${field}`, message: 'Required.' });
+      return;
+    }
+    if (typeof value !== 'string' || !(value in options)) {
+      errors.push({ path: `${path}.${field}`, message: `Unknown value ${JSON.stringify(value)}.` });
+    }
+  };
+
+  checkOption('zoneType', ZONE_FACTORS, true);
+  const heads = formData.heads;
+  if (heads !== undefined && !Array.isArray(heads)) {
+    errors.push({ path: `${path}.heads`, message: 'Expected a list of head groups.' });
+  }
+  const hasHeads = Array.isArray(heads) && heads.length > 0;
+  if (hasHeads) {
+    heads.forEach((head: unknown, idx: number) => {
+      const headPath = `${path}.heads[${idx}]`;
+      if (!isObject(head)) {
+        errors.push({ path: headPath, message: 'Head group is not an object.' });
+        return;
+      }
+      if (!(typeof head.nozzleId === 'string' && head.nozzleId in nozzleIds)) {
+        errors.push({ path: `${headPath}.nozzleId`, message: `Unknown value ${JSON.stringify(head.nozzleId)}.` });
+      }
+      ['count', 'arc', 'radiusFt'].forEach(field => {
+        const value = head[field];
+        if (typeof value !== 'number' || !(value >= 0)) {
+          errors.push({ path: `${headPath}.${field}`, message: `Expected a number, got ${JSON.stringify(value)}.` });
+        }
+      });
+    });
+  }
+
+  const drip = formData.drip;
+  const hasDrip = isObject(drip) && isOneOf(drip.layout, DRIP_LAYOUTS) && Array.isArray(drip.plants);
+  if (drip !== undefined && !hasDrip) {
+    errors.push({ path: `${path}.drip`, message: 'Invalid drip design.' });
+  }
+
+  const species = formData.species;
+  if (species !== undefined) {
+    if (!Array.isArray(species)) {
+      errors.push({ path: `${path}.species`, message: 'Expected a list of species.' });
+    } else {
+      species.forEach((entry: unknown, idx: number) => {
+        if (!isObject(entry) || typeof entry.speciesId !== 'string' || !getSpecies(entry.speciesId)) {
+          errors.push({ path: `${path}.species[${idx}].speciesId`, message: `Unknown value ${JSON.stringify(isObject(entry) ? entry.speciesId : entry)}.` });
+        }
+      });
+    }
+  }
+
+  // A head inventory or drip design stands in for the single nozzle
+  checkOption('nozzleType', nozzleIds, !hasHeads && !hasDrip);
+  checkOption('soilType', SOIL_RATES, true);
+  checkOption('slope', SLOPE_FACTORS, true);
+  checkOption('sunlight', SUNLIGHT_FACTORS, false);
+
+  // Form inputs store pressure as typed text, so numeric strings are accepted too
+  const pressure = formData.pressure;
+  const isValidPressure = pressure === '' || pressure === undefined
+    || (typeof pressure === 'number' && isFinite(pressure)) || isNumericString(pressure);
+  if (!isValidPressure) {
+    errors.push({ path: `${path}.pressure`, message: `Expected a number, got ${JSON.stringify(formData.pressure)}.` });
+  }
+
+  NUMERIC_STRING_FIELDS.forEach(field => {
+    const value = formData[field];
+    if (value !== undefined && value !== '' && !isNumericString(value)) {
+      errors.push({ path: `${path}.${field}`, message: `Expected a numeric value, got ${JSON.stringify(value)}.` });
+    }
+  });
+
+  if (formData.waterSource !== undefined && !isOneOf(formData.waterSource, WATER_SOURCES)) {
+    errors.push({ path: `${path}.waterSource`, message: `Unknown value ${JSON.stringify(formData.waterSource)}.` });
+  }
+
+  const audit = formData.audit;
+  if (audit !== undefined) {
+    const isValidAudit = isObject(audit)
+      && ['measuredPrecipRate', 'duLq', 'schedulingMultiplier'].every(field => isPositive(audit[field]))
+      && Array.isArray(audit.cupVolumesMl);
+    if (!isValidAudit) errors.push({ path: `${path}.audit`, message: 'Invalid catch-can audit record.' });
+  }
+
+  if (formData.zoneHydraulics !== undefined) {
+    if (isObject(formData.zoneHydraulics)) validatePipeRun(formData.zoneHydraulics.lateral, `${path}.zoneHydraulics.lateral`, errors);
+    else errors.push({ path: `${path}.zoneHydraulics`, message: 'Invalid zone hydraulics.' });
+  }
+
+  if (formData.frequencyMode !== undefined && !isOneOf(formData.frequencyMode, FREQUENCY_MODES)) {
+    errors.push({ path: `${path}.frequencyMode`, message: `Unknown value ${JSON.stringify(formData.frequencyMode)}.` });
+  }
+};
+
+const validateStats = (stats: unknown, path: string, errors: ImportFieldError[]) => {
+  if (!isObject(stats)) {
+    errors.push({ path, message: 'Missing calculated stats.' });
+    return;
+  }
+  STATS_FIELDS.forEach(field => {
+    const value = stats[field];
+    if (typeof value !== 'number' || !isFinite(value)) {
+      errors.push({ path: `${path}.${field}`, message: `Expected a number, got ${JSON.stringify(value)}.` });
+    }
+  });
+};
+
+const validateZone = (zone: unknown, path: string, errors: ImportFieldError[], nozzleIds: Record<string, unknown>) => {
+  if (!isObject(zone)) {
+    errors.push({ path, message: 'Zone entry is not an object.' });
+    return;
+  }
+  if (typeof zone.name !== 'string' || !zone.name) {
+    errors.push({ path: `${path}.name`, message: 'Required.' });
+  }
+  validateFormData(zone.formData, `${path}.formData`, errors, nozzleIds);
+  validateStats(zone.stats, `${path}.stats`, errors);
+  if (zone.thumbnail !== undefined && (typeof zone.thumbnail !== 'string' || !zone.thumbnail.startsWith('data:image/'))) {
+    errors.push({ path: `${path}.thumbnail`, message: 'Expected an image data URL.' });
+  }
+};
+
+const validateNozzle = (nozzle: unknown, path: string, errors: ImportFieldError[]) => {
+  const isValid = isObject(nozzle)
+    && typeof nozzle.id === 'string' && nozzle.id !== ''
+    && typeof nozzle.label === 'string'
+    && isPositive(nozzle.optimalPsi)
+    && typeof nozzle.efficiency === 'number' && nozzle.efficiency > 0 && nozzle.efficiency <= 1
+    && Array.isArray(nozzle.performance) && nozzle.performance.length > 0
+    && nozzle.performance.every((p: unknown) => isObject(p) && isPositive(p.psi) && isPositive(p.precipRate));
+  if (!isValid) errors.push({ path, message: 'Invalid nozzle library entry.' });
+};
+
+/**
+ * Parses an exported project file, migrating older versions.
+ * Returns every field-level problem found rather than stopping at the first.
+ */
+export const parseProjectFile = (text: string): ProjectImportResult => {
+  const errors: ImportFieldError[] = [];
+
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch {
+    return { project: null, nozzles: [], errors: [{ path: '$', message: 'File is not valid JSON.' }] };
+  }
+
+  const file = migrate(raw, errors);
+  if (!file) return { project: null, nozzles: [], errors };
+
+  const data = file.project;
+  if (!isObject(data)) {
+    return { project: null, nozzles: [], errors: [{ path: 'project', message: 'Missing project data.' }] };
+  }
+  if (!Array.isArray(data.zones)) {
+    return { project: null, nozzles: [], errors: [{ path: 'project.zones', message: 'Expected a list of zones.' }] };
+  }
+
+  const nozzles: unknown[] = Array.isArray(data.nozzles) ? data.nozzles : [];
+  nozzles.forEach((nozzle, idx) => validateNozzle(nozzle, `project.nozzles[${idx}]`, errors));
+  const nozzleIds: Record<string, unknown> = {};
+  [...getNozzleLibrary(), ...nozzles].forEach(n => { if (isObject(n) && typeof n.id === 'string') nozzleIds[n.id] = n; });
+
+  data.zones.forEach((zone: unknown, idx: number) => validateZone(zone, `project.zones[${idx}]`, errors, nozzleIds));
+  if (!isObject(data.location) || typeof data.location.zipCode !== 'string') {
+    errors.push({ path: 'project.location.zipCode', message: 'Required.' });
+  }
+  const restrictions = isObject(data.location) ? data.location.restrictions : undefined;
+  if (restrictions !== undefined && (!isObject(restrictions) || !isOneOf(restrictions.dayRule, DAY_RULES))) {
+    errors.push({ path: 'project.location.restrictions.dayRule', message: `Unknown value ${JSON.stringify(isObject(restrictions) ? restrictions.dayRule : restrictions)}.` });
+  }
+  const supply = isObject(data.location) ? data.location.supply : undefined;
+  if (supply !== undefined) {
+    if (isObject(supply)) validatePipeRun(supply.mainline, 'project.location.supply.mainline', errors);
+    else errors.push({ path: 'project.location.supply', message: 'Invalid supply hydraulics.' });
+  }
+  const rateSchedule = isObject(data.location) ? data.location.rateSchedule : undefined;
+  if (rateSchedule !== undefined) {
+    if (!isObject(rateSchedule) || !isOneOf(rateSchedule.unit, RATE_UNITS)) {
+      errors.push({ path: 'project.location.rateSchedule.unit', message: `Unknown value ${JSON.stringify(isObject(rateSchedule) ? rateSchedule.unit : rateSchedule)}.` });
+    } else {
+      (['summerTiers', 'winterTiers'] as const).forEach(key => {
+        const tiers = rateSchedule[key];
+        if (!Array.isArray(tiers) || tiers.length === 0) {
+          errors.push({ path: `project.location.rateSchedule.${key}`, message: 'Expected at least one tier.' });
+        }
+      });
+    }
+  }
+
+  if (errors.length > 0) return { project: null, nozzles: [], errors };
+
+  const project = createProject(typeof data.name === 'string' && data.name ? data.name : 'Imported Project', data.location as ProjectLocation);
+  const now = Date.now();
+  return {
+    errors: [],
+    nozzles: nozzles as NozzleProduct[],
+    project: {
+      ...project,
+      zones: (data.zones as SavedZone[]).map(migrateZone).map((z, idx) => ({
+        ...z,
+        id: typeof z.id === 'string' && z.id ? z.id : `${now}-${idx}`,
+        timestamp: typeof z.timestamp === 'number' ? z.timestamp : now,
+        formData: {
+          ...z.formData,
+          pressure: z.formData.pressure === '' || z.formData.pressure === undefined ? '' : Number(z.formData.pressure),
+          image: null
+        }
+      }))
+    }
+  };
+};
@@ -0,0 +1,91 @@
+import { Project, ProjectLocation, PlantFormData, SavedZone } from "../types";
+
+const PROJECTS_KEY = 'irrigation-calculator:projects';
+const ACTIVE_PROJECT_KEY = 'irrigation-calculator:active-project';
+
+export const DEFAULT_PROJECT_NAME = 'Untitled Project';
+
+// Picks the project-level fields out of the form
+export const getProjectLocation = (formData: PlantFormData): ProjectLocation => ({
+  location: formData.location,
+  zipCode: formData.zipCode,
+  month: formData.month,
+  estWeeklyEt: formData.estWeeklyEt,
+  estWeeklyRain: formData.estWeeklyRain,
+  climateSource: formData.climateSource,
+  waterSource: formData.waterSource,
+  waterPrice: formData.waterPrice,
+  rateSchedule: formData.rateSchedule,
+  restrictions: formData.restrictions,
+  supply: formData.supply
+});
+
+export const createProject = (name: string, location: ProjectLocation): Project => {
+  const now = Date.now();
+  return {
+    id: `${now}-${Math.random().toString(36).slice(2, 8)}`,
+    name,
+    zones: [],
+    location,
+    lastResult: null,
+    createdAt: now,
+    updatedAt: now
+  };
+};
+
+export const duplicateProject = (project: Project): Project => {
+  const copy = createProject(`${project.name} (Copy)`, { ...project.location });
+  return {
+    ...copy,
+    zones: project.zones.map(z => ({ ...z, formData: { ...z.formData } })),
+    lastResult: project.lastResult
+  };
+};
+
+// File objects cannot be serialized, so photos are dropped before saving
+const toStorableZone = (zone: SavedZone): SavedZone => ({
+  ...zone,
+  formData: { ...zone.formData, image: null }
+});
+
+// Zones saved before the soil water budget have no frequencyMode and were calculated the legacy way
+export const migrateZone = (zone: SavedZone): SavedZone =>
+  zone.formData.frequencyMode ? zone : { ...zone, formData: { ...zone.formData, frequencyMode: 'legacy' } };
+
+export const loadProjects = (): Project[] => {
+  try {
+    const raw = localStorage.getItem(PROJECTS_KEY);
+    if (!raw) return [];
+    const parsed = JSON.parse(raw);
+    return Array.isArray(parsed) ? parsed.map((p: Project) => ({ ...p, zones: (p.zones || []).map(migrateZone) })) : [];
+  } catch (error) {
+    console.error("Project Load Error:", error);
+    return [];
+  }
+};
+
+export const saveProjects = (projects: Project[]) => {
+  try {
+    const storable = projects.map(p => ({ ...p, zones: p.zones.map(toStorableZone) }));
+    localStorage.setItem(PROJECTS_KEY, JSON.stringify(storable));
+  } catch (error) {
+    // Quota exceeded or storage disabled (private browsing)
+    console.error("Project Save Error:", error);
+  }
+};
+
+export const loadActiveProjectId = (): string | null => {
+  try {
+    return localStorage.getItem(ACTIVE_PROJECT_KEY);
+  } catch {
+    return null;
+  }
+};
+
+export const saveActiveProjectId = (id: string) => {
+  try {
+    localStorage.setItem(ACTIVE_PROJECT_KEY, id);
+  } catch (error) {
+    console.error("Project Save Error:", error);
+  }
+};
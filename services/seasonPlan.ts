@@ -0,0 +1,156 @@
+import { PlantFormData, ProjectLocation, SavedZone, WaterRateSchedule } from "../types";
+import { MONTHS, getClimateStation, getStationWeeklyNormals } from "./climateProvider";
+import { CLIMATE_STATIONS } from "./climateData";
+import { calculateZone, hasRequiredZoneInputs, DEFAULT_WEEKLY_ET, SUNLIGHT_FACTORS, getPlantFactor } from "./zoneCalculator";
+import { calculateZoneGallons, calculateMonthlyCost, WEEKS_PER_MONTH } from "./waterUse";
+import { allocateMonthlyCosts, getRateSchedule } from "./waterRates";
+
+// Below this net weekly need (inches) a month is outside the irrigation season
+export const SEASON_MIN_NET_INCHES = 0.15;
+
+// Seasonal shape used when no bundled station covers the zip code
+const REFERENCE_STATION = CLIMATE_STATIONS.SLC;
+
+export interface MonthlyClimate {
+  month: string;
+  estWeeklyEt: number;
+  estWeeklyRain: number;
+}
+
+export interface MonthlyZonePlan extends MonthlyClimate {
+  netWeeklyInches: number;
+  isActive: boolean;
+  weeklyMinutes: number;
+  frequency: number;
+  cyclesPerDay: number;
+  minutesPerCycle: number;
+  weeklyGallons: number;
+  monthlyCost: number;
+}
+
+export interface ZoneSeason {
+  zoneName: string;
+  climateLabel: string;
+  months: MonthlyZonePlan[];
+  startMonth: string | null;
+  stopMonth: string | null;
+  seasonCost: number;
+}
+
+export interface SeasonTotals {
+  month: string;
+  weeklyGallons: number;
+  monthlyCost: number;
+  activeZones: number;
+}
+
+/**
+ * Weekly ET / rain for all 12 months. Uses the bundled station normals when the zip
+ * is covered; otherwise the reference station's seasonal curve is scaled so the
+ * form's own month matches the ET / rain entered on the form.
+ */
+export const getSeasonClimate = (formData: PlantFormData): { label: string; months: MonthlyClimate[] } => {
+  const station = getClimateStation(formData.zipCode || '');
+  if (station) {
+    return {
+      label: `Normals: ${station.name}`,
+      months: getStationWeeklyNormals(station).map((n, idx) => ({ month: MONTHS[idx], ...n }))
+    };
+  }
+
+  const reference = getStationWeeklyNormals(REFERENCE_STATION);
+  const monthIdx = Math.max(0, MONTHS.indexOf(formData.month));
+  const userEt = parseFloat(formData.estWeeklyEt || '0') || DEFAULT_WEEKLY_ET;
+  const userRain = parseFloat(formData.estWeeklyRain || '0') || 0;
+  const etScale = reference[monthIdx].estWeeklyEt > 0 ? userEt / reference[monthIdx].estWeeklyEt : 1;
+  const rainScale = reference[monthIdx].estWeeklyRain > 0 ? userRain / reference[monthIdx].estWeeklyRain : 0;
+
+  return {
+    label: `Scaled from ${formData.month || MONTHS[monthIdx]} (${REFERENCE_STATION.name} curve)`,
+    months: reference.map((n, idx) => ({
+      month: MONTHS[idx],
+      estWeeklyEt: parseFloat((n.estWeeklyEt * etScale).toFixed(2)),
+      estWeeklyRain: parseFloat((n.estWeeklyRain * rainScale).toFixed(2))
+    }))
+  };
+};
+
+// Runs the zone calculation once per month with that month's ET / rain.
+// Callers check hasRequiredZoneInputs() first, as calculateZone requires.
+export const buildZoneSeason = (zoneName: string, formData: PlantFormData, schedule: WaterRateSchedule): ZoneSeason => {
+  const climate = getSeasonClimate(formData);
+  const plantFactor = getPlantFactor(formData);
+  const sunFactor = SUNLIGHT_FACTORS[formData.sunlight] || 1.0;
+
+  const months = climate.months.map(c => {
+    const netWeeklyInches = parseFloat(Math.max(0, c.estWeeklyEt * plantFactor * sunFactor - c.estWeeklyRain).toFixed(2));
+    const isActive = netWeeklyInches >= SEASON_MIN_NET_INCHES;
+    const monthData: PlantFormData = {
+      ...formData,
+      month: c.month,
+      estWeeklyEt: String(c.estWeeklyEt),
+      estWeeklyRain: String(c.estWeeklyRain)
+    };
+    const stats = calculateZone(monthData);
+    const weeklyGallons = isActive ? calculateZoneGallons({ formData: monthData, stats }) : 0;
+
+    return {
+      ...c,
+      netWeeklyInches,
+      isActive,
+      weeklyMinutes: isActive ? stats.weeklyTotalMinutes : 0,
+      frequency: isActive ? stats.suggestedFrequency : 0,
+      cyclesPerDay: isActive ? stats.cyclesPerDay : 0,
+      minutesPerCycle: isActive ? stats.minutesPerCycle : 0,
+      weeklyGallons,
+      monthlyCost: calculateMonthlyCost(formData, weeklyGallons, c.month, schedule)
+    };
+  });
+
+  const active = months.filter(m => m.isActive);
+  return {
+    zoneName,
+    climateLabel: climate.label,
+    months,
+    startMonth: active.length ? active[0].month : null,
+    stopMonth: active.length ? active[active.length - 1].month : null,
+    seasonCost: months.reduce((sum, m) => sum + m.monthlyCost, 0)
+  };
+};
+
+// Zones that can no longer be calculated (e.g. their nozzle was deleted) are left out
+export const buildSeasonReport = (allZones: SavedZone[], location: ProjectLocation) => {
+  const schedule = getRateSchedule(location);
+  const zones = allZones.filter(z => hasRequiredZoneInputs(z.formData));
+  const skippedZones = allZones.filter(z => !hasRequiredZoneInputs(z.formData)).map(z => z.name);
+  const standalone = zones.map(z => buildZoneSeason(z.name, z.formData, schedule));
+
+  // Re-price each month across all zones so tiers see the property's combined use
+  const seasons = standalone.map(s => ({ ...s, months: s.months.map(m => ({ ...m })) }));
+  MONTHS.forEach((month, idx) => {
+    const costs = allocateMonthlyCosts(
+      zones.map((z, zoneIdx) => ({ formData: z.formData, monthlyGallons: seasons[zoneIdx].months[idx].weeklyGallons * WEEKS_PER_MONTH })),
+      month,
+      schedule
+    );
+    costs.forEach((cost, zoneIdx) => { seasons[zoneIdx].months[idx].monthlyCost = cost; });
+  });
+  seasons.forEach(s => { s.seasonCost = s.months.reduce((sum, m) => sum + m.monthlyCost, 0); });
+
+  const totals: SeasonTotals[] = MONTHS.map((month, idx) => ({
+    month,
+    weeklyGallons: seasons.reduce((sum, s) => sum + s.months[idx].weeklyGallons, 0),
+    monthlyCost: seasons.reduce((sum, s) => sum + s.months[idx].monthlyCost, 0),
+    activeZones: seasons.filter(s => s.months[idx].isActive).length
+  }));
+
+  const activeTotals = totals.filter(t => t.activeZones > 0);
+  return {
+    seasons,
+    skippedZones,
+    totals,
+    startMonth: activeTotals.length ? activeTotals[0].month : null,
+    stopMonth: activeTotals.length ? activeTotals[activeTotals.length - 1].month : null,
+    seasonCost: totals.reduce((sum, t) => sum + t.monthlyCost, 0)
+  };
+};
@@ -0,0 +1,100 @@
+import { describe, it, expect } from 'vitest';
+import { PlantFormData, SavedZone } from '../types';
+import { CONVERSION_EFFICIENCY, CONVERSION_PLANT_FACTOR, buildWaterBudget, getAnnualEto } from './waterBudget';
+
+// Only the fields the budget reads; stats.efficiency stands in for the zone's calculated efficiency
+const makeZone = (name: string, zoneType: string, areaSqFt: string, efficiency: number): SavedZone => ({
+  id: name,
+  name,
+  timestamp: 0,
+  formData: { customZoneName: name, zoneType, zoneAreaSqFt: areaSqFt, zipCode: '84401' } as PlantFormData,
+  stats: { efficiency } as SavedZone['stats']
+});
+
+// 50 in/yr of ETo x 0.62 = 31 gallons per sq ft per unit of factor
+const OPTIONS = { landscapeType: 'Residential', annualEtoInches: 50 };
+
+describe('getAnnualEto', () => {
+  it('sums the station monthly normals for the zip code', () => {
+    expect(getAnnualEto({ zipCode: '84401' } as PlantFormData)).toEqual({ inches: 45, label: 'Ogden, UT' });
+  });
+});
+
+describe('buildWaterBudget', () => {
+  it('works out MAWA and ETWU for a zone', () => {
+    const budget = buildWaterBudget([makeZone('Lawn', 'Cool Season Turf Grass', '1000', 0.7)], OPTIONS);
+    const [lawn] = budget.zones;
+
+    expect(budget.etaf).toBe(0.55);
+    expect(lawn.mawaGallons).toBe(17050);  // 31 x 0.55 x 1000
+    expect(lawn.etwuGallons).toBe(42071);  // 31 x 0.95 / 0.70 x 1000
+    expect(lawn.isOverBudget).toBe(true);
+    expect(lawn.conversionSavingsGallons).toBe(34417); // 42071 - 31 x 0.2 / 0.81 x 1000
+    expect(budget.mawaGallons).toBe(17050);
+    expect(budget.etwuGallons).toBe(42071);
+    expect(budget.passes).toBe(false);
+  });
+
+  it('credits effective rain against ETo', () => {
+    const budget = buildWaterBudget([makeZone('Beds', 'Perennials', '1000', 0.9)], { ...OPTIONS, effectivePrecipInches: 10 });
+    // (50 - 10) x 0.62 = 24.8
+    expect(budget.mawaGallons).toBe(13640); // 24.8 x 0.55 x 1000
+    expect(budget.etwuGallons).toBe(13778); // 24.8 x 0.5 / 0.9 x 1000
+  });
+
+  it('uses the lower non-residential allowance', () => {
+    const budget = buildWaterBudget([makeZone('Beds', 'Perennials', '1000', 0.9)], { ...OPTIONS, landscapeType: 'Non-residential' });
+    expect(budget.mawaGallons).toBe(13950); // 31 x 0.45 x 1000
+  });
+
+  it('passes a low water landscape without suggestions', () => {
+    // 31 x 0.5 / 0.95 = 16.3 gallons per sq ft against 31 x 0.55 = 17.05
+    const budget = buildWaterBudget([makeZone('Shrubs', 'All Plants', '1000', 0.95)], OPTIONS);
+    expect(budget.passes).toBe(true);
+    expect(budget.suggestions).toEqual([]);
+    expect(budget.shortfallAfterSuggestions).toBe(0);
+  });
+
+  it('skips zones without an area and assumes 75% efficiency when none is set', () => {
+    const budget = buildWaterBudget([
+      makeZone('Lawn', 'Cool Season Turf Grass', '', 0.7),
+      makeZone('Trees', 'Trees', '1000', 0)
+    ], OPTIONS);
+
+    expect(budget.skippedZones).toEqual(['Lawn']);
+    expect(budget.totalAreaSqFt).toBe(1000);
+    expect(budget.zones[0].efficiency).toBe(0.75);
+    expect(budget.etwuGallons).toBe(24800); // 31 x 0.6 / 0.75 x 1000
+  });
+
+  it('labels the ETo source', () => {
+    const zones = [makeZone('Lawn', 'Cool Season Turf Grass', '1000', 0.7)];
+    expect(buildWaterBudget(zones, OPTIONS).etoLabel).toBe('Entered');
+    expect(buildWaterBudget(zones, { landscapeType: 'Residential' })).toMatchObject({ annualEtoInches: 45, etoLabel: 'Ogden, UT' });
+  });
+
+  it('suggests the fewest conversions that bring ETWU under MAWA', () => {
+    const zones = [
+      makeZone('Beds', 'Perennials', '1000', 0.9),
+      makeZone('Front Lawn', 'Cool Season Turf Grass', '1000', 0.7),
+      makeZone('Trees', 'Trees', '1000', 0.9),
+      makeZone('Back Lawn', 'Cool Season Turf Grass', '1000', 0.7)
+    ];
+    const budget = buildWaterBudget(zones, OPTIONS);
+    // MAWA 31 x 0.55 x 4000 = 68200; ETWU 17222 + 42071 + 20667 + 42071 = 122031
+    expect(budget.mawaGallons).toBe(68200);
+    expect(budget.etwuGallons).toBe(122031);
+
+    // Each lawn saves 34417: one leaves 19414 over, two close the gap
+    expect(budget.suggestions.map(s => s.name)).toEqual(['Front Lawn', 'Back Lawn']);
+    expect(budget.shortfallAfterSuggestions).toBe(0);
+
+    // Recompute ETWU with the suggested zones converted to low water plants on drip
+    const converted = budget.zones.map(z => budget.suggestions.includes(z)
+      ? Math.round(50 * 0.62 * (CONVERSION_PLANT_FACTOR / CONVERSION_EFFICIENCY) * z.areaSqFt)
+      : z.etwuGallons);
+    const convertedEtwu = converted.reduce((sum, g) => sum + g, 0);
+    expect(convertedEtwu).toBe(budget.etwuGallons - budget.suggestions.reduce((sum, s) => sum + s.conversionSavingsGallons, 0));
+    expect(convertedEtwu).toBeLessThanOrEqual(budget.mawaGallons);
+  });
+});
@@ -0,0 +1,132 @@
+import { PlantFormData, SavedZone } from "../types";
+import { getClimateStation } from "./climateProvider";
+import { getPlantFactor } from "./zoneCalculator";
+import { getSeasonClimate } from "./seasonPlan";
+
+/**
+ * Landscape water budget in the MWELO form most ordinances copy:
+ *   MAWA = (ETo - Eppt) * 0.62 * ETAF * LA
+ *   ETWU = (ETo - Eppt) * 0.62 * sum(PF * HA / IE)
+ * ETo and Eppt are annual inches, areas in sq ft, results in gallons per year.
+ */
+
+// ET adjustment factor by landscape type
+export const ETAF_BY_LANDSCAPE: Record<string, number> = {
+  "Residential": 0.55,
+  "Non-residential": 0.45
+};
+
+// What a suggested conversion assumes: low water use plants on drip
+export const CONVERSION_PLANT_FACTOR = 0.2;
+export const CONVERSION_EFFICIENCY = 0.81;
+
+// Gallons per sq ft per inch, as written in the ordinance
+const MWELO_CONVERSION = 0.62;
+
+export interface WaterBudgetOptions {
+  landscapeType: string;
+  annualEtoInches?: number;       // Overrides the climate lookup
+  effectivePrecipInches?: number; // Eppt, if the ordinance credits rain
+}
+
+export interface WaterBudgetZone {
+  name: string;
+  areaSqFt: number;
+  plantFactor: number;
+  efficiency: number;
+  mawaGallons: number;  // This zone's share of the allowance
+  etwuGallons: number;
+  isOverBudget: boolean;
+  conversionSavingsGallons: number;
+}
+
+export interface WaterBudget {
+  annualEtoInches: number;
+  etoLabel: string;
+  effectivePrecipInches: number;
+  etaf: number;
+  zones: WaterBudgetZone[];
+  skippedZones: string[]; // No area entered
+  totalAreaSqFt: number;
+  mawaGallons: number;
+  etwuGallons: number;
+  passes: boolean;
+  suggestions: WaterBudgetZone[]; // Fewest conversions that bring ETWU under MAWA
+  shortfallAfterSuggestions: number;
+}
+
+// Annual reference ET (inches) for the zip code
+export const getAnnualEto = (formData: PlantFormData): { inches: number; label: string } => {
+  const station = getClimateStation(formData.zipCode || '');
+  if (station) {
+    return { inches: parseFloat(station.monthlyEto.reduce((sum, v) => sum + v, 0).toFixed(1)), label: station.name };
+  }
+  // 52 weeks spread over 12 months
+  const climate = getSeasonClimate(formData);
+  const inches = climate.months.reduce((sum, m) => sum + m.estWeeklyEt * 52 / 12, 0);
+  return { inches: parseFloat(inches.toFixed(1)), label: climate.label };
+};
+
+export const buildWaterBudget = (zones: SavedZone[], options: WaterBudgetOptions): WaterBudget => {
+  const eto = zones.length > 0 ? getAnnualEto(zones[0].formData) : { inches: 0, label: '' };
+  const annualEtoInches = options.annualEtoInches > 0 ? options.annualEtoInches : eto.inches;
+  const effectivePrecipInches = Math.max(0, options.effectivePrecipInches || 0);
+  const netEto = Math.max(0, annualEtoInches - effectivePrecipInches);
+  const etaf = ETAF_BY_LANDSCAPE[options.landscapeType] || ETAF_BY_LANDSCAPE["Residential"];
+  const gallonsFor = (factor: number, areaSqFt: number) => Math.round(netEto * MWELO_CONVERSION * factor * areaSqFt);
+
+  const skippedZones: string[] = [];
+  const rows: WaterBudgetZone[] = [];
+  zones.forEach(z => {
+    const areaSqFt = parseFloat(z.formData.zoneAreaSqFt || '0');
+    if (!(areaSqFt > 0)) {
+      skippedZones.push(z.name);
+      return;
+    }
+    const plantFactor = getPlantFactor(z.formData);
+    const efficiency = z.stats.efficiency || 0.75;
+    const etwuGallons = gallonsFor(plantFactor / efficiency, areaSqFt);
+    const mawaGallons = gallonsFor(etaf, areaSqFt);
+    rows.push({
+      name: z.name,
+      areaSqFt,
+      plantFactor,
+      efficiency,
+      mawaGallons,
+      etwuGallons,
+      isOverBudget: etwuGallons > mawaGallons,
+      conversionSavingsGallons: Math.max(0, etwuGallons - gallonsFor(CONVERSION_PLANT_FACTOR / CONVERSION_EFFICIENCY, areaSqFt))
+    });
+  });
+
+  const totalAreaSqFt = rows.reduce((sum, r) => sum + r.areaSqFt, 0);
+  const mawaGallons = gallonsFor(etaf, totalAreaSqFt);
+  const etwuGallons = rows.reduce((sum, r) => sum + r.etwuGallons, 0);
+
+  // Convert the biggest savers first until the landscape fits the allowance
+  const suggestions: WaterBudgetZone[] = [];
+  let overage = etwuGallons - mawaGallons;
+  [...rows]
+    .filter(r => r.conversionSavingsGallons > 0)
+    .sort((a, b) => b.conversionSavingsGallons - a.conversionSavingsGallons)
+    .forEach(r => {
+      if (overage <= 0) return;
+      suggestions.push(r);
+      overage -= r.conversionSavingsGallons;
+    });
+
+  return {
+    annualEtoInches,
+    etoLabel: options.annualEtoInches > 0 ? 'Entered' : eto.label,
+    effectivePrecipInches,
+    etaf,
+    zones: rows,
+    skippedZones,
+    totalAreaSqFt,
+    mawaGallons,
+    etwuGallons,
+    passes: etwuGallons <= mawaGallons,
+    suggestions,
+    shortfallAfterSuggestions: Math.max(0, Math.round(overage))
+  };
+};
@@ -0,0 +1,110 @@
+import { PlantFormData, RateTier, WaterRateSchedule } from "../types";
+
+export const GALLONS_PER_UNIT: Record<WaterRateSchedule['unit'], number> = {
+  kgal: 1000,
+  ccf: 748 // 100 cubic feet
+};
+
+export const DEFAULT_PRICE_PER_KGAL = 3.00;
+export const DEFAULT_SUMMER_MONTHS = ["May", "June", "July", "August", "September"];
+export const DEFAULT_SECONDARY_MONTHS = ["April", "May", "June", "July", "August", "September", "October"];
+
+export interface ZoneUsage {
+  formData: PlantFormData;
+  monthlyGallons: number;
+}
+
+// Single-tier culinary rate at the form's flat price; matches the old per-1,000 gallon estimate
+export const createFlatRateSchedule = (pricePerKgal: number): WaterRateSchedule => ({
+  unit: 'kgal',
+  fixedMonthly: '',
+  summerMonths: DEFAULT_SUMMER_MONTHS,
+  summerTiers: [{ upToUnits: '', price: String(pricePerKgal) }],
+  winterTiers: [{ upToUnits: '', price: String(pricePerKgal) }],
+  sewerPerUnit: '',
+  sewerOnIrrigation: false,
+  indoorBaselineUnits: '',
+  secondaryAnnualFee: '',
+  secondaryMonths: DEFAULT_SECONDARY_MONTHS
+});
+
+// Takes the form or a project's saved location; both carry the price fields
+export const getRateSchedule = (formData: Pick<PlantFormData, 'rateSchedule' | 'waterPrice'>): WaterRateSchedule =>
+  formData.rateSchedule || createFlatRateSchedule(parseFloat(formData.waterPrice || '') || DEFAULT_PRICE_PER_KGAL);
+
+const num = (value?: string) => {
+  const parsed = parseFloat(value || '');
+  return isNaN(parsed) ? 0 : parsed;
+};
+
+const getTiers = (schedule: WaterRateSchedule, month: string) =>
+  schedule.summerMonths.includes(month) ? schedule.summerTiers : schedule.winterTiers;
+
+// Usage charge for a month's consumption, walking up the tiers
+export const calculateTieredCharge = (tiers: RateTier[], units: number): number => {
+  let charge = 0;
+  let floor = 0;
+  for (const tier of tiers) {
+    const ceiling = tier.upToUnits ? num(tier.upToUnits) : Infinity;
+    const inTier = Math.max(0, Math.min(units, ceiling) - floor);
+    charge += inTier * num(tier.price);
+    if (units <= ceiling) break;
+    floor = ceiling;
+  }
+  return charge;
+};
+
+// Full culinary bill for the month, indoor baseline included
+export const calculateMonthlyBill = (schedule: WaterRateSchedule, month: string, irrigationGallons: number): number => {
+  const irrigationUnits = irrigationGallons / GALLONS_PER_UNIT[schedule.unit];
+  const units = num(schedule.indoorBaselineUnits) + irrigationUnits;
+  const sewer = schedule.sewerOnIrrigation ? units * num(schedule.sewerPerUnit) : num(schedule.indoorBaselineUnits) * num(schedule.sewerPerUnit);
+  return num(schedule.fixedMonthly) + calculateTieredCharge(getTiers(schedule, month), units) + sewer;
+};
+
+/**
+ * What irrigation adds to the culinary bill: the bill with irrigation minus the bill
+ * without it. Indoor use fills the cheap tiers first, so irrigation pays the upper
+ * tiers; fixed fees are paid either way and drop out.
+ */
+export const calculateIrrigationCost = (schedule: WaterRateSchedule, month: string, irrigationGallons: number): number =>
+  irrigationGallons > 0 ? calculateMonthlyBill(schedule, month, irrigationGallons) - calculateMonthlyBill(schedule, month, 0) : 0;
+
+// Flat secondary fee billed in a delivery month
+export const getSecondaryMonthlyFee = (schedule: WaterRateSchedule, month: string): number =>
+  schedule.secondaryMonths.includes(month) && schedule.secondaryMonths.length > 0
+    ? num(schedule.secondaryAnnualFee) / schedule.secondaryMonths.length
+    : 0;
+
+/**
+ * Splits one month's irrigation cost across zones in proportion to their gallons.
+ * Culinary zones share the marginal bill, so tiers reflect the whole property rather
+ * than each zone on its own. Secondary zones share the flat fee for the month.
+ * The schedule is the project's current one, not the copy saved with any zone.
+ */
+export const allocateMonthlyCosts = (zones: ZoneUsage[], month: string, schedule: WaterRateSchedule): number[] => {
+  if (zones.length === 0) return [];
+  const isSecondary = (z: ZoneUsage) => z.formData.waterSource === 'Secondary';
+
+  const culinaryGallons = zones.filter(z => !isSecondary(z)).reduce((sum, z) => sum + z.monthlyGallons, 0);
+  const secondaryZones = zones.filter(isSecondary);
+  const secondaryGallons = secondaryZones.reduce((sum, z) => sum + z.monthlyGallons, 0);
+  const culinaryCost = calculateIrrigationCost(schedule, month, culinaryGallons);
+  const secondaryFee = getSecondaryMonthlyFee(schedule, month);
+
+  return zones.map(z => {
+    if (isSecondary(z)) {
+      return secondaryGallons > 0 ? secondaryFee * z.monthlyGallons / secondaryGallons : secondaryFee / secondaryZones.length;
+    }
+    return culinaryGallons > 0 ? culinaryCost * z.monthlyGallons / culinaryGallons : 0;
+  });
+};
+
+// Short description for prompts and zone summaries
+export const describeRateSchedule = (schedule: WaterRateSchedule, month: string): string => {
+  const unitLabel = schedule.unit === 'ccf' ? 'CCF' : '1,000 gal';
+  const tiers = getTiers(schedule, month)
+    .map(t => `$${num(t.price).toFixed(2)}${t.upToUnits ? ` up to ${t.upToUnits}` : ''}`)
+    .join(', ');
+  return `${tiers} per ${unitLabel}`;
+};
@@ -0,0 +1,91 @@
+import { PlantFormData, SavedZone, LiveCalculation, WateringSchedule } from "../types";
+import { allocateMonthlyCosts, getRateSchedule } from "./waterRates";
+
+/**
+ * Water use and cost for a zone, computed once and shared by the plan view, the
+ * master report and the season plan. The advisor is given these numbers rather
+ * than asked to work them out.
+ */
+
+// Gallons in one inch of water over one square foot
+export const GALLONS_PER_SQFT_INCH = 0.623;
+
+// Average weeks per month used for monthly billing estimates
+export const WEEKS_PER_MONTH = 4.3;
+
+// Relative gap beyond which an advisor-returned figure is flagged
+export const WATER_USE_TOLERANCE = 0.1;
+
+export interface ZoneWaterUse {
+  weeklyInches: number; // Applied at the heads, losses included
+  weeklyGallons: number;
+  monthlyGallons: number;
+  monthlyCost: number;
+  isSecondary: boolean;
+}
+
+export interface WaterUseDiscrepancy {
+  field: 'estimatedGallonsPerWeek' | 'estimatedCostPerMonth';
+  label: string;
+  advisorValue: number;
+  computedValue: number;
+}
+
+/**
+ * Gallons the controller applies in a week. Run minutes are already sized as
+ * net need / (PR x efficiency), so minutes x PR is the gross depth and the
+ * efficiency loss is counted once here.
+ */
+export const calculateZoneGallons = (z: Pick<SavedZone, 'formData' | 'stats'>) => {
+  // Drip design zones are sized in gallons directly
+  if (z.stats.drip) return z.stats.drip.gallonsPerWeek;
+  if (!z.formData.zoneAreaSqFt) return 0;
+  const area = parseFloat(z.formData.zoneAreaSqFt);
+  const inches = (z.stats.weeklyTotalMinutes / 60) * z.stats.precipRate;
+  return Math.round(inches * area * GALLONS_PER_SQFT_INCH);
+};
+
+// Monthly irrigation cost of one zone on its own; the schedule defaults to the one on the form
+export const calculateMonthlyCost = (formData: PlantFormData, weeklyGallons: number, month = formData.month, schedule = getRateSchedule(formData)) =>
+  allocateMonthlyCosts([{ formData, monthlyGallons: weeklyGallons * WEEKS_PER_MONTH }], month, schedule)[0];
+
+export const calculateZoneWaterUse = (formData: PlantFormData, stats: LiveCalculation, month = formData.month): ZoneWaterUse => {
+  const weeklyGallons = calculateZoneGallons({ formData, stats });
+  const area = parseFloat(formData.zoneAreaSqFt || '');
+  return {
+    weeklyInches: area > 0 ? parseFloat((weeklyGallons / (area * GALLONS_PER_SQFT_INCH)).toFixed(2)) : 0,
+    weeklyGallons,
+    monthlyGallons: Math.round(weeklyGallons * WEEKS_PER_MONTH),
+    monthlyCost: calculateMonthlyCost(formData, weeklyGallons, month),
+    isSecondary: formData.waterSource === 'Secondary'
+  };
+};
+
+export const formatMonthlyCost = (usage: ZoneWaterUse) =>
+  usage.isSecondary && usage.monthlyCost === 0 ? 'N/A (Secondary)' : `$${usage.monthlyCost.toFixed(2)}`;
+
+const isDivergent = (advisorValue: number, computedValue: number, minGap: number) =>
+  Math.abs(advisorValue - computedValue) > Math.max(minGap, computedValue * WATER_USE_TOLERANCE);
+
+/**
+ * Compares the gallons and cost an advisor response carries against the computed
+ * figures. Missing or non-numeric values (e.g. 'N/A') are not flagged.
+ */
+export const checkWaterUseConsistency = (
+  plan: Pick<WateringSchedule, 'estimatedGallonsPerWeek' | 'estimatedCostPerMonth'>,
+  usage: ZoneWaterUse
+): WaterUseDiscrepancy[] => {
+  const discrepancies: WaterUseDiscrepancy[] = [];
+
+  const gallons = Number(plan.estimatedGallonsPerWeek);
+  if (plan.estimatedGallonsPerWeek && !isNaN(gallons) && isDivergent(gallons, usage.weeklyGallons, 1)) {
+    discrepancies.push({ field: 'estimatedGallonsPerWeek', label: 'Weekly gallons', advisorValue: gallons, computedValue: usage.weeklyGallons });
+  }
+
+  const cost = parseFloat((plan.estimatedCostPerMonth || '').replace(/[^0-9.]/g, ''));
+  if (!isNaN(cost) && isDivergent(cost, usage.monthlyCost, 0.5)) {
+    discrepancies.push({ field: 'estimatedCostPerMonth', label: 'Monthly cost', advisorValue: cost, computedValue: parseFloat(usage.monthlyCost.toFixed(2)) });
+  }
+
+  return discrepancies;
+};
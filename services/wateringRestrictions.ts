@@ -0,0 +1,113 @@
+import { WateringRestrictions, Weekday } from "../types";
+import { formatClock, toMinutes } from "./controllerProgram";
+
+export const NO_RESTRICTIONS: WateringRestrictions = { dayRule: 'none' };
+
+// Most cycles the live calculation will split a watering day into
+export const MAX_CYCLES_PER_DAY = 10;
+
+/**
+ * Fixed weekdays the rules allow, or null when any weekday may be used.
+ * Odd/even rules follow calendar dates, so they do not map to fixed weekdays.
+ */
+export const getAllowedWeekdays = (restrictions?: WateringRestrictions): Weekday[] | null => {
+  if (restrictions?.dayRule === 'assigned' && restrictions.assignedDays) {
+    return restrictions.assignedDays;
+  }
+  return null;
+};
+
+// Weekday schedules can't follow date-based rules, so they are flagged instead of silently ignoring them
+export const getUnmetRestrictionWarning = (restrictions?: WateringRestrictions): string | null => {
+  if (restrictions?.dayRule !== 'odd-even') return null;
+  const parity = restrictions.addressParity === 'even' ? 'even' : 'odd';
+  return `Watering is restricted to ${parity} dates, which fixed weekdays cannot follow. Set the controller to ${parity}-date watering instead of these days.`;
+};
+
+export const getMaxDaysPerWeek = (restrictions?: WateringRestrictions): number => {
+  if (!restrictions) return 7;
+  let days = 7;
+  if (restrictions.dayRule === 'odd-even') {
+    // Every other date averages 3.5 days; plan on the 3-day weeks
+    days = 3;
+  } else if (restrictions.dayRule === 'assigned') {
+    days = restrictions.assignedDays?.length || 0;
+  }
+  if (restrictions.maxDaysPerWeek && restrictions.maxDaysPerWeek > 0) {
+    days = Math.min(days, restrictions.maxDaysPerWeek);
+  }
+  return days;
+};
+
+// Minutes per day left after no-watering hours (e.g. 10am-6pm leaves 960)
+export const getAllowedMinutesPerDay = (restrictions?: WateringRestrictions): number => {
+  if (!restrictions?.noWaterStart || !restrictions.noWaterEnd) return 1440;
+  const blocked = (toMinutes(restrictions.noWaterEnd) - toMinutes(restrictions.noWaterStart) + 1440) % 1440;
+  return 1440 - blocked;
+};
+
+// Minutes of a run starting at `start` (minutes after midnight) that fall in no-watering hours
+export const getNoWaterOverlap = (restrictions: WateringRestrictions | undefined, start: number, duration: number): number => {
+  if (!restrictions?.noWaterStart || !restrictions.noWaterEnd) return 0;
+  const blockStart = toMinutes(restrictions.noWaterStart);
+  const blockLength = 1440 - getAllowedMinutesPerDay(restrictions);
+  let overlap = 0;
+  for (let minute = 0; minute < duration; minute++) {
+    if ((((start + minute - blockStart) % 1440) + 1440) % 1440 < blockLength) overlap++;
+  }
+  return overlap;
+};
+
+/**
+ * Warns when watering for `duration` minutes from `startTime` runs into no-watering
+ * hours, with the start times that would avoid them. Null when the run is clear.
+ */
+export const checkNoWaterHours = (restrictions: WateringRestrictions | undefined, startTime: string, duration: number): string | null => {
+  const overlap = getNoWaterOverlap(restrictions, toMinutes(startTime), duration);
+  if (overlap === 0) return null;
+  const { noWaterStart, noWaterEnd } = restrictions;
+  const runs = `Watering from ${startTime} to ${formatClock(toMinutes(startTime) + duration)} runs ${overlap} min inside no-watering hours (${noWaterStart}-${noWaterEnd}).`;
+  if (duration > getAllowedMinutesPerDay(restrictions)) return `${runs} It is longer than the hours watering is allowed.`;
+  return `${runs} Start between ${noWaterEnd} and ${formatClock(toMinutes(noWaterStart) - duration)} to stay clear of them.`;
+};
+
+export const describeRestrictions = (restrictions?: WateringRestrictions): string => {
+  if (!restrictions) return 'No restrictions';
+  const parts: string[] = [];
+  if (restrictions.dayRule === 'odd-even') parts.push(`${restrictions.addressParity === 'even' ? 'Even' : 'Odd'} dates`);
+  if (restrictions.dayRule === 'assigned') parts.push((restrictions.assignedDays || []).join('/') || 'No days assigned');
+  if (restrictions.maxDaysPerWeek) parts.push(`max ${restrictions.maxDaysPerWeek} days/wk`);
+  if (restrictions.noWaterStart && restrictions.noWaterEnd) parts.push(`no watering ${restrictions.noWaterStart}-${restrictions.noWaterEnd}`);
+  return parts.length > 0 ? parts.join(', ') : 'No restrictions';
+};
+
+/**
+ * Checks whether the weekly need fits the allowed days without any single cycle
+ * exceeding maxRunTime. Returns a warning, or null when it can be delivered.
+ */
+export const checkRestrictedDelivery = (
+  weeklyTotalMinutes: number,
+  maxRunTime: number,
+  soakMinutes: number,
+  restrictions?: WateringRestrictions
+): string | null => {
+  if (weeklyTotalMinutes <= 0) return null;
+  const days = getMaxDaysPerWeek(restrictions);
+  if (days <= 0) {
+    return 'Watering restrictions allow no watering days.';
+  }
+
+  const dailyMinutes = Math.ceil(weeklyTotalMinutes / days);
+  const cycles = Math.ceil(dailyMinutes / Math.max(1, maxRunTime));
+  if (cycles > MAX_CYCLES_PER_DAY) {
+    return `${weeklyTotalMinutes} min/week on ${days} allowed day(s) needs ${cycles} cycles of ${maxRunTime} min per day (limit ${MAX_CYCLES_PER_DAY}).`;
+  }
+
+  // Run time plus the soaks between cycles must fit in the hours watering is allowed
+  const span = dailyMinutes + (cycles - 1) * soakMinutes;
+  const allowedMinutes = getAllowedMinutesPerDay(restrictions);
+  if (span > allowedMinutes) {
+    return `${cycles} cycles with ${soakMinutes} min soaks need ${span} min per day, but only ${allowedMinutes} min are outside no-watering hours.`;
+  }
+  return null;
+};
@@ -0,0 +1,160 @@
+import { describe, it, expect } from 'vitest';
+import { LiveCalculation, PlantFormData, SavedZone } from '../types';
+import {
+  SchedulerOptions,
+  ScheduledStation,
+  buildWateringSchedule,
+  formatWindowOffset,
+  getWindowMinutes,
+  interleaveStations
+} from './wateringScheduler';
+import { WEEKDAYS } from './controllerProgram';
+
+// Only the stats the scheduler reads matter; Loam gives a 30 min soak when zones are re-split
+const makeZone = (name: string, stats: Partial<LiveCalculation>): SavedZone => ({
+  id: name,
+  name,
+  timestamp: 0,
+  formData: { customZoneName: name, soilType: 'Loam' } as PlantFormData,
+  stats: {
+    precipRate: 1.5,
+    weeklyTotalMinutes: 60,
+    suggestedFrequency: 3,
+    dailyRunTime: 20,
+    maxRunTime: 15,
+    recommendedSoakTime: 30,
+    cyclesPerDay: 2,
+    minutesPerCycle: 10,
+    inchesAppliedPerDay: 0.35,
+    isEstData: true,
+    efficiency: 0.7,
+    ...stats
+  }
+});
+
+const makeStation = (station: number, cycles: number, minutesPerCycle: number, soakMinutes: number): ScheduledStation => ({
+  station,
+  zoneName: `Zone ${station}`,
+  program: 'A',
+  cycles,
+  minutesPerCycle,
+  soakMinutes
+});
+
+const makeOptions = (overrides: Partial<SchedulerOptions> = {}): SchedulerOptions => ({
+  windowStart: '05:00',
+  windowEnd: '08:00',
+  programCount: 2,
+  allowedDays: WEEKDAYS,
+  ...overrides
+});
+
+const spans = (segments: { station: number; start: number; end: number }[]) =>
+  segments.map(s => [s.station, s.start, s.end]);
+
+describe('getWindowMinutes', () => {
+  it('measures the window, wrapping past midnight', () => {
+    expect(getWindowMinutes('04:00', '08:00')).toBe(240);
+    expect(getWindowMinutes('22:00', '06:00')).toBe(480);
+  });
+
+  it('treats the same start and end as the whole day', () => {
+    expect(getWindowMinutes('05:00', '05:00')).toBe(1440);
+  });
+});
+
+describe('formatWindowOffset', () => {
+  it('turns minutes after the window start into a clock time', () => {
+    expect(formatWindowOffset('22:00', 150)).toBe('00:30');
+  });
+});
+
+describe('interleaveStations', () => {
+  it('runs another station while one soaks', () => {
+    const segments = interleaveStations([makeStation(1, 2, 10, 30), makeStation(2, 1, 15, 0)], 0);
+    // Station 2 fills the first soak; station 1 waits out the rest of it
+    expect(spans(segments)).toEqual([[1, 0, 10], [2, 10, 25], [1, 40, 50]]);
+    expect(segments.map(s => s.cycle)).toEqual([1, 1, 2]);
+  });
+
+  it('puts stations with more cycles left first and breaks ties by station number', () => {
+    const segments = interleaveStations([makeStation(1, 1, 5, 0), makeStation(2, 2, 10, 10), makeStation(3, 2, 10, 10)], 100);
+    expect(spans(segments)).toEqual([[2, 100, 110], [3, 110, 120], [1, 120, 125], [2, 125, 135], [3, 135, 145]]);
+  });
+});
+
+describe('buildWateringSchedule', () => {
+  const zones = [
+    makeZone('Lawn', {}),
+    makeZone('Beds', { suggestedFrequency: 2 }),
+    makeZone('Pots', { suggestedFrequency: 7, cyclesPerDay: 1, minutesPerCycle: 5 })
+  ];
+
+  it('merges the closest frequencies into the higher one', () => {
+    const result = buildWateringSchedule(zones, makeOptions());
+    expect(result.programs.map(p => [p.program, p.wateringDays, p.stations.map(s => s.station)])).toEqual([
+      ['A', WEEKDAYS, [3]],
+      ['B', ['Sun', 'Tue', 'Thu'], [1, 2]]
+    ]);
+    expect(result.warnings).toEqual([]);
+  });
+
+  it('re-splits a zone moved to a program with more days', () => {
+    const beds = buildWateringSchedule(zones, makeOptions()).programs[1].stations[1];
+    // 60 min/week over 3 days: 20 min a day in two 10 min cycles with a 30 min loam soak
+    expect(beds).toMatchObject({ zoneName: 'Beds', cycles: 2, minutesPerCycle: 10, soakMinutes: 30 });
+  });
+
+  it('stacks programs on days they share', () => {
+    const result = buildWateringSchedule(zones, makeOptions());
+    const sunday = result.days.find(d => d.day === 'Sun');
+    // Program A: Pots 0-5; program B starts when it ends
+    expect(spans(sunday.segments)).toEqual([[3, 0, 5], [1, 5, 15], [2, 15, 25], [1, 45, 55], [2, 55, 65]]);
+    expect(sunday.totalMinutes).toBe(65);
+    expect(sunday.fits).toBe(true);
+    expect(result.days.find(d => d.day === 'Mon').totalMinutes).toBe(5);
+  });
+
+  it('caps zones at the allowed days and waters longer instead', () => {
+    const lawn = makeZone('Lawn', { suggestedFrequency: 5, weeklyTotalMinutes: 100, maxRunTime: 20 });
+    const result = buildWateringSchedule([lawn], makeOptions({ allowedDays: ['Fri', 'Mon', 'Wed'] }));
+
+    expect(result.warnings).toEqual(['Lawn: needs 5 days/week but only 3 are allowed; daily run time increased.']);
+    expect(result.programs[0].wateringDays).toEqual(['Mon', 'Wed', 'Fri']);
+    // ceil(100 / 3) = 34 min a day in two 17 min cycles
+    expect(result.programs[0].stations[0]).toMatchObject({ cycles: 2, minutesPerCycle: 17 });
+  });
+
+  it('warns when a day runs past the window end', () => {
+    const lawn = makeZone('Lawn', { suggestedFrequency: 1, cyclesPerDay: 1, minutesPerCycle: 90 });
+    const result = buildWateringSchedule([lawn], makeOptions({ windowEnd: '06:00' }));
+
+    expect(result.days[0]).toMatchObject({ day: 'Sun', totalMinutes: 90, fits: false });
+    expect(result.warnings).toEqual(['Sun: schedule runs 90 min, 30 min past the window end (06:00).']);
+  });
+
+  it('warns when a day runs into no-watering hours', () => {
+    const lawn = makeZone('Lawn', { suggestedFrequency: 1, cyclesPerDay: 1, minutesPerCycle: 90 });
+    const result = buildWateringSchedule([lawn], makeOptions({
+      restrictions: { dayRule: 'none', noWaterStart: '06:00', noWaterEnd: '20:00' }
+    }));
+
+    expect(result.warnings).toEqual([
+      'Sun: Watering from 05:00 to 06:30 runs 30 min inside no-watering hours (06:00-20:00). Start between 20:00 and 04:30 to stay clear of them.'
+    ]);
+  });
+
+  it('flags odd/even date rules that weekdays cannot follow', () => {
+    const result = buildWateringSchedule(zones, makeOptions({ restrictions: { dayRule: 'odd-even', addressParity: 'even' } }));
+    expect(result.warnings[0]).toMatch(/^Watering is restricted to even dates/);
+  });
+
+  it('schedules nothing without allowed days', () => {
+    expect(buildWateringSchedule(zones, makeOptions({ allowedDays: [] }))).toEqual({
+      windowMinutes: 180,
+      programs: [],
+      days: [],
+      warnings: ['No watering days are allowed.']
+    });
+  });
+});
@@ -0,0 +1,212 @@
+import { SavedZone, WateringRestrictions, Weekday } from "../types";
+import { SOIL_SOAK_TIMES } from "./zoneCalculator";
+import { WEEKDAYS, formatClock, toMinutes, spreadDays } from "./controllerProgram";
+import { checkNoWaterHours, getUnmetRestrictionWarning } from "./wateringRestrictions";
+
+export interface SchedulerOptions {
+  windowStart: string; // "HH:MM"
+  windowEnd: string;   // "HH:MM", may be past midnight (e.g. 22:00 -> 06:00)
+  programCount: number;
+  allowedDays: Weekday[];
+  restrictions?: WateringRestrictions; // Checked for odd/even dates and no-watering hours
+}
+
+// A station's daily work after it has been assigned to a program
+export interface ScheduledStation {
+  station: number;
+  zoneName: string;
+  program: string;
+  cycles: number;
+  minutesPerCycle: number;
+  soakMinutes: number;
+}
+
+export interface TimelineSegment {
+  station: number;
+  zoneName: string;
+  program: string;
+  cycle: number;
+  start: number; // minutes after window start
+  end: number;
+}
+
+export interface ScheduledProgram {
+  program: string;
+  wateringDays: Weekday[];
+  stations: ScheduledStation[];
+}
+
+export interface DayTimeline {
+  day: Weekday;
+  segments: TimelineSegment[];
+  totalMinutes: number; // window start -> last cycle ends, soak gaps included
+  fits: boolean;
+}
+
+export interface WateringScheduleResult {
+  windowMinutes: number;
+  programs: ScheduledProgram[];
+  days: DayTimeline[];
+  warnings: string[];
+}
+
+const PROGRAM_LETTERS = ['A', 'B', 'C', 'D'];
+
+export const getWindowMinutes = (start: string, end: string) => {
+  const length = (toMinutes(end) - toMinutes(start) + 1440) % 1440;
+  return length === 0 ? 1440 : length;
+};
+
+/**
+ * Groups zone frequencies into at most `programCount` programs. When there are more
+ * distinct frequencies than programs, the two closest are merged into the higher one
+ * (watering more often is safer than under-watering).
+ */
+const assignFrequencies = (frequencies: number[], programCount: number): Map<number, number> => {
+  let groups = Array.from(new Set(frequencies)).sort((a, b) => a - b).map(f => [f]);
+  while (groups.length > Math.max(1, programCount)) {
+    let mergeAt = 0;
+    let smallestGap = Infinity;
+    for (let i = 0; i < groups.length - 1; i++) {
+      const gap = Math.max(...groups[i + 1]) - Math.max(...groups[i]);
+      if (gap < smallestGap) {
+        smallestGap = gap;
+        mergeAt = i;
+      }
+    }
+    groups = [...groups.slice(0, mergeAt), [...groups[mergeAt], ...groups[mergeAt + 1]], ...groups.slice(mergeAt + 2)];
+  }
+
+  const mapping = new Map<number, number>();
+  groups.forEach(group => {
+    const programFrequency = Math.max(...group);
+    group.forEach(f => mapping.set(f, programFrequency));
+  });
+  return mapping;
+};
+
+// Re-splits a zone's weekly minutes when its program waters on a different number of days
+const toScheduledStation = (zone: SavedZone, station: number, program: string, days: number): ScheduledStation => {
+  const { stats } = zone;
+  if (days === stats.suggestedFrequency) {
+    return {
+      station,
+      zoneName: zone.name,
+      program,
+      cycles: Math.max(1, stats.cyclesPerDay),
+      minutesPerCycle: stats.minutesPerCycle,
+      soakMinutes: stats.cyclesPerDay > 1 ? stats.recommendedSoakTime : 0
+    };
+  }
+  const daily = Math.ceil(stats.weeklyTotalMinutes / days);
+  const cycles = Math.max(1, Math.ceil(daily / stats.maxRunTime));
+  return {
+    station,
+    zoneName: zone.name,
+    program,
+    cycles,
+    minutesPerCycle: Math.ceil(daily / cycles),
+    soakMinutes: cycles > 1 ? (SOIL_SOAK_TIMES[zone.formData.soilType] || 0) : 0
+  };
+};
+
+/**
+ * Runs one program's stations on a single valve starting at `startAt`. Whenever a
+ * station goes into soak the next ready station runs, so soaks overlap other zones'
+ * run time. Stations with the most cycles left go first to keep the program short.
+ */
+export const interleaveStations = (stations: ScheduledStation[], startAt: number): TimelineSegment[] => {
+  const state = stations.map(s => ({ station: s, done: 0, readyAt: startAt }));
+  const segments: TimelineSegment[] = [];
+  let clock = startAt;
+
+  while (state.some(s => s.done < s.station.cycles)) {
+    const pending = state.filter(s => s.done < s.station.cycles);
+    const ready = pending.filter(s => s.readyAt <= clock);
+    if (ready.length === 0) {
+      clock = Math.min(...pending.map(s => s.readyAt));
+      continue;
+    }
+    ready.sort((a, b) =>
+      (b.station.cycles - b.done) - (a.station.cycles - a.done) || a.station.station - b.station.station
+    );
+    const next = ready[0];
+    const end = clock + next.station.minutesPerCycle;
+    segments.push({
+      station: next.station.station,
+      zoneName: next.station.zoneName,
+      program: next.station.program,
+      cycle: next.done + 1,
+      start: clock,
+      end
+    });
+    next.done += 1;
+    next.readyAt = end + next.station.soakMinutes;
+    clock = end;
+  }
+  return segments;
+};
+
+export const buildWateringSchedule = (zones: SavedZone[], options: SchedulerOptions): WateringScheduleResult => {
+  const windowMinutes = getWindowMinutes(options.windowStart, options.windowEnd);
+  const unmetRestriction = getUnmetRestrictionWarning(options.restrictions);
+  const warnings: string[] = unmetRestriction ? [unmetRestriction] : [];
+  const allowedDays = WEEKDAYS.filter(d => options.allowedDays.includes(d));
+
+  if (allowedDays.length === 0 || zones.length === 0) {
+    if (allowedDays.length === 0) warnings.push('No watering days are allowed.');
+    return { windowMinutes, programs: [], days: [], warnings };
+  }
+
+  const cappedFrequency = (zone: SavedZone) => Math.max(1, Math.min(zone.stats.suggestedFrequency, allowedDays.length));
+  zones.forEach(zone => {
+    if (zone.stats.suggestedFrequency > allowedDays.length) {
+      warnings.push(`${zone.name}: needs ${zone.stats.suggestedFrequency} days/week but only ${allowedDays.length} are allowed; daily run time increased.`);
+    }
+  });
+
+  const frequencyMap = assignFrequencies(zones.map(cappedFrequency), options.programCount);
+  // Most frequent program first, it anchors the schedule
+  const programFrequencies = Array.from(new Set(frequencyMap.values())).sort((a, b) => b - a);
+
+  const programs: ScheduledProgram[] = programFrequencies.map((frequency, idx) => {
+    const letter = PROGRAM_LETTERS[idx] || `P${idx + 1}`;
+    return {
+      program: letter,
+      wateringDays: spreadDays(allowedDays, frequency),
+      stations: zones
+        .map((zone, zoneIdx) => ({ zone, station: zoneIdx + 1 }))
+        .filter(({ zone }) => frequencyMap.get(cappedFrequency(zone)) === frequency)
+        .map(({ zone, station }) => toScheduledStation(zone, station, letter, frequency))
+    };
+  });
+
+  const days: DayTimeline[] = allowedDays.map(day => {
+    // Programs stack: each starts when the previous one finishes
+    let clock = 0;
+    const segments: TimelineSegment[] = [];
+    programs
+      .filter(p => p.wateringDays.includes(day))
+      .forEach(p => {
+        const programSegments = interleaveStations(p.stations, clock);
+        segments.push(...programSegments);
+        if (programSegments.length > 0) {
+          clock = Math.max(...programSegments.map(s => s.end));
+        }
+      });
+    return { day, segments, totalMinutes: clock, fits: clock <= windowMinutes };
+  }).filter(d => d.segments.length > 0);
+
+  days.filter(d => !d.fits).forEach(d => {
+    const overBy = d.totalMinutes - windowMinutes;
+    warnings.push(`${d.day}: schedule runs ${d.totalMinutes} min, ${overBy} min past the window end (${options.windowEnd}).`);
+  });
+  days.forEach(d => {
+    const noWaterWarning = checkNoWaterHours(options.restrictions, options.windowStart, d.totalMinutes);
+    if (noWaterWarning) warnings.push(`${d.day}: ${noWaterWarning}`);
+  });
+
+  return { windowMinutes, programs, days, warnings };
+};
+
+export const formatWindowOffset = (windowStart: string, offset: number) => formatClock(toMinutes(windowStart) + offset);
@@ -0,0 +1,216 @@
+import { describe, it, expect } from 'vitest';
+import { PlantFormData } from '../types';
+import {
+  SOIL_RATES,
+  SLOPE_FACTORS,
+  SOIL_SOAK_TIMES,
+  calculateZone,
+  getMaxRunTime,
+  getPressureCorrectedRate,
+  getRootDepth,
+  getSuggestedFrequency,
+  hasRequiredZoneInputs
+} from './zoneCalculator';
+
+// Expected values are worked by hand from the original InputForm formulas
+const makeForm = (overrides: Partial<PlantFormData> = {}): PlantFormData => ({
+  customZoneName: 'Test Zone',
+  zoneType: 'Cool Season Turf Grass',
+  zoneAreaSqFt: '',
+  frequencyMode: 'legacy',
+  location: '',
+  zipCode: '',
+  month: '',
+  nozzleType: 'Fixed Spray (Generic)',
+  pressure: '',
+  efficiency: '',
+  soilType: 'Loam',
+  slope: '0-15%',
+  sunlight: 'Direct Sun',
+  mowingHeight: '3.0',
+  waterSource: 'Culinary',
+  waterPrice: '3.00',
+  image: null,
+  ...overrides
+});
+
+describe('getMaxRunTime', () => {
+  it('uses each soil infiltration rate against a 1.6 in/hr nozzle', () => {
+    const expected: Record<string, number> = {
+      'Sand': 60,        // 2.0 in/hr soaks up faster than the heads apply
+      'Loamy Sand': 56,  // floor(60 * 1.5 / 1.6)
+      'Sandy Loam': 30,  // floor(60 * 0.8 / 1.6)
+      'Loam': 18,        // floor(60 * 0.5 / 1.6)
+      'Clay Loam': 9,    // floor(60 * 0.25 / 1.6)
+      'Silty Clay': 5,   // floor(60 * 0.15 / 1.6)
+      'Clay': 3          // floor(60 * 0.1 / 1.6)
+    };
+    expect(Object.keys(expected).sort()).toEqual(Object.keys(SOIL_RATES).sort());
+    Object.entries(expected).forEach(([soil, minutes]) => {
+      expect(getMaxRunTime(1.6, soil, '0-15%')).toBe(minutes);
+    });
+  });
+
+  it('shortens runs on each slope band', () => {
+    const expected: Record<string, number> = {
+      '0-15%': 20,  // floor(60 * 0.5 / 1.5)
+      '15-30%': 14, // floor(20 * 0.7)
+      '30-45%': 10, // floor(20 * 0.5)
+      '>45%': 6     // floor(20 * 0.3)
+    };
+    expect(Object.keys(expected).sort()).toEqual(Object.keys(SLOPE_FACTORS).sort());
+    Object.entries(expected).forEach(([slope, minutes]) => {
+      expect(getMaxRunTime(1.5, 'Loam', slope)).toBe(minutes);
+    });
+  });
+
+  it('never drops below 3 minutes', () => {
+    expect(getMaxRunTime(1.6, 'Clay', '>45%')).toBe(3);
+  });
+
+  it('allows a full hour when the soil keeps up', () => {
+    expect(getMaxRunTime(0.4, 'Loam', '>45%')).toBe(60);
+  });
+
+  it('falls back to loam infiltration and a flat slope for unknown values', () => {
+    expect(getMaxRunTime(1.6, 'Gravel', 'Terraced')).toBe(18);
+  });
+});
+
+describe('getSuggestedFrequency', () => {
+  it('waters sand more often as demand rises', () => {
+    expect(getSuggestedFrequency('Sand', 'Trees', 0.8, 3)).toBe(3);
+    expect(getSuggestedFrequency('Sand', 'Trees', 0.9, 3)).toBe(4);
+    expect(getSuggestedFrequency('Loamy Sand', 'Trees', 1.6, 3)).toBe(5);
+  });
+
+  it('waters loam and clay less often', () => {
+    expect(getSuggestedFrequency('Loam', 'Trees', 0.7, 3)).toBe(2);
+    expect(getSuggestedFrequency('Clay', 'Trees', 1.0, 3)).toBe(3);
+    expect(getSuggestedFrequency('Clay Loam', 'Trees', 1.5, 3)).toBe(4);
+  });
+
+  it('waters very short turf daily', () => {
+    expect(getSuggestedFrequency('Clay', 'Cool Season Turf Grass', 0.5, 0.5)).toBe(7);
+  });
+
+  it('raises short turf to at least 5 days at 1.5" or less', () => {
+    expect(getSuggestedFrequency('Loam', 'Cool Season Turf Grass', 0.5, 1.0)).toBe(5);
+    expect(getSuggestedFrequency('Loam', 'Cool Season Turf Grass', 0.5, 1.5)).toBe(5);
+  });
+
+  it('raises turf under 2" to at least 4 days', () => {
+    expect(getSuggestedFrequency('Loam', 'Warm Season Turf Grass', 0.5, 1.75)).toBe(4);
+    expect(getSuggestedFrequency('Sand', 'Warm Season Turf Grass', 1.6, 1.75)).toBe(5);
+  });
+
+  it('caps turf at 2" and taller to 4 days', () => {
+    expect(getSuggestedFrequency('Sand', 'Cool Season Turf Grass', 2.0, 2.0)).toBe(4);
+    expect(getSuggestedFrequency('Loam', 'Cool Season Turf Grass', 0.5, 3.0)).toBe(2);
+  });
+});
+
+describe('getRootDepth', () => {
+  it('scales turf roots with mowing height between 3" and 8"', () => {
+    expect(getRootDepth('Cool Season Turf Grass', '1.0')).toBe(3);
+    expect(getRootDepth('Cool Season Turf Grass', '2.5')).toBe(5);
+    expect(getRootDepth('Warm Season Turf Grass', '5')).toBe(8);
+  });
+
+  it('uses the zone type default otherwise', () => {
+    expect(getRootDepth('Cool Season Turf Grass')).toBe(6);
+    expect(getRootDepth('Trees', '3')).toBe(24);
+    expect(getRootDepth('Groundcover')).toBe(12);
+  });
+});
+
+describe('getPressureCorrectedRate', () => {
+  it('uses the catalog rate at optimal pressure', () => {
+    expect(getPressureCorrectedRate('Fixed Spray (Generic)', '')).toBe(1.5);
+    expect(getPressureCorrectedRate('Fixed Spray (Generic)', 30)).toBe(1.5);
+    expect(getPressureCorrectedRate('Hunter MP Rotator (Standard)', 40)).toBe(0.4);
+  });
+
+  it('follows the square root of pressure', () => {
+    expect(getPressureCorrectedRate('Fixed Spray (Generic)', 45)).toBe(1.84); // 1.5 * sqrt(45 / 30)
+    expect(getPressureCorrectedRate('Rotor (Gear Drive - PGP/5000)', 20)).toBe(0.33); // 0.5 * sqrt(20 / 45)
+  });
+
+  it('clamps the correction to 0.5x-1.5x', () => {
+    expect(getPressureCorrectedRate('Fixed Spray (Generic)', 120)).toBe(2.25);
+    expect(getPressureCorrectedRate('Fixed Spray (Generic)', 5)).toBe(0.75);
+  });
+
+  it('returns 0 with no pressure or an unknown nozzle', () => {
+    expect(getPressureCorrectedRate('Fixed Spray (Generic)', 0)).toBe(0);
+    expect(getPressureCorrectedRate('Deleted Custom Nozzle', 30)).toBe(0);
+  });
+});
+
+describe('calculateZone', () => {
+  it('matches the baseline numbers for a spray turf zone on loam', () => {
+    const calc = calculateZone(makeForm());
+    // ET 1.25 (default) x 0.95 turf factor = 1.1875 in/week; 1.5 in/hr x 0.70 efficiency = 1.05 in/hr
+    expect(calc.precipRate).toBe(1.5);
+    expect(calc.efficiency).toBe(0.7);
+    expect(calc.isEstData).toBe(true);
+    expect(calc.weeklyTotalMinutes).toBe(68); // ceil(1.1875 / 1.05 * 60)
+    expect(calc.suggestedFrequency).toBe(3);
+    expect(calc.dailyRunTime).toBe(23);
+    expect(calc.maxRunTime).toBe(20);
+    expect(calc.cyclesPerDay).toBe(2);
+    expect(calc.minutesPerCycle).toBe(12);
+    expect(calc.recommendedSoakTime).toBe(SOIL_SOAK_TIMES['Loam']);
+    expect(calc.inchesAppliedPerDay).toBe(0.4);
+  });
+
+  it('scales demand by sunlight and subtracts rain', () => {
+    const calc = calculateZone(makeForm({ sunlight: 'Shade', estWeeklyEt: '2.0', estWeeklyRain: '0.5' }));
+    // 2.0 x 0.95 x 0.8 - 0.5 = 1.02 in/week
+    expect(calc.isEstData).toBe(false);
+    expect(calc.weeklyTotalMinutes).toBe(59); // ceil(1.02 / 1.05 * 60)
+    expect(calc.suggestedFrequency).toBe(3);
+  });
+
+  it('runs sand in at least two cycles', () => {
+    const calc = calculateZone(makeForm({ soilType: 'Sand', nozzleType: 'Hunter MP Rotator (Standard)' }));
+    // 0.4 in/hr x 0.80 = 0.32 in/hr; ceil(1.1875 / 0.32 * 60) = 223 min over 4 days
+    expect(calc.weeklyTotalMinutes).toBe(223);
+    expect(calc.suggestedFrequency).toBe(4);
+    expect(calc.dailyRunTime).toBe(56);
+    expect(calc.maxRunTime).toBe(60);
+    expect(calc.cyclesPerDay).toBe(2);
+    expect(calc.minutesPerCycle).toBe(28);
+  });
+
+  it('uses the pressure-corrected rate', () => {
+    expect(calculateZone(makeForm({ pressure: 45 })).precipRate).toBe(1.84);
+  });
+
+  it('takes the user efficiency over the nozzle default', () => {
+    const calc = calculateZone(makeForm({ efficiency: '50' }));
+    expect(calc.efficiency).toBe(0.5);
+    expect(calc.weeklyTotalMinutes).toBe(95); // ceil(1.1875 / 0.75 * 60)
+  });
+
+  it('keeps a manual cycle override', () => {
+    const calc = calculateZone(makeForm(), { manualCycles: 3 });
+    expect(calc.cyclesPerDay).toBe(3);
+    expect(calc.minutesPerCycle).toBe(8);
+  });
+
+  it('schedules nothing when there is no pressure at the heads', () => {
+    const calc = calculateZone(makeForm({ pressure: 0 }));
+    expect(calc.weeklyTotalMinutes).toBe(0);
+    expect(calc.dailyRunTime).toBe(0);
+    expect(calc.pressureWarning).toBeTruthy();
+  });
+});
+
+describe('hasRequiredZoneInputs', () => {
+  it('needs a known nozzle, soil, slope and zone type', () => {
+    expect(hasRequiredZoneInputs(makeForm())).toBe(true);
+    expect(hasRequiredZoneInputs(makeForm({ nozzleType: 'Deleted Custom Nozzle' }))).toBe(false);
+    expect(hasRequiredZoneInputs(makeForm({ soilType: '' }))).toBe(false);
+  });
+});
@@ -0,0 +1,328 @@
+import { PlantFormData, LiveCalculation } from "../types";
+import { getMaxDaysPerWeek, checkRestrictedDelivery } from "./wateringRestrictions";
+import { getNozzle, getNozzlePerformance } from "./nozzleLibrary";
+import { hasHeadInventory, summarizeHeadInventory } from "./headInventory";
+import { hasHydraulicInputs, checkHydraulics, estimateZoneFlow } from "./hydraulics";
+import { hasDripDesign, calculateDripDesign, DEFAULT_DRIP_EFFICIENCY } from "./dripDesign";
+import { getZoneHydrozone } from "./plantDatabase";
+
+export const SOIL_RATES: Record<string, number> = {
+  "Sand": 2.0, "Loamy Sand": 1.5, "Sandy Loam": 0.8,
+  "Loam": 0.5, "Clay Loam": 0.25, "Silty Clay": 0.15, "Clay": 0.1,
+};
+
+export const SOIL_SOAK_TIMES: Record<string, number> = {
+  "Sand": 0, "Loamy Sand": 0, "Sandy Loam": 15,
+  "Loam": 30, "Clay Loam": 45, "Silty Clay": 60, "Clay": 60,
+};
+
+export const SLOPE_FACTORS: Record<string, number> = {
+  "0-15%": 1.0, "15-30%": 0.7, "30-45%": 0.5, ">45%": 0.3,
+};
+
+export const ZONE_FACTORS: Record<string, number> = {
+  "Cool Season Turf Grass": 0.95,
+  "Warm Season Turf Grass": 0.7,
+  "All Plants": 0.5,
+  "Trees": 0.6,
+  "Perennials": 0.5,
+  "Drip": 0.5
+};
+
+export const SUNLIGHT_FACTORS: Record<string, number> = {
+  "Direct Sun": 1.0, "Partial Sun": 0.9, "Shade": 0.8
+};
+
+// Available water holding capacity (inches of water per inch of soil)
+export const SOIL_AWHC: Record<string, number> = {
+  "Sand": 0.05, "Loamy Sand": 0.07, "Sandy Loam": 0.12,
+  "Loam": 0.17, "Clay Loam": 0.18, "Silty Clay": 0.17, "Clay": 0.16,
+};
+
+// Effective root zone depth (inches)
+export const ROOT_DEPTHS: Record<string, number> = {
+  "Cool Season Turf Grass": 6,
+  "Warm Season Turf Grass": 8,
+  "All Plants": 12,
+  "Trees": 24,
+  "Perennials": 12,
+  "Drip": 12
+};
+
+// Management allowable depletion: fraction of available water used before stress
+export const MAD_FACTORS: Record<string, number> = {
+  "Cool Season Turf Grass": 0.5,
+  "Warm Season Turf Grass": 0.6,
+  "All Plants": 0.5,
+  "Trees": 0.6,
+  "Perennials": 0.5,
+  "Drip": 0.5
+};
+
+// Fallback weekly ET (inches) when the user has not entered or fetched one
+export const DEFAULT_WEEKLY_ET = 1.25;
+
+export interface SoilProfile {
+  rootDepth: number;       // inches
+  awhc: number;            // in/in
+  totalAvailableWater: number; // TAW, inches held between field capacity and wilting point
+  mad: number;
+  readilyAvailableWater: number; // RAW = TAW * MAD
+}
+
+export interface ZoneCalculationOptions {
+  manualCycles?: number | null; // User override from the cycle +/- buttons
+}
+
+// True when the form has everything the live calculation needs
+export const hasRequiredZoneInputs = (formData: PlantFormData): boolean => {
+  return Boolean(
+    ((formData.nozzleType && getNozzle(formData.nozzleType)) || hasHeadInventory(formData) || hasDripDesign(formData)) &&
+    formData.soilType && formData.slope && formData.zoneType
+  );
+};
+
+// Precipitation rate at the zone's pressure, from the library entry's performance table.
+// 0 when the id is not in the library (e.g. a deleted custom nozzle).
+export const getPressureCorrectedRate = (nozzleType: string, pressure: number | ''): number => {
+  const nozzle = getNozzle(nozzleType);
+  return nozzle ? getNozzlePerformance(nozzle, pressure).precipRate : 0;
+};
+
+// Turf roots scale with mowing height: roughly 2" of root per 1" of cut, 3-8" deep
+export const getRootDepth = (zoneType: string, mowingHeight?: string) => {
+  if (zoneType.includes("Turf") && mowingHeight) {
+    const height = parseFloat(mowingHeight);
+    if (!isNaN(height) && height > 0) return Math.min(8, Math.max(3, height * 2));
+  }
+  return ROOT_DEPTHS[zoneType] || 12;
+};
+
+// Crop coefficient for the zone: the species mix when listed, else the zone type default
+export const getPlantFactor = (formData: PlantFormData): number =>
+  getZoneHydrozone(formData)?.coefficient ?? (ZONE_FACTORS[formData.zoneType] || 0.5);
+
+export const getSoilProfile = (formData: PlantFormData): SoilProfile => {
+  const rootDepth = getZoneHydrozone(formData)?.rootDepthIn || getRootDepth(formData.zoneType, formData.mowingHeight);
+  const awhc = SOIL_AWHC[formData.soilType] || 0.15;
+  // A depletion % on the form overrides the plant default
+  const depletionInput = parseFloat(formData.depletionPercent || '');
+  const mad = !isNaN(depletionInput) && depletionInput > 0 ? Math.min(depletionInput, 100) / 100 : (MAD_FACTORS[formData.zoneType] || 0.5);
+  const totalAvailableWater = rootDepth * awhc;
+  return {
+    rootDepth,
+    awhc,
+    totalAvailableWater: parseFloat(totalAvailableWater.toFixed(2)),
+    mad,
+    readilyAvailableWater: parseFloat((totalAvailableWater * mad).toFixed(2))
+  };
+};
+
+/**
+ * Days between waterings = readily available water / daily net demand. Watering
+ * once the allowable depletion is used up refills the root zone with no stress.
+ */
+export const getSoilWaterInterval = (formData: PlantFormData, netWeeklyInches: number): number => {
+  const profile = getSoilProfile(formData);
+  const dailyNeed = netWeeklyInches / 7;
+  if (dailyNeed <= 0) return 7;
+  return Math.max(1, Math.min(7, profile.readilyAvailableWater / dailyNeed));
+};
+
+export const getSoilWaterFrequency = (formData: PlantFormData, netWeeklyInches: number): number =>
+  Math.max(1, Math.min(7, Math.ceil(7 / getSoilWaterInterval(formData, netWeeklyInches))));
+
+// Legacy heuristic: base frequency from soil & demand, then constrained by turf mowing height
+export const getSuggestedFrequency = (soilType: string, zoneType: string, netWeeklyInches: number, mowingHeight: number): number => {
+  const isSandy = soilType.includes("Sand");
+  const isTurf = zoneType.includes("Turf");
+
+  // --- BASE FREQUENCY (Soil & Water Demand) ---
+  let suggestedFrequency = 3;
+
+  if (isSandy) {
+    // Sand Logic: Low holding capacity = more frequent
+    suggestedFrequency = netWeeklyInches > 0.8 ? 4 : 3;
+    if (netWeeklyInches > 1.5) suggestedFrequency = 5;
+  } else {
+    // Clay/Loam Logic: High holding capacity = less frequent
+    if (netWeeklyInches > 1.4) suggestedFrequency = 4; // High heat
+    else if (netWeeklyInches > 0.7) suggestedFrequency = 3;
+    else suggestedFrequency = 2;
+  }
+
+  // --- MOWING HEIGHT CONSTRAINT LOGIC ---
+  if (isTurf) {
+    if (mowingHeight < 2.0) {
+       // Short turf (< 2.0") -> Can go up to 5-7 days if needed (sand/heat)
+       // because roots are shallower
+       if (mowingHeight <= 0.75) suggestedFrequency = 7;
+       else if (mowingHeight <= 1.5) suggestedFrequency = Math.max(suggestedFrequency, 5);
+       // 1.5" - 1.99": Allow up to 5 days, or use base logic
+       else suggestedFrequency = Math.max(suggestedFrequency, 4);
+    } else {
+       // >= 2.0" -> STRICT Cap at 4 days to promote deep rooting
+       // Even if hot, we want "Deep & Infrequent"
+       suggestedFrequency = Math.min(suggestedFrequency, 4);
+    }
+  }
+
+  return Math.max(1, Math.min(7, suggestedFrequency));
+};
+
+// Longest single run before runoff, from infiltration vs precip rate and slope
+export const getMaxRunTime = (precipRate: number, soilType: string, slope: string): number => {
+  const soilInfiltration = SOIL_RATES[soilType] || 0.5;
+  const slopeFactor = SLOPE_FACTORS[slope] || 1.0;
+
+  let maxRunTime = 60;
+  if (precipRate > soilInfiltration) {
+    const runoffRatio = soilInfiltration / precipRate;
+    maxRunTime = Math.floor(60 * runoffRatio * slopeFactor);
+    maxRunTime = Math.max(3, maxRunTime);
+  }
+  return maxRunTime;
+};
+
+/**
+ * Full hydraulic baseline for a single zone. Pure: callers are responsible for
+ * checking hasRequiredZoneInputs() first.
+ */
+export const calculateZone = (formData: PlantFormData, options: ZoneCalculationOptions = {}): LiveCalculation => {
+  const nozzle = getNozzle(formData.nozzleType);
+  const sunFactor = SUNLIGHT_FACTORS[formData.sunlight] || 1.0;
+  const manualCycles = options.manualCycles ?? null;
+  const isDrip = hasDripDesign(formData);
+  const hasInventory = !isDrip && hasHeadInventory(formData);
+  const zoneArea = parseFloat(formData.zoneAreaSqFt || '0');
+  const efficiencyInput = parseFloat(formData.efficiency || '');
+
+  const userEt = parseFloat(formData.estWeeklyEt || '0');
+  const isEstData = !userEt;
+  const baseEt = userEt || DEFAULT_WEEKLY_ET;
+
+  const hydrozone = getZoneHydrozone(formData);
+  const plantFactor = getPlantFactor(formData);
+  const rainOffset = parseFloat(formData.estWeeklyRain || '0');
+
+  // Drip zones are sized from what each plant needs in gallons, not inches over the zone
+  const drip = isDrip
+    ? calculateDripDesign(formData.drip, baseEt * sunFactor, rainOffset, !isNaN(efficiencyInput) ? efficiencyInput / 100 : DEFAULT_DRIP_EFFICIENCY, zoneArea)
+    : null;
+
+  // With pipe runs entered, nozzles see what is left after friction, not the static pressure.
+  // Drip emitters are pressure compensating, so their flow does not change.
+  // A single nozzle's flow comes from the zone area; without one the check is skipped, not run at 0 GPM.
+  const hydraulicsNeedsArea = hasHydraulicInputs(formData) && !drip && !hasInventory && !(zoneArea > 0);
+  const hydraulics = hasHydraulicInputs(formData) && !hydraulicsNeedsArea
+    ? checkHydraulics(formData, psi => drip ? drip.totalGph / 60
+      : hasInventory ? summarizeHeadInventory(formData.heads, psi)?.totalGpm || 0
+      : nozzle ? estimateZoneFlow(getPressureCorrectedRate(formData.nozzleType, psi), zoneArea) : 0,
+      drip ? undefined
+        : hasInventory ? Math.max(...formData.heads.map(h => getNozzle(h.nozzleId)?.optimalPsi || 0))
+        : nozzle?.optimalPsi)
+    : null;
+  const headPressure = hydraulics ? hydraulics.headPsi : formData.pressure;
+
+  // Losses use up the supply (or 0 PSI was entered): the zone cannot run, so it is
+  // not scheduled at all rather than at catalog output
+  const isInoperable = headPressure !== '' && headPressure != null && !(Number(headPressure) > 0);
+  const pressureWarning = !isInoperable ? null
+    : hydraulics ? `Friction and elevation losses use up the ${hydraulics.staticPsi} PSI supply before water reaches the heads. This zone cannot run until the pipe is upsized or the zone is split.`
+    : 'Static pressure is 0 PSI, so this zone cannot run.';
+
+  // A head inventory replaces the single nozzle with area-weighted figures
+  const inventory = hasInventory ? summarizeHeadInventory(formData.heads, headPressure) : null;
+
+  // A catch-can audit beats any catalog figure (sprinkler zones only); its scheduling
+  // multiplier stretches run time so the driest quarter still gets the target depth.
+  // Otherwise use User Efficiency if provided, else Drip / Nozzle / Inventory Default, else 0.75
+  const audit = isDrip ? undefined : formData.audit;
+  const efficiency = audit ? parseFloat((1 / audit.schedulingMultiplier).toFixed(2))
+    : !isNaN(efficiencyInput) ? efficiencyInput / 100
+    : drip ? DEFAULT_DRIP_EFFICIENCY
+    : (inventory?.efficiency || nozzle?.efficiency || 0.75);
+
+  const precipRate = drip ? drip.precipRate
+    : audit ? audit.measuredPrecipRate
+    : inventory ? inventory.precipRate
+    : nozzle ? getPressureCorrectedRate(formData.nozzleType, headPressure)
+    : 0;
+
+  const adjustedEt = baseEt * plantFactor * sunFactor;
+  const netWeeklyInches = drip ? drip.netWeeklyInches : Math.max(0, adjustedEt - rainOffset);
+
+  // Effective PR = Raw PR * Efficiency.
+  // Lower efficiency = lower effective PR = Longer Run Time needed.
+  const effectivePr = precipRate * efficiency;
+
+  const weeklyTotalMinutes = isInoperable ? 0
+    : drip ? Math.ceil(drip.runHoursPerWeek * 60)
+    : effectivePr > 0 ? Math.ceil((netWeeklyInches / effectivePr) * 60)
+    : 0;
+
+  const isSandy = formData.soilType.includes("Sand");
+  const mowingHeight = parseFloat(formData.mowingHeight || '3.0');
+
+  const isLegacyFrequency = formData.frequencyMode === 'legacy';
+  const wateringIntervalDays = parseFloat(getSoilWaterInterval(formData, netWeeklyInches).toFixed(1));
+  const baseFrequency = isLegacyFrequency
+    ? getSuggestedFrequency(formData.soilType, formData.zoneType, netWeeklyInches, mowingHeight)
+    : getSoilWaterFrequency(formData, netWeeklyInches);
+
+  // Watering restrictions cap the days available, whatever the soil/turf logic wants
+  const suggestedFrequency = Math.max(1, Math.min(baseFrequency, getMaxDaysPerWeek(formData.restrictions)));
+
+  const dailyRunTime = suggestedFrequency > 0
+    ? Math.ceil(weeklyTotalMinutes / suggestedFrequency)
+    : 0;
+
+  // Calculate inches applied per day
+  // Inches = (DailyMin / 60) * EffectivePR
+  const inchesAppliedPerDay = dailyRunTime > 0
+    ? parseFloat(((dailyRunTime / 60) * effectivePr).toFixed(2))
+    : 0;
+
+  // Emitters apply water slower than the soil takes it in, so drip runs in one cycle
+  const maxRunTime = drip ? Math.max(1, dailyRunTime) : getMaxRunTime(precipRate, formData.soilType, formData.slope);
+
+  // Auto calculation
+  const cyclesPerDayCalc = Math.ceil(dailyRunTime / maxRunTime);
+  const isSandCycles = !drip && !isInoperable && isSandy && cyclesPerDayCalc < 2;
+  const autoCycles = isSandCycles ? 2 : cyclesPerDayCalc;
+
+  // Use manual override if present, otherwise auto
+  const finalCyclesPerDay = manualCycles !== null ? manualCycles : autoCycles;
+
+  const minutesPerCycle = finalCyclesPerDay > 0 ? Math.ceil(dailyRunTime / finalCyclesPerDay) : 0;
+  const recommendedSoakTime = finalCyclesPerDay > 1 ? (SOIL_SOAK_TIMES[formData.soilType] || 0) : 0;
+
+  const restrictionWarning = formData.restrictions
+    ? checkRestrictedDelivery(weeklyTotalMinutes, maxRunTime, SOIL_SOAK_TIMES[formData.soilType] || 0, formData.restrictions)
+    : null;
+
+  return {
+    precipRate,
+    weeklyTotalMinutes,
+    suggestedFrequency,
+    dailyRunTime,
+    maxRunTime,
+    recommendedSoakTime,
+    cyclesPerDay: finalCyclesPerDay,
+    minutesPerCycle,
+    inchesAppliedPerDay,
+    isEstData,
+    efficiency,
+    ...(audit ? { isAudited: true } : {}),
+    ...(inventory ? { totalGpm: inventory.totalGpm } : {}),
+    ...(inventory?.mismatchWarning ? { headMismatchWarning: inventory.mismatchWarning } : {}),
+    ...(hydrozone ? { plantFactor: hydrozone.coefficient } : {}),
+    ...(hydrozone?.mixWarning ? { hydrozoneWarning: hydrozone.mixWarning } : {}),
+    ...(drip ? { drip } : {}),
+    ...(hydraulics ? { hydraulics } : {}),
+    ...(hydraulicsNeedsArea ? { hydraulicsNeedsArea: true } : {}),
+    ...(isLegacyFrequency ? {} : { wateringIntervalDays }),
+    ...(restrictionWarning ? { restrictionWarning } : {}),
+    ...(pressureWarning ? { pressureWarning } : {})
+  };
+};
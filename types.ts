@@ -5,24 +5,204 @@ export enum Difficulty {
   HARD = 'Hard'
 }
 
+export type Weekday = 'Sun' | 'Mon' | 'Tue' | 'Wed' | 'Thu' | 'Fri' | 'Sat';
+
+// Municipal / water district rules shared by every zone on a property
+export interface WateringRestrictions {
+  dayRule: 'none' | 'odd-even' | 'assigned';
+  addressParity?: 'odd' | 'even'; // odd-even: odd addresses water on odd dates
+  assignedDays?: Weekday[];        // assigned: fixed days of the week
+  maxDaysPerWeek?: number;         // Weekly cap, applies on top of the day rule
+  noWaterStart?: string;           // "HH:MM" start of no-watering hours
+  noWaterEnd?: string;             // "HH:MM" end of no-watering hours
+}
+
+export type AdvisorProviderId = 'gemini' | 'offline' | 'mock';
+
+// Where the weekly ET / rain values on the form came from
+export interface ClimateSource {
+  provider: 'bundled' | 'gemini' | 'advisor' | 'calculated' | 'manual'; // 'gemini' predates pluggable advisors
+  label: string;
+}
+
+// One row of a manufacturer performance chart
+export interface NozzlePerformancePoint {
+  psi: number;
+  precipRate: number; // in/hr (square spacing)
+  gpm?: number;       // Full-circle flow
+}
+
+// Nozzle / emitter product, built in or added to the user's library
+export interface NozzleProduct {
+  id: string;
+  label: string;
+  manufacturer?: string;
+  optimalPsi: number;
+  efficiency: number;              // Default application efficiency, 0-1
+  performance: NozzlePerformancePoint[]; // Sorted by psi; a single point uses the square-root law
+  arcOptions?: number[];           // Degrees
+  radiusOptionsFt?: number[];
+  isBuiltIn?: boolean;
+}
+
+// A run of identical heads: count x nozzle at the same arc and radius
+export interface HeadGroup {
+  id: string;
+  count: number;
+  nozzleId: string;  // NozzleProduct id
+  arc: number;       // Degrees
+  radiusFt: number;
+}
+
+// One entry in the bundled plant database
+export interface PlantSpecies {
+  id: string;
+  commonName: string;
+  botanicalName: string;
+  type: 'Turf' | 'Tree' | 'Shrub' | 'Perennial' | 'Groundcover' | 'Ornamental Grass';
+  waterUse?: Record<string, string>; // PLANT_REGIONS key -> WATER_USE_FACTORS key
+  turfFactor?: number;               // Turf crop coefficient in place of a water use class
+  turfSeason?: 'cool' | 'warm';
+  rootDepthIn: number;
+}
+
+export interface ZoneSpecies {
+  speciesId: string;
+  sharePercent: number; // Portion of the zone area; blank shares split evenly
+}
+
+export interface DripPlant {
+  id: string;
+  name?: string;
+  count: number;
+  canopyDiameterFt: number;
+  waterUse: string; // Key of WATER_USE_FACTORS
+  emitterGph: number;
+  emittersPerPlant: number;
+}
+
+// Drip zones are sized per plant (point-source emitters) or per area (inline dripline)
+export interface DripDesign {
+  layout: 'emitters' | 'dripline';
+  plants: DripPlant[];
+  driplineGph?: string;
+  emitterSpacingIn?: string;
+  rowSpacingIn?: string;
+  driplineWaterUse?: string;
+}
+
+export interface DripPlantResult {
+  id: string;
+  plantFactor: number;
+  gallonsPerPlantWeek: number; // What the plant needs, after efficiency
+  runHoursPerWeek: number;     // Hours its emitters take to deliver that
+  suggestedEmitters: number;   // Emitters that would match the zone run time
+}
+
+export interface DripResult {
+  layout: 'emitters' | 'dripline';
+  plants: DripPlantResult[];
+  netWeeklyInches: number;   // Over the canopy (emitters) or bed (dripline)
+  precipRate: number;        // in/hr over the same area
+  totalGph: number;
+  gallonsPerWeek: number;    // Applied at the zone run time
+  runHoursPerWeek: number;
+  warning?: string;
+}
+
+export interface RateTier {
+  upToUnits: string; // Upper bound of the tier in billing units; blank for the last tier
+  price: string;     // $ per billing unit
+}
+
+// Utility water rates; culinary water is billed on usage, secondary water by flat fee
+export interface WaterRateSchedule {
+  unit: 'kgal' | 'ccf';
+  fixedMonthly: string;        // Base / meter fees, paid with or without irrigation
+  summerMonths: string[];
+  summerTiers: RateTier[];
+  winterTiers: RateTier[];
+  sewerPerUnit: string;
+  sewerOnIrrigation: boolean;  // False when sewer is billed on winter average use
+  indoorBaselineUnits: string; // Monthly indoor use that fills the lower tiers first
+  secondaryAnnualFee: string;
+  secondaryMonths: string[];   // Months secondary water is delivered
+}
+
+export interface PipeRun {
+  material: string; // Key of PIPE_MATERIALS
+  size: string;     // Nominal size, e.g. '1'
+  lengthFt: string;
+}
+
+// Point of connection to the valve manifold, shared by every zone on a property
+export interface SupplyHydraulics {
+  meterSize: string; // Key of METER_DATA, or 'None' for unmetered secondary water
+  mainline: PipeRun;
+  backflowLossPsi?: string;
+}
+
+export interface ZoneHydraulics {
+  lateral: PipeRun;           // Valve to the farthest head
+  elevationChangeFt?: string; // Positive when the heads sit above the supply
+  valveLossPsi?: string;
+}
+
+export interface HydraulicLoss {
+  label: string;
+  psi: number;
+}
+
+export interface HydraulicCheck {
+  flowGpm: number;
+  staticPsi: number;
+  headPsi: number;          // Pressure left at the heads, used for the precip rate
+  losses: HydraulicLoss[];
+  mainlineVelocity: number; // ft/s
+  lateralVelocity: number;  // ft/s
+  warnings: string[];
+}
+
+// Field-measured sprinkler performance from a catch-can test
+export interface CatchCanAudit {
+  cupVolumesMl: number[];
+  cupDiameterIn: number;
+  testMinutes: number;
+  measuredPrecipRate: number; // Net in/hr, replaces the catalog nozzle rate
+  duLq: number;               // Low-quarter distribution uniformity, 0-1
+  schedulingMultiplier: number;
+  auditedAt: number;
+}
+
 export interface PlantFormData {
   customZoneName?: string;
   zoneType: string;
   zoneAreaSqFt?: string;
   mowingHeight?: string; // New field for Turf height
+  frequencyMode?: 'soil' | 'legacy'; // 'soil' (new zones): root zone water budget; 'legacy': fixed thresholds, and what zones saved without a mode load as
+  depletionPercent?: string; // Management allowable depletion override (%)
   location: string;
   zipCode: string;
   month: string;
   estWeeklyEt?: string;
   estWeeklyRain?: string;
-  nozzleType: string;
-  pressure: number | '';
+  climateSource?: ClimateSource;
+  nozzleType: string; // NozzleProduct id
+  heads?: HeadGroup[]; // Mixed-nozzle inventory; overrides nozzleType when present
+  drip?: DripDesign; // Drip zones only; replaces the nozzle when complete
+  species?: ZoneSpecies[]; // Planting mix; replaces the zone type's plant factor and root depth
+  pressure: number | ''; // Static pressure at the point of connection
+  supply?: SupplyHydraulics;
+  zoneHydraulics?: ZoneHydraulics;
   efficiency?: string; // New field for manual efficiency adjustment
   soilType: string;
   slope: string;
   sunlight: string;
   waterSource: string; 
   waterPrice?: string; // Price per 1000 gallons
+  rateSchedule?: WaterRateSchedule; // Replaces waterPrice when set
+  restrictions?: WateringRestrictions;
+  audit?: CatchCanAudit; // Measured rate / DU for this zone's heads
   image?: File | null;
 }
 
@@ -38,6 +218,17 @@ export interface LiveCalculation {
   inchesAppliedPerDay: number; // New field
   isEstData: boolean;
   efficiency: number;
+  isAudited?: boolean; // precipRate and efficiency come from a catch-can audit
+  totalGpm?: number; // Zone flow from the head inventory
+  headMismatchWarning?: string; // Heads on one valve apply water at different rates
+  plantFactor?: number; // Hydrozone coefficient, set when the zone lists species
+  hydrozoneWarning?: string; // Species with very different water needs share the valve
+  drip?: DripResult; // Drip design zones: run time comes from plant gallons, not inches
+  hydraulics?: HydraulicCheck; // Set when pipe runs are entered; precipRate uses its headPsi
+  hydraulicsNeedsArea?: boolean; // Pipe runs entered, but a single-nozzle zone has no area to estimate flow from
+  restrictionWarning?: string; // Set when the allowed days cannot deliver the weekly need
+  pressureWarning?: string; // Set when no pressure reaches the heads; the zone gets no run time
+  wateringIntervalDays?: number; // Soil water mode: days the root zone lasts between waterings
 }
 
 export interface SavedZone {
@@ -46,6 +237,31 @@ export interface SavedZone {
   stats: LiveCalculation;
   formData: PlantFormData;
   timestamp: number;
+  thumbnail?: string; // Small JPEG data URL of the zone photo; the photo itself is not persisted
+  invalidReason?: string; // Set when the zone can no longer be calculated; stats are from its last good run
+}
+
+// One form value read off the zone photo, accepted or rejected by the user
+export interface PhotoSuggestion {
+  field: 'zoneType' | 'nozzleType' | 'slope' | 'sunlight' | 'species';
+  value: string; // Form value; a species id for 'species'
+  label: string;
+}
+
+export interface PhotoAnalysis {
+  suggestions: PhotoSuggestion[];
+  turfSpecies?: string; // As the advisor named it, even when it matches no known species
+  nozzleFamily?: string;
+  stressAreas: string[]; // Visible dry spots, browning or runoff
+  summary: string;
+}
+
+// A number the advisor returned that was replaced by the calculated baseline
+export interface PlanDisagreement {
+  field: keyof WateringSchedule;
+  label: string;
+  modelValue: number | string;
+  baselineValue: number | string;
 }
 
 export interface WateringSchedule {
@@ -55,7 +271,7 @@ export interface WateringSchedule {
   // Dynamic Calculation Data
   totalWeeklyWaterDurationMinutes: number;
   maxRunTimePerCycle: number;
-  recommendedSoakTime: number;
+  recommendedSoakTime?: number; // Not required by the response schema
   recommendedFrequencyDaysPerWeek: number;
   
   // Consumption & Cost
@@ -77,16 +293,57 @@ export interface WateringSchedule {
   warning?: string;
   pressureAdvice: string;
   humidityPreference: string;
-  
-  moistureCurveData: { day: number; moistureLevel: number }[];
+
+  disagreements?: PlanDisagreement[]; // Set when the response was reconciled against the baseline
+  inputs?: PlantFormData; // Zone inputs the plan was written for (photo left out); missing on older saved plans
+}
+
+// Why an advisor request failed; each gets its own message in the error banner
+export type AdvisorErrorCategory = 'quota' | 'network' | 'timeout' | 'invalid-response' | 'safety' | 'unavailable' | 'cancelled' | 'unknown';
+
+export interface AppError {
+  message: string;
+  category?: AdvisorErrorCategory; // Set for advisor failures
 }
 
 export interface AppState {
+  projects: Project[];
+  activeProjectId: string;
   savedZones: SavedZone[];
   formData: PlantFormData;
   loading: boolean;
   weatherLoading: boolean; 
+  aiClimateFallback: boolean; // Ask the advisor when no bundled climate data covers the zip
+  advisorProviderId: AdvisorProviderId;
+  customNozzles: NozzleProduct[];
   result: WateringSchedule | null;
-  error: string | null;
+  photoAnalysis: PhotoAnalysis | null; // For the photo in formData.image
+  photoAnalyzing: boolean;
+  error: AppError | null;
   editingId: string | null;
 }
+
+// Location data shared by every zone in a project
+export interface ProjectLocation {
+  location: string;
+  zipCode: string;
+  month: string;
+  estWeeklyEt?: string;
+  estWeeklyRain?: string;
+  climateSource?: ClimateSource;
+  waterSource: string;
+  waterPrice?: string;
+  rateSchedule?: WaterRateSchedule;
+  restrictions?: WateringRestrictions;
+  supply?: SupplyHydraulics;
+}
+
+export interface Project {
+  id: string;
+  name: string;
+  zones: SavedZone[];
+  location: ProjectLocation;
+  lastResult: WateringSchedule | null;
+  createdAt: number;
+  updatedAt: number;
+}
@@ -12,7 +12,9 @@ export default defineConfig(({ mode }) => {
       plugins: [react()],
       define: {
         'process.env.API_KEY': JSON.stringify(env.GEMINI_API_KEY),
-        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY)
+        'process.env.GEMINI_API_KEY': JSON.stringify(env.GEMINI_API_KEY),
+        // Fixture advisor for tests and local development; left out of production builds
+        'process.env.ENABLE_MOCK_ADVISOR': JSON.stringify(mode !== 'production')
       },
       resolve: {
         alias: {